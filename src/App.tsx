@@ -16,6 +16,9 @@ import Referrals from "./pages/Referrals";
 import ReferralForm from "./pages/ReferralForm";
 import Dispensary from "./pages/Dispensary";
 import IMNCIAssessment from "./pages/IMNCIAssessment";
+import FollowUpVisit from "./pages/FollowUpVisit";
+import FollowUps from "./pages/FollowUps";
+import AssessmentPrint from "./pages/AssessmentPrint";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -70,6 +73,46 @@ const App = () => (
                 </AppLayout>
               }
             />
+            <Route
+              path="/follow-ups"
+              element={
+                <AppLayout>
+                  <FollowUps />
+                </AppLayout>
+              }
+            />
+            <Route
+              path="/assessments/:id/follow-up"
+              element={
+                <AppLayout>
+                  <FollowUpVisit />
+                </AppLayout>
+              }
+            />
+            <Route
+              path="/assessments/:id/amend"
+              element={
+                <AppLayout>
+                  <IMNCIAssessment />
+                </AppLayout>
+              }
+            />
+            <Route
+              path="/assessments/:id/print"
+              element={
+                <AppLayout>
+                  <AssessmentPrint />
+                </AppLayout>
+              }
+            />
+            <Route
+              path="/assessments/:id"
+              element={
+                <AppLayout>
+                  <IMNCIAssessment />
+                </AppLayout>
+              }
+            />
             <Route
               path="/cases"
               element={
@@ -0,0 +1,147 @@
+import { Link } from 'react-router-dom';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { CalendarClock, Check, PhoneCall, X, Stethoscope } from 'lucide-react';
+import { format, isPast, isToday, parseISO } from 'date-fns';
+import { APPOINTMENT_STATUS_LABELS, type AppointmentStatus } from '@/lib/imnci-followup';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type FollowUpAppointment = Tables<'follow_up_appointments'> & {
+  patients: {
+    first_name: string;
+    last_name: string;
+    registration_number: string;
+    guardian_phone: string | null;
+  } | null;
+};
+
+interface AppointmentListProps {
+  appointments: FollowUpAppointment[];
+  emptyMessage: string;
+  showDueDate?: boolean;
+}
+
+const statusClasses: Record<AppointmentStatus, string> = {
+  scheduled: 'bg-info/20 text-info border-info/30',
+  attended: 'bg-success/20 text-success border-success/30',
+  missed: 'bg-destructive/20 text-destructive border-destructive/30',
+  traced: 'bg-warning/20 text-warning border-warning/30',
+};
+
+export function AppointmentList({ appointments, emptyMessage, showDueDate = true }: AppointmentListProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const updateStatus = useMutation({
+    mutationFn: async ({ id, status }: { id: string; status: AppointmentStatus }) => {
+      const { error } = await supabase
+        .from('follow_up_appointments')
+        .update({
+          status,
+          status_updated_by: user?.id,
+          status_updated_at: new Date().toISOString(),
+        })
+        .eq('id', id);
+      if (error) throw error;
+      return status;
+    },
+    onSuccess: (status) => {
+      queryClient.invalidateQueries({ queryKey: ['follow-up-appointments'] });
+      toast({ title: 'Appointment Updated', description: `Marked as ${APPOINTMENT_STATUS_LABELS[status].toLowerCase()}.` });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  if (appointments.length === 0) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        <CalendarClock className="h-12 w-12 mx-auto mb-3 opacity-50" />
+        <p>{emptyMessage}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {appointments.map((appointment) => {
+        const status = appointment.status as AppointmentStatus;
+        const dueDate = parseISO(appointment.due_date);
+        const overdue = status === 'scheduled' && isPast(dueDate) && !isToday(dueDate);
+        return (
+          <div key={appointment.id} className="p-3 rounded-lg bg-muted/50 space-y-2">
+            <div className="flex items-start justify-between gap-2">
+              <div>
+                <Link to={`/patients/${appointment.patient_id}`} className="font-medium text-foreground hover:underline">
+                  {appointment.patients?.first_name} {appointment.patients?.last_name}
+                </Link>
+                <p className="text-sm text-muted-foreground">
+                  {appointment.patients?.registration_number}
+                  {appointment.patients?.guardian_phone && ` • ${appointment.patients.guardian_phone}`}
+                </p>
+                <p className="text-sm">{appointment.reasons.join(', ')}</p>
+              </div>
+              <div className="text-right space-y-1">
+                <Badge className={overdue ? statusClasses.missed : statusClasses[status]}>
+                  {overdue ? 'Overdue' : APPOINTMENT_STATUS_LABELS[status]}
+                </Badge>
+                {showDueDate && (
+                  <p className="text-xs text-muted-foreground">{format(dueDate, 'dd MMM yyyy')}</p>
+                )}
+              </div>
+            </div>
+            {(status === 'scheduled' || status === 'missed') && (
+              <div className="flex flex-wrap gap-2">
+                <Button size="sm" variant="outline" asChild>
+                  <Link to={`/assessments/${appointment.assessment_id}/follow-up`}>
+                    <Stethoscope className="h-4 w-4 mr-1" />
+                    Follow-up Visit
+                  </Link>
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  disabled={updateStatus.isPending}
+                  onClick={() => updateStatus.mutate({ id: appointment.id, status: 'attended' })}
+                >
+                  <Check className="h-4 w-4 mr-1" />
+                  Attended
+                </Button>
+                {status === 'scheduled' && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    disabled={updateStatus.isPending}
+                    onClick={() => updateStatus.mutate({ id: appointment.id, status: 'missed' })}
+                  >
+                    <X className="h-4 w-4 mr-1" />
+                    Missed
+                  </Button>
+                )}
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  disabled={updateStatus.isPending}
+                  onClick={() => updateStatus.mutate({ id: appointment.id, status: 'traced' })}
+                >
+                  <PhoneCall className="h-4 w-4 mr-1" />
+                  Traced
+                </Button>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
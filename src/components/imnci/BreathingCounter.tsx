@@ -0,0 +1,156 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Timer, Play, RotateCcw, AlertTriangle } from 'lucide-react';
+
+interface BreathingCounterProps {
+  threshold: number;
+  onCount: (breathsPerMinute: number) => void;
+  title?: string;
+}
+
+type CountMode = '60' | '30';
+
+// Counts this close to the fast-breathing cut-off should be repeated
+const RECOUNT_MARGIN = 5;
+
+const COUNT_SECONDS: Record<CountMode, number> = { '60': 60, '30': 30 };
+
+export function BreathingCounter({ threshold, onCount, title = 'Count breaths' }: BreathingCounterProps) {
+  const [open, setOpen] = useState(false);
+  const [mode, setMode] = useState<CountMode>('60');
+  const [startedAt, setStartedAt] = useState<number | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const [taps, setTaps] = useState(0);
+  const [rate, setRate] = useState<number | null>(null);
+
+  const duration = COUNT_SECONDS[mode];
+  const elapsedSeconds = startedAt ? Math.min(duration, (now - startedAt) / 1000) : 0;
+  const running = !!startedAt && rate === null;
+
+  // Tick the countdown while counting
+  useEffect(() => {
+    if (!running) return;
+    const interval = setInterval(() => setNow(Date.now()), 200);
+    return () => clearInterval(interval);
+  }, [running]);
+
+  // A 30-second count is doubled to give breaths per minute
+  useEffect(() => {
+    if (!running || elapsedSeconds < duration) return;
+    const breathsPerMinute = taps * (60 / duration);
+    setRate(breathsPerMinute);
+    onCount(breathsPerMinute);
+  }, [running, elapsedSeconds, duration, taps, onCount]);
+
+  const start = (countMode: CountMode) => {
+    setMode(countMode);
+    setTaps(0);
+    setRate(null);
+    setNow(Date.now());
+    setStartedAt(Date.now());
+  };
+
+  const reset = () => {
+    setStartedAt(null);
+    setTaps(0);
+    setRate(null);
+  };
+
+  const nearThreshold = rate !== null && Math.abs(rate - threshold) <= RECOUNT_MARGIN;
+  const fastBreathing = rate !== null && rate >= threshold;
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => { setOpen(value); if (!value) reset(); }}>
+      <DialogTrigger asChild>
+        <Button type="button" variant="outline" size="sm">
+          <Timer className="h-4 w-4 mr-2" />
+          {title}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Respiratory Rate Counter</DialogTitle>
+          <DialogDescription>
+            Count when the child is calm. Tap once for every breath the chest rises.
+            Fast breathing: ≥{threshold}/min for this age.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!startedAt && (
+          <div className="grid grid-cols-2 gap-3">
+            <Button type="button" onClick={() => start('60')}>
+              <Play className="h-4 w-4 mr-2" />
+              60 seconds
+            </Button>
+            <Button type="button" variant="outline" onClick={() => start('30')}>
+              <Play className="h-4 w-4 mr-2" />
+              30 seconds ×2
+            </Button>
+          </div>
+        )}
+
+        {running && (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between text-sm">
+              <span>{Math.ceil(duration - elapsedSeconds)}s remaining</span>
+              <Badge variant="outline">{taps} breaths</Badge>
+            </div>
+            <Progress value={(elapsedSeconds / duration) * 100} />
+            <Button
+              type="button"
+              className="w-full h-32 text-2xl select-none"
+              onClick={() => setTaps(taps + 1)}
+            >
+              Tap on each breath
+            </Button>
+            <Button type="button" variant="ghost" size="sm" onClick={reset}>
+              Cancel
+            </Button>
+          </div>
+        )}
+
+        {rate !== null && (
+          <div className="space-y-4">
+            <div className="text-center">
+              <p className="text-4xl font-bold">{rate}</p>
+              <p className="text-sm text-muted-foreground">
+                breaths per minute
+                {mode === '30' && ` (${taps} in 30 seconds ×2)`}
+              </p>
+              <Badge
+                className={`mt-2 ${fastBreathing ? 'bg-yellow-500 text-black' : 'bg-green-500 text-white'}`}
+              >
+                {fastBreathing ? 'Fast breathing' : 'Not fast breathing'} (cut-off {threshold}/min)
+              </Badge>
+            </div>
+
+            {nearThreshold && (
+              <Alert>
+                <AlertTriangle className="h-4 w-4" />
+                <AlertTitle>Close to the cut-off</AlertTitle>
+                <AlertDescription>
+                  The count is within {RECOUNT_MARGIN} breaths of {threshold}/min. Recount for a full minute
+                  with the child calm before classifying.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <div className="flex gap-2">
+              <Button type="button" variant="outline" className="flex-1" onClick={() => start('60')}>
+                <RotateCcw className="h-4 w-4 mr-2" />
+                Recount (60s)
+              </Button>
+              <Button type="button" className="flex-1" onClick={() => setOpen(false)}>
+                Done
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
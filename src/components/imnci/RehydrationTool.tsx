@@ -0,0 +1,345 @@
+import { useState, useEffect } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { Droplets, Timer, Play, Square, AlertTriangle, Package } from 'lucide-react';
+import {
+  calculatePlanA,
+  calculatePlanB,
+  calculatePlanC,
+  getPlanCProgress,
+  PlanC,
+  RehydrationPlan,
+} from '@/lib/imnci-rehydration';
+
+interface RehydrationToolProps {
+  patientId: string;
+  caseId: string;
+  ageInMonths: number;
+  weightKg: string;
+  onWeightChange: (weightKg: string) => void;
+  plan: RehydrationPlan;
+  onPlanChange: (plan: RehydrationPlan) => void;
+  planCStartedAt: string | null;
+  planCReassessedAt: string | null;
+  onPlanCChange: (planC: { startedAt: string | null; reassessedAt: string | null }) => void;
+}
+
+type OrsStock = {
+  id: string;
+  quantity: number;
+  batch_number: string | null;
+  expiry_date: string | null;
+};
+
+const formatElapsed = (seconds: number) => {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = seconds % 60;
+  return `${h}:${String(m).padStart(2, '0')}:${String(s).padStart(2, '0')}`;
+};
+
+interface PlanCTimerProps {
+  planC: PlanC;
+  weightKg: number;
+  startedAt: string;
+  reassessedAt: string | null;
+  onReassessed: () => void;
+  onStop: () => void;
+}
+
+// Running Plan C timer with the reassessment and ORS reminders, shown wherever the drip is tracked
+export function PlanCTimer({ planC, weightKg, startedAt, reassessedAt, onReassessed, onStop }: PlanCTimerProps) {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const { elapsedSeconds, elapsedMinutes, currentPhase, complete, reassessDue } = getPlanCProgress(
+    planC,
+    startedAt,
+    reassessedAt,
+    now
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="flex items-center gap-2 font-mono text-lg">
+          <Timer className="h-5 w-5" />
+          {formatElapsed(elapsedSeconds)}
+        </span>
+        <Badge variant="outline">
+          {currentPhase ? currentPhase.label : complete ? 'Complete' : ''}
+        </Badge>
+      </div>
+      <Progress value={Math.min(100, (elapsedMinutes / planC.totalMinutes) * 100)} />
+
+      {reassessDue && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Reassess the child now</AlertTitle>
+          <AlertDescription className="space-y-2">
+            <p>If hydration status is not improving, give the IV drip more rapidly.</p>
+            <Button size="sm" variant="outline" onClick={onReassessed}>
+              Reassessed
+            </Button>
+          </AlertDescription>
+        </Alert>
+      )}
+      {elapsedMinutes >= planC.orsFromMinute && !complete && (
+        <Alert>
+          <AlertTitle>Start ORS</AlertTitle>
+          <AlertDescription>
+            Also give ORS (about 5 ml/kg/hour, {Math.round(weightKg * 5)} ml/hour) as soon as the child can drink.
+          </AlertDescription>
+        </Alert>
+      )}
+      {complete && (
+        <Alert>
+          <AlertTitle>IV fluids complete</AlertTitle>
+          <AlertDescription>
+            Reassess the child and classify dehydration, then choose Plan A, B or C to continue treatment.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <Button type="button" variant="outline" className="w-full" onClick={onStop}>
+        <Square className="mr-2 h-4 w-4" />
+        Stop Timer
+      </Button>
+    </div>
+  );
+}
+
+export function RehydrationTool({
+  patientId,
+  caseId,
+  ageInMonths,
+  weightKg,
+  onWeightChange,
+  plan,
+  onPlanChange,
+  planCStartedAt,
+  planCReassessedAt,
+  onPlanCChange,
+}: RehydrationToolProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const [now, setNow] = useState(Date.now());
+  const [selectedStock, setSelectedStock] = useState('');
+  const [sachets, setSachets] = useState(String(calculatePlanA(ageInMonths).sachets));
+
+  const weight = parseFloat(weightKg) || undefined;
+  const planA = calculatePlanA(ageInMonths);
+  const planB = calculatePlanB(ageInMonths, weight);
+  const planC = weight ? calculatePlanC(ageInMonths, weight) : null;
+
+  // Tick the Plan C timer while the drip is running
+  useEffect(() => {
+    if (!planCStartedAt) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [planCStartedAt]);
+
+  const currentPhase = planC && planCStartedAt
+    ? getPlanCProgress(planC, planCStartedAt, planCReassessedAt, now).currentPhase
+    : undefined;
+
+  const { data: orsStock } = useQuery({
+    queryKey: ['inventory', 'ors'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('inventory')
+        .select('id, quantity, batch_number, expiry_date, medications!inner(name)')
+        .eq('medications.name', 'ORS Sachets')
+        .gt('quantity', 0)
+        .order('expiry_date', { ascending: true });
+      if (error) throw error;
+      return data as unknown as OrsStock[];
+    },
+    enabled: open,
+  });
+
+  // Dispense Plan A take-home ORS from inventory
+  const dispenseOrs = useMutation({
+    mutationFn: async () => {
+      const stock = orsStock?.find((s) => s.id === selectedStock);
+      if (!stock) throw new Error('Select an ORS batch to dispense from');
+
+      const qty = parseInt(sachets);
+      if (!qty || qty < 1) throw new Error('Enter the number of sachets');
+      if (qty > stock.quantity) throw new Error('Insufficient stock');
+
+      // Stock is checked again and taken out with the dispensing record on the server
+      const { error } = await supabase.rpc('dispense_ors', {
+        _inventory_id: stock.id,
+        _quantity: qty,
+        _patient_id: patientId,
+        _case_id: caseId,
+      });
+      if (error) throw error;
+      return qty;
+    },
+    onSuccess: (qty) => {
+      queryClient.invalidateQueries({ queryKey: ['inventory'] });
+      queryClient.invalidateQueries({ queryKey: ['dispensing-records'] });
+      toast({ title: 'ORS dispensed', description: `${qty} sachets given to take home.` });
+      setSelectedStock('');
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error dispensing ORS', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const startPlanC = () => {
+    setNow(Date.now());
+    onPlanCChange({ startedAt: new Date().toISOString(), reassessedAt: null });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button type="button" variant="outline" className="w-full">
+          <Droplets className="mr-2 h-4 w-4" />
+          Rehydration Calculator (Plan {plan})
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Rehydration Plans</DialogTitle>
+          <DialogDescription>Fluid volumes for this child by weight or age</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label>Weight (kg)</Label>
+          <Input
+            type="number"
+            step="0.1"
+            min="0"
+            value={weightKg}
+            onChange={(e) => onWeightChange(e.target.value)}
+            placeholder="e.g., 9.5"
+          />
+        </div>
+
+        <Tabs value={plan} onValueChange={(value) => onPlanChange(value as RehydrationPlan)}>
+          <TabsList className="grid w-full grid-cols-3">
+            <TabsTrigger value="A">Plan A</TabsTrigger>
+            <TabsTrigger value="B">Plan B</TabsTrigger>
+            <TabsTrigger value="C">Plan C</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="A" className="space-y-4">
+            <div className="p-3 rounded-md border text-sm space-y-1">
+              <p className="font-medium">Treat diarrhea at home</p>
+              <p>Give ORS {planA.mlAfterEachStool} after each loose stool.</p>
+              <p>Continue feeding and give zinc. Return immediately if the child drinks poorly or becomes sicker.</p>
+            </div>
+
+            <div className="space-y-3">
+              <p className="font-medium flex items-center gap-2">
+                <Package className="h-4 w-4" />
+                Take-home ORS ({planA.sachets} sachets)
+              </p>
+              <Select value={selectedStock} onValueChange={setSelectedStock}>
+                <SelectTrigger>
+                  <SelectValue placeholder={orsStock?.length ? 'Select ORS batch' : 'No ORS sachets in stock'} />
+                </SelectTrigger>
+                <SelectContent>
+                  {orsStock?.map((stock) => (
+                    <SelectItem key={stock.id} value={stock.id}>
+                      {stock.batch_number || 'No batch'} - {stock.quantity} sachets available
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div className="flex gap-2">
+                <Input
+                  type="number"
+                  min="1"
+                  value={sachets}
+                  onChange={(e) => setSachets(e.target.value)}
+                />
+                <Button
+                  type="button"
+                  onClick={() => dispenseOrs.mutate()}
+                  disabled={!selectedStock || dispenseOrs.isPending}
+                >
+                  {dispenseOrs.isPending ? 'Dispensing...' : 'Dispense'}
+                </Button>
+              </div>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="B" className="space-y-3">
+            <div className="p-4 rounded-md border bg-yellow-100 dark:bg-yellow-900/30">
+              <p className="text-sm text-muted-foreground">ORS to give in the first 4 hours</p>
+              <p className="text-2xl font-bold">
+                {planB.minMl === planB.maxMl ? `${planB.minMl} ml` : `${planB.minMl} - ${planB.maxMl} ml`}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {planB.basis === 'weight' ? `${weight} kg × 75 ml` : 'By age band. Weigh the child for an exact volume.'}
+              </p>
+            </div>
+            <p className="text-sm">
+              Give more if the child wants more. Show the mother how to give frequent small sips from a cup.
+              After 4 hours, reassess the child and classify dehydration, then choose Plan A, B or C.
+            </p>
+          </TabsContent>
+
+          <TabsContent value="C" className="space-y-4">
+            {!planC ? (
+              <p className="text-sm text-muted-foreground">Enter the child's weight to calculate IV volumes.</p>
+            ) : (
+              <>
+                <div className="space-y-2">
+                  <p className="text-sm font-medium">Ringer's lactate (or normal saline), {planC.totalMl} ml in total</p>
+                  {planC.phases.map((phase) => (
+                    <div
+                      key={phase.label}
+                      className={`p-3 rounded-md border flex items-center justify-between ${currentPhase === phase ? 'border-red-300 bg-red-100 dark:bg-red-900/30' : ''}`}
+                    >
+                      <span className="text-sm">{phase.label}</span>
+                      <span className="font-bold">{phase.volumeMl} ml</span>
+                    </div>
+                  ))}
+                </div>
+
+                {planCStartedAt ? (
+                  <PlanCTimer
+                    planC={planC}
+                    weightKg={weight}
+                    startedAt={planCStartedAt}
+                    reassessedAt={planCReassessedAt}
+                    onReassessed={() =>
+                      onPlanCChange({ startedAt: planCStartedAt, reassessedAt: new Date().toISOString() })
+                    }
+                    onStop={() => onPlanCChange({ startedAt: null, reassessedAt: null })}
+                  />
+                ) : (
+                  <Button type="button" className="w-full" onClick={startPlanC}>
+                    <Play className="mr-2 h-4 w-4" />
+                    Start IV Fluids
+                  </Button>
+                )}
+              </>
+            )}
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -35,9 +35,11 @@ export function AppLayout({ children }: AppLayoutProps) {
   return (
     <SidebarProvider>
       <div className="min-h-screen flex w-full bg-background">
-        <AppSidebar />
+        <div className="print:hidden">
+          <AppSidebar />
+        </div>
         <div className="flex-1 flex flex-col">
-          <header className="h-16 border-b border-border bg-card flex items-center justify-between px-4 lg:px-6">
+          <header className="print:hidden h-16 border-b border-border bg-card flex items-center justify-between px-4 lg:px-6">
             <div className="flex items-center gap-4">
               <SidebarTrigger className="text-muted-foreground hover:text-foreground" />
               <div className="hidden md:flex items-center gap-2 bg-muted rounded-lg px-3 py-2">
@@ -69,8 +71,8 @@ export function AppLayout({ children }: AppLayoutProps) {
               </div>
             </div>
           </header>
-          <main className="flex-1 overflow-auto">
-            <div className="container py-6 animate-fade-in">
+          <main className="flex-1 overflow-auto print:overflow-visible">
+            <div className="container py-6 animate-fade-in print:max-w-none print:p-0">
               {children}
             </div>
           </main>
@@ -8,6 +8,7 @@ import {
   Pill,
   Building2,
   UserCheck,
+  CalendarClock,
   Menu
 } from 'lucide-react';
 import { NavLink, useLocation } from 'react-router-dom';
@@ -33,6 +34,7 @@ const menuItems = {
     { title: 'Dashboard', url: '/dashboard', icon: LayoutDashboard, roles: ['admin', 'clinician', 'pharmacy', 'chc'] },
     { title: 'Patients', url: '/patients', icon: Users, roles: ['admin', 'clinician'] },
     { title: 'Cases', url: '/cases', icon: FileText, roles: ['admin', 'clinician'] },
+    { title: 'Follow-ups', url: '/follow-ups', icon: CalendarClock, roles: ['admin', 'clinician'] },
     { title: 'Referrals', url: '/referrals', icon: Send, roles: ['admin', 'clinician', 'chc'] },
   ],
   pharmacy: [
@@ -0,0 +1,126 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowDown, ArrowUp, GitCompare, TrendingDown } from 'lucide-react';
+import { format } from 'date-fns';
+import { getColorDisplay } from '@/lib/imnci-classification';
+import {
+  COMPARISON_MEASURES,
+  COMPARISON_MODULES,
+  compareVisits,
+  getDeteriorations,
+  type ComparableAssessment,
+} from '@/lib/imnci-comparison';
+
+interface AssessmentComparisonProps {
+  assessments: ComparableAssessment[];
+  // Most recent visits to show side by side
+  maxVisits?: number;
+}
+
+const worseCellClass = 'ring-2 ring-inset ring-destructive';
+
+export function AssessmentComparison({ assessments, maxVisits = 4 }: AssessmentComparisonProps) {
+  const comparisons = compareVisits(assessments);
+  const visits = comparisons.slice(-maxVisits);
+  const deteriorations = getDeteriorations(comparisons);
+  const modules = COMPARISON_MODULES.filter((m) => visits.some((v) => v.modules[m.id]));
+
+  if (visits.length < 2) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <GitCompare className="h-5 w-5" />
+          Visit Comparison
+        </CardTitle>
+        <CardDescription>Classifications and measurements over the last {visits.length} visits</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {deteriorations.length > 0 && (
+          <Alert variant="destructive">
+            <TrendingDown className="h-4 w-4" />
+            <AlertDescription>
+              Worse than the previous visit: {deteriorations.join(', ')}. Check for treatment failure.
+            </AlertDescription>
+          </Alert>
+        )}
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead />
+                {visits.map((visit) => (
+                  <TableHead key={visit.assessment.id} className="text-center">
+                    {format(new Date(visit.assessment.created_at), 'dd MMM yyyy')}
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {modules.map((module) => (
+                <TableRow key={module.id}>
+                  <TableCell className="font-medium">{module.label}</TableCell>
+                  {visits.map((visit) => {
+                    const result = visit.modules[module.id];
+                    if (!result) {
+                      return (
+                        <TableCell key={visit.assessment.id} className="text-center text-muted-foreground">
+                          —
+                        </TableCell>
+                      );
+                    }
+                    const colorInfo = getColorDisplay(result.color);
+                    return (
+                      <TableCell
+                        key={visit.assessment.id}
+                        className={`text-center text-xs ${colorInfo.bgClass} ${colorInfo.textClass} ${result.worse ? worseCellClass : ''}`}
+                      >
+                        {result.worse && <ArrowUp className="h-3 w-3 inline mr-1" />}
+                        {result.classifications.join(', ')}
+                      </TableCell>
+                    );
+                  })}
+                </TableRow>
+              ))}
+              {COMPARISON_MEASURES.map((measure) => (
+                <TableRow key={measure.key}>
+                  <TableCell className="font-medium">{measure.label}</TableCell>
+                  {visits.map((visit) => {
+                    const { value, worse } = visit.measures[measure.key];
+                    return (
+                      <TableCell
+                        key={visit.assessment.id}
+                        className={`text-center ${worse ? `${worseCellClass} text-destructive font-medium` : ''}`}
+                      >
+                        {value !== null ? `${value} ${measure.unit}` : '—'}
+                        {worse &&
+                          (measure.worse === 'higher' ? (
+                            <ArrowUp className="h-3 w-3 inline ml-1" />
+                          ) : (
+                            <ArrowDown className="h-3 w-3 inline ml-1" />
+                          ))}
+                      </TableCell>
+                    );
+                  })}
+                </TableRow>
+              ))}
+              <TableRow>
+                <TableCell className="font-medium">Dehydration signs</TableCell>
+                {visits.map((visit) => (
+                  <TableCell
+                    key={visit.assessment.id}
+                    className={`text-center text-xs ${visit.dehydrationWorse ? `${worseCellClass} text-destructive` : ''}`}
+                  >
+                    {visit.dehydrationSigns.length > 0 ? visit.dehydrationSigns.join(', ') : 'None'}
+                  </TableCell>
+                ))}
+              </TableRow>
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,231 @@
+import { useQuery } from '@tanstack/react-query';
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { LineChart as LineChartIcon } from 'lucide-react';
+import { differenceInMonths, format, parseISO } from 'date-fns';
+import { getColorDisplay, getFastBreathingThreshold, type ClassificationColor } from '@/lib/imnci-classification';
+import { PROTOCOL_COUNTRY, resolveProtocol, type ProtocolOverride } from '@/lib/imnci-protocol';
+
+interface TrendAssessment {
+  id: string;
+  created_at: string;
+  weight_kg: number | null;
+  weight_for_age: number | null;
+  muac_measurement: number | null;
+  temperature: number | null;
+  breaths_per_minute: number | null;
+  overall_classification: string | null;
+  overall_classification_color: string | null;
+}
+
+interface TrendChartsProps {
+  assessments: TrendAssessment[];
+  dateOfBirth: string;
+  district?: string | null;
+}
+
+type TrendKey = 'weight_kg' | 'weight_for_age' | 'muac_measurement' | 'temperature' | 'breaths_per_minute';
+
+// Visit markers take the color of the overall classification
+const MARKER_COLORS: Record<ClassificationColor, string> = {
+  green: '#16a34a',
+  yellow: '#ca8a04',
+  pink: '#db2777',
+  red: '#dc2626',
+};
+
+interface TrendPoint {
+  date: string;
+  classification: string;
+  color: ClassificationColor | null;
+  fastBreathing: number;
+  weight_kg: number | null;
+  weight_for_age: number | null;
+  muac_measurement: number | null;
+  temperature: number | null;
+  breaths_per_minute: number | null;
+}
+
+interface TrendChartProps {
+  title: string;
+  dataKey: TrendKey;
+  unit: string;
+  data: TrendPoint[];
+  references?: { value: number; label: string }[];
+  // A cut-off that changes with age, drawn as a dashed step line
+  ageThresholdKey?: 'fastBreathing';
+}
+
+function VisitMarker(props: { cx?: number; cy?: number; payload?: TrendPoint; value?: number | null }) {
+  const { cx, cy, payload, value } = props;
+  if (cx === undefined || cy === undefined || value === null || value === undefined) return null;
+  const fill = payload?.color ? MARKER_COLORS[payload.color] : 'hsl(var(--muted-foreground))';
+  return <circle cx={cx} cy={cy} r={5} fill={fill} stroke="hsl(var(--background))" strokeWidth={2} />;
+}
+
+function TrendChart({ title, dataKey, unit, data, references = [], ageThresholdKey }: TrendChartProps) {
+  const config: ChartConfig = {
+    [dataKey]: { label: `${title} (${unit})`, color: 'hsl(var(--primary))' },
+    ...(ageThresholdKey ? { [ageThresholdKey]: { label: 'Fast breathing cut-off', color: 'hsl(var(--destructive))' } } : {}),
+  };
+  const recorded = data.filter((point) => point[dataKey] !== null);
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base">{title}</CardTitle>
+        <CardDescription>
+          {recorded.length > 0 ? `${recorded.length} of ${data.length} visits recorded` : 'Not recorded yet'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ChartContainer config={config} className="h-[220px] w-full aspect-auto">
+          <LineChart data={data} margin={{ top: 10, right: 50, left: 0, bottom: 0 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="date" tickLine={false} axisLine={false} />
+            <YAxis tickLine={false} axisLine={false} width={40} domain={['auto', 'auto']} />
+            <ChartTooltip
+              content={
+                <ChartTooltipContent
+                  labelFormatter={(label, payload) => {
+                    const point = payload?.[0]?.payload as TrendPoint | undefined;
+                    return point ? `${label} · ${point.classification}` : label;
+                  }}
+                />
+              }
+            />
+            {references.map((reference) => (
+              <ReferenceLine
+                key={reference.label}
+                y={reference.value}
+                stroke="hsl(var(--destructive))"
+                strokeDasharray="4 4"
+                label={{ value: reference.label, position: 'right', fontSize: 10, fill: 'hsl(var(--muted-foreground))' }}
+              />
+            ))}
+            {ageThresholdKey && (
+              <Line
+                dataKey={ageThresholdKey}
+                type="stepAfter"
+                stroke={`var(--color-${ageThresholdKey})`}
+                strokeDasharray="4 4"
+                dot={false}
+                isAnimationActive={false}
+              />
+            )}
+            <Line
+              dataKey={dataKey}
+              type="monotone"
+              stroke={`var(--color-${dataKey})`}
+              strokeWidth={2}
+              connectNulls
+              dot={<VisitMarker />}
+              activeDot={{ r: 6 }}
+            />
+          </LineChart>
+        </ChartContainer>
+      </CardContent>
+    </Card>
+  );
+}
+
+export function TrendCharts({ assessments, dateOfBirth, district }: TrendChartsProps) {
+  const { data: protocolOverrides } = useQuery({
+    queryKey: ['imnci-protocol-overrides', PROTOCOL_COUNTRY],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('imnci_protocol_overrides')
+        .select('*')
+        .eq('country', PROTOCOL_COUNTRY)
+        .eq('is_active', true);
+      if (error) throw error;
+      return data as unknown as ProtocolOverride[];
+    },
+  });
+
+  const protocol = resolveProtocol(protocolOverrides || [], { country: PROTOCOL_COUNTRY, district });
+  const { thresholds } = protocol;
+
+  const data: TrendPoint[] = [...assessments]
+    .sort((a, b) => a.created_at.localeCompare(b.created_at))
+    .map((a) => {
+      const assessedAt = new Date(a.created_at);
+      const color = a.overall_classification_color as ClassificationColor | null;
+      return {
+        date: format(assessedAt, 'dd MMM yy'),
+        classification: a.overall_classification || (color ? getColorDisplay(color).label : 'Not classified'),
+        color,
+        fastBreathing: getFastBreathingThreshold(differenceInMonths(assessedAt, parseISO(dateOfBirth)), protocol),
+        weight_kg: a.weight_kg,
+        weight_for_age: a.weight_for_age,
+        muac_measurement: a.muac_measurement,
+        temperature: a.temperature,
+        breaths_per_minute: a.breaths_per_minute,
+      };
+    });
+
+  if (data.length === 0) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        <LineChartIcon className="h-12 w-12 mx-auto mb-3 opacity-50" />
+        <p>No completed assessments to chart</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-3 text-xs text-muted-foreground">
+        <span>Visit markers show the overall classification:</span>
+        {(Object.keys(MARKER_COLORS) as ClassificationColor[]).map((color) => (
+          <span key={color} className="flex items-center gap-1">
+            <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: MARKER_COLORS[color] }} />
+            {getColorDisplay(color).label}
+          </span>
+        ))}
+      </div>
+      <div className="grid gap-4 lg:grid-cols-2">
+        <TrendChart title="Weight" dataKey="weight_kg" unit="kg" data={data} />
+        <TrendChart
+          title="Weight-for-age"
+          dataKey="weight_for_age"
+          unit="z-score"
+          data={data}
+          references={[
+            { value: thresholds.weightForAgeModerate, label: `${thresholds.weightForAgeModerate} SD` },
+            { value: thresholds.weightForAgeSevere, label: `${thresholds.weightForAgeSevere} SD` },
+          ]}
+        />
+        <TrendChart
+          title="MUAC"
+          dataKey="muac_measurement"
+          unit="cm"
+          data={data}
+          references={[
+            { value: thresholds.muacModerate, label: `${thresholds.muacModerate} cm` },
+            { value: thresholds.muacSevere, label: `${thresholds.muacSevere} cm` },
+          ]}
+        />
+        <TrendChart
+          title="Temperature"
+          dataKey="temperature"
+          unit="°C"
+          data={data}
+          references={[
+            { value: thresholds.feverTemperature, label: `Fever ${thresholds.feverTemperature}°C` },
+            { value: thresholds.lowTemperature, label: `Low ${thresholds.lowTemperature}°C` },
+          ]}
+        />
+        <TrendChart
+          title="Breathing rate"
+          dataKey="breaths_per_minute"
+          unit="breaths/min"
+          data={data}
+          ageThresholdKey="fastBreathing"
+        />
+      </div>
+    </div>
+  );
+}
@@ -80,6 +80,7 @@ export type Database = {
           inventory_id: string
           notes: string | null
           patient_id: string | null
+          prescription_item_id: string | null
           quantity_dispensed: number
         }
         Insert: {
@@ -91,6 +92,7 @@ export type Database = {
           inventory_id: string
           notes?: string | null
           patient_id?: string | null
+          prescription_item_id?: string | null
           quantity_dispensed: number
         }
         Update: {
@@ -102,6 +104,7 @@ export type Database = {
           inventory_id?: string
           notes?: string | null
           patient_id?: string | null
+          prescription_item_id?: string | null
           quantity_dispensed?: number
         }
         Relationships: [
@@ -126,16 +129,167 @@ export type Database = {
             referencedRelation: "patients"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "dispensing_records_prescription_item_id_fkey"
+            columns: ["prescription_item_id"]
+            isOneToOne: false
+            referencedRelation: "prescription_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      follow_up_appointments: {
+        Row: {
+          assessment_id: string
+          case_id: string | null
+          created_at: string
+          due_date: string
+          id: string
+          notes: string | null
+          patient_id: string
+          reasons: string[]
+          status: string
+          status_updated_at: string | null
+          status_updated_by: string | null
+          updated_at: string
+        }
+        Insert: {
+          assessment_id: string
+          case_id?: string | null
+          created_at?: string
+          due_date: string
+          id?: string
+          notes?: string | null
+          patient_id: string
+          reasons?: string[]
+          status?: string
+          status_updated_at?: string | null
+          status_updated_by?: string | null
+          updated_at?: string
+        }
+        Update: {
+          assessment_id?: string
+          case_id?: string | null
+          created_at?: string
+          due_date?: string
+          id?: string
+          notes?: string | null
+          patient_id?: string
+          reasons?: string[]
+          status?: string
+          status_updated_at?: string | null
+          status_updated_by?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "follow_up_appointments_assessment_id_fkey"
+            columns: ["assessment_id"]
+            isOneToOne: false
+            referencedRelation: "imnci_assessments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "follow_up_appointments_case_id_fkey"
+            columns: ["case_id"]
+            isOneToOne: false
+            referencedRelation: "cases"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "follow_up_appointments_patient_id_fkey"
+            columns: ["patient_id"]
+            isOneToOne: false
+            referencedRelation: "patients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      imnci_assessment_revisions: {
+        Row: {
+          amended_by: string
+          amended_by_name: string | null
+          assessment_id: string
+          changes: Json
+          created_at: string
+          id: string
+          new_overall_color:
+            | Database["public"]["Enums"]["classification_color"]
+            | null
+          new_requires_referral: boolean | null
+          previous_overall_color:
+            | Database["public"]["Enums"]["classification_color"]
+            | null
+          previous_requires_referral: boolean | null
+          previous_values: Json
+          reason: string
+          revision_number: number
+        }
+        Insert: {
+          amended_by: string
+          amended_by_name?: string | null
+          assessment_id: string
+          changes?: Json
+          created_at?: string
+          id?: string
+          new_overall_color?:
+            | Database["public"]["Enums"]["classification_color"]
+            | null
+          new_requires_referral?: boolean | null
+          previous_overall_color?:
+            | Database["public"]["Enums"]["classification_color"]
+            | null
+          previous_requires_referral?: boolean | null
+          previous_values: Json
+          reason: string
+          revision_number: number
+        }
+        Update: {
+          amended_by?: string
+          amended_by_name?: string | null
+          assessment_id?: string
+          changes?: Json
+          created_at?: string
+          id?: string
+          new_overall_color?:
+            | Database["public"]["Enums"]["classification_color"]
+            | null
+          new_requires_referral?: boolean | null
+          previous_overall_color?:
+            | Database["public"]["Enums"]["classification_color"]
+            | null
+          previous_requires_referral?: boolean | null
+          previous_values?: Json
+          reason?: string
+          revision_number?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "imnci_assessment_revisions_assessment_id_fkey"
+            columns: ["assessment_id"]
+            isOneToOne: false
+            referencedRelation: "imnci_assessments"
+            referencedColumns: ["id"]
+          },
         ]
       }
       imnci_assessments: {
         Row: {
+          amended_at: string | null
+          amendment_count: number
           blood_in_stool: boolean | null
+          breastfed: boolean | null
+          breastfeeding_attachment: string | null
+          breastfeeding_suckling: string | null
+          breastfeeds_per_day: number | null
           breaths_per_minute: number | null
+          breaths_per_minute_after_bronchodilator: number | null
           case_id: string
           chest_indrawing: boolean | null
           child_hiv_result: string | null
+          child_hiv_test_type: string | null
           child_hiv_tested: boolean | null
+          classification_results: Json | null
           clinician_id: string
           clouding_cornea: boolean | null
           convulsing_now: boolean | null
@@ -145,8 +299,10 @@ export type Database = {
             | Database["public"]["Enums"]["classification_color"]
             | null
           cough_duration_days: number | null
+          counselling_points: string[] | null
           created_at: string
           danger_signs_completed: boolean | null
+          deep_mouth_ulcers: boolean | null
           deworming_given: boolean | null
           diarrhea_classification: string | null
           diarrhea_classification_color:
@@ -154,6 +310,7 @@ export type Database = {
             | null
           diarrhea_completed: boolean | null
           diarrhea_duration_days: number | null
+          dosing_regimens: Json | null
           drinks_eagerly: boolean | null
           ear_classification: string | null
           ear_classification_color:
@@ -164,71 +321,137 @@ export type Database = {
           ear_discharge_duration_days: number | null
           ear_pain: boolean | null
           edema_both_feet: boolean | null
+          emergency_fast_track: boolean
+          feeding_classification: string | null
+          feeding_classification_color:
+            | Database["public"]["Enums"]["classification_color"]
+            | null
+          feeding_completed: boolean | null
+          feeding_reduced_during_illness: boolean | null
           fever_classification: string | null
           fever_classification_color:
             | Database["public"]["Enums"]["classification_color"]
             | null
           fever_completed: boolean | null
           fever_duration_days: number | null
+          follow_up_due_date: string | null
           follow_up_instructions: string | null
+          food_thin_or_watery: boolean | null
           generalized_rash: boolean | null
           has_convulsions: boolean | null
           has_cough_difficulty_breathing: boolean | null
           has_diarrhea: boolean | null
           has_ear_problem: boolean | null
           has_fever: boolean | null
+          has_jaundice: boolean | null
+          height_for_age: number | null
+          hiv_classification: string | null
+          hiv_classification_color:
+            | Database["public"]["Enums"]["classification_color"]
+            | null
           hiv_completed: boolean | null
           id: string
           immunization_completed: boolean | null
           immunization_up_to_date: boolean | null
+          infant_feeding_classification: string | null
+          infant_feeding_classification_color:
+            | Database["public"]["Enums"]["classification_color"]
+            | null
+          infant_feeding_completed: boolean | null
+          infant_infection_classification: string | null
+          infant_infection_classification_color:
+            | Database["public"]["Enums"]["classification_color"]
+            | null
+          infant_infection_completed: boolean | null
+          is_young_infant: boolean | null
+          jaundice_classification: string | null
+          jaundice_classification_color:
+            | Database["public"]["Enums"]["classification_color"]
+            | null
+          jaundice_completed: boolean | null
+          jaundice_palms_soles: boolean | null
+          length_height_cm: number | null
           lethargic_unconscious: boolean | null
+          malaria_rdt_required: boolean | null
           malaria_rdt_result: string | null
+          malaria_risk: string | null
+          meals_per_day: number | null
           measles_last_3_months: boolean | null
+          measured_lying: boolean | null
           mother_hiv_positive: boolean | null
           mouth_ulcers: boolean | null
+          movement_only_when_stimulated: boolean | null
           muac_measurement: number | null
+          no_own_serving: boolean | null
           not_able_to_drink: boolean | null
           not_able_to_drink_diarrhea: boolean | null
+          not_actively_fed: boolean | null
+          not_breastfed_at_night: boolean | null
+          not_feeding_well: boolean | null
           nutrition_classification: string | null
           nutrition_classification_color:
             | Database["public"]["Enums"]["classification_color"]
             | null
           nutrition_completed: boolean | null
+          oral_thrush: boolean | null
+          other_fever_cause: boolean | null
           overall_classification: string | null
           overall_classification_color:
             | Database["public"]["Enums"]["classification_color"]
             | null
           palmar_pallor: boolean | null
           patient_id: string
+          plan_c_reassessed_at: string | null
+          plan_c_started_at: string | null
+          pre_referral_treatments: Json | null
+          protocol_version: string | null
           pus_draining_eye: boolean | null
+          receives_other_foods: boolean | null
           referral_urgency: string | null
+          rehydration_plan: string | null
           requires_referral: boolean | null
           restless_irritable: boolean | null
           runny_nose: boolean | null
+          severe_chest_indrawing: boolean | null
           severe_palmar_pallor: boolean | null
           skin_pinch_slow: boolean | null
           skin_pinch_very_slow: boolean | null
+          skin_pustules: boolean | null
           status: Database["public"]["Enums"]["assessment_status"]
           stiff_neck: boolean | null
           stridor: boolean | null
           sunken_eyes: boolean | null
           temperature: number | null
           tender_swelling_behind_ear: boolean | null
+          travelled_to_malaria_area: boolean | null
           treatment_recommendations: string | null
+          umbilicus_red_or_pus: boolean | null
           updated_at: string
+          uses_feeding_bottle: boolean | null
           visible_severe_wasting: boolean | null
           vitamin_a_given: boolean | null
           vomits_everything: boolean | null
           weight_for_age: number | null
+          weight_for_height: number | null
+          weight_kg: number | null
           wheezing: boolean | null
         }
         Insert: {
+          amended_at?: string | null
+          amendment_count?: number
           blood_in_stool?: boolean | null
+          breastfed?: boolean | null
+          breastfeeding_attachment?: string | null
+          breastfeeding_suckling?: string | null
+          breastfeeds_per_day?: number | null
           breaths_per_minute?: number | null
+          breaths_per_minute_after_bronchodilator?: number | null
           case_id: string
           chest_indrawing?: boolean | null
           child_hiv_result?: string | null
+          child_hiv_test_type?: string | null
           child_hiv_tested?: boolean | null
+          classification_results?: Json | null
           clinician_id: string
           clouding_cornea?: boolean | null
           convulsing_now?: boolean | null
@@ -238,8 +461,10 @@ export type Database = {
             | Database["public"]["Enums"]["classification_color"]
             | null
           cough_duration_days?: number | null
+          counselling_points?: string[] | null
           created_at?: string
           danger_signs_completed?: boolean | null
+          deep_mouth_ulcers?: boolean | null
           deworming_given?: boolean | null
           diarrhea_classification?: string | null
           diarrhea_classification_color?:
@@ -247,6 +472,7 @@ export type Database = {
             | null
           diarrhea_completed?: boolean | null
           diarrhea_duration_days?: number | null
+          dosing_regimens?: Json | null
           drinks_eagerly?: boolean | null
           ear_classification?: string | null
           ear_classification_color?:
@@ -257,71 +483,137 @@ export type Database = {
           ear_discharge_duration_days?: number | null
           ear_pain?: boolean | null
           edema_both_feet?: boolean | null
+          emergency_fast_track?: boolean
+          feeding_classification?: string | null
+          feeding_classification_color?:
+            | Database["public"]["Enums"]["classification_color"]
+            | null
+          feeding_completed?: boolean | null
+          feeding_reduced_during_illness?: boolean | null
           fever_classification?: string | null
           fever_classification_color?:
             | Database["public"]["Enums"]["classification_color"]
             | null
           fever_completed?: boolean | null
           fever_duration_days?: number | null
+          follow_up_due_date?: string | null
           follow_up_instructions?: string | null
+          food_thin_or_watery?: boolean | null
           generalized_rash?: boolean | null
           has_convulsions?: boolean | null
           has_cough_difficulty_breathing?: boolean | null
           has_diarrhea?: boolean | null
           has_ear_problem?: boolean | null
           has_fever?: boolean | null
+          has_jaundice?: boolean | null
+          height_for_age?: number | null
+          hiv_classification?: string | null
+          hiv_classification_color?:
+            | Database["public"]["Enums"]["classification_color"]
+            | null
           hiv_completed?: boolean | null
           id?: string
           immunization_completed?: boolean | null
           immunization_up_to_date?: boolean | null
+          infant_feeding_classification?: string | null
+          infant_feeding_classification_color?:
+            | Database["public"]["Enums"]["classification_color"]
+            | null
+          infant_feeding_completed?: boolean | null
+          infant_infection_classification?: string | null
+          infant_infection_classification_color?:
+            | Database["public"]["Enums"]["classification_color"]
+            | null
+          infant_infection_completed?: boolean | null
+          is_young_infant?: boolean | null
+          jaundice_classification?: string | null
+          jaundice_classification_color?:
+            | Database["public"]["Enums"]["classification_color"]
+            | null
+          jaundice_completed?: boolean | null
+          jaundice_palms_soles?: boolean | null
+          length_height_cm?: number | null
           lethargic_unconscious?: boolean | null
+          malaria_rdt_required?: boolean | null
           malaria_rdt_result?: string | null
+          malaria_risk?: string | null
+          meals_per_day?: number | null
           measles_last_3_months?: boolean | null
+          measured_lying?: boolean | null
           mother_hiv_positive?: boolean | null
           mouth_ulcers?: boolean | null
+          movement_only_when_stimulated?: boolean | null
           muac_measurement?: number | null
+          no_own_serving?: boolean | null
           not_able_to_drink?: boolean | null
           not_able_to_drink_diarrhea?: boolean | null
+          not_actively_fed?: boolean | null
+          not_breastfed_at_night?: boolean | null
+          not_feeding_well?: boolean | null
           nutrition_classification?: string | null
           nutrition_classification_color?:
             | Database["public"]["Enums"]["classification_color"]
             | null
           nutrition_completed?: boolean | null
+          oral_thrush?: boolean | null
+          other_fever_cause?: boolean | null
           overall_classification?: string | null
           overall_classification_color?:
             | Database["public"]["Enums"]["classification_color"]
             | null
           palmar_pallor?: boolean | null
           patient_id: string
+          plan_c_reassessed_at?: string | null
+          plan_c_started_at?: string | null
+          pre_referral_treatments?: Json | null
+          protocol_version?: string | null
           pus_draining_eye?: boolean | null
+          receives_other_foods?: boolean | null
           referral_urgency?: string | null
+          rehydration_plan?: string | null
           requires_referral?: boolean | null
           restless_irritable?: boolean | null
           runny_nose?: boolean | null
+          severe_chest_indrawing?: boolean | null
           severe_palmar_pallor?: boolean | null
           skin_pinch_slow?: boolean | null
           skin_pinch_very_slow?: boolean | null
+          skin_pustules?: boolean | null
           status?: Database["public"]["Enums"]["assessment_status"]
           stiff_neck?: boolean | null
           stridor?: boolean | null
           sunken_eyes?: boolean | null
           temperature?: number | null
           tender_swelling_behind_ear?: boolean | null
+          travelled_to_malaria_area?: boolean | null
           treatment_recommendations?: string | null
+          umbilicus_red_or_pus?: boolean | null
           updated_at?: string
+          uses_feeding_bottle?: boolean | null
           visible_severe_wasting?: boolean | null
           vitamin_a_given?: boolean | null
           vomits_everything?: boolean | null
           weight_for_age?: number | null
+          weight_for_height?: number | null
+          weight_kg?: number | null
           wheezing?: boolean | null
         }
         Update: {
+          amended_at?: string | null
+          amendment_count?: number
           blood_in_stool?: boolean | null
+          breastfed?: boolean | null
+          breastfeeding_attachment?: string | null
+          breastfeeding_suckling?: string | null
+          breastfeeds_per_day?: number | null
           breaths_per_minute?: number | null
+          breaths_per_minute_after_bronchodilator?: number | null
           case_id?: string
           chest_indrawing?: boolean | null
           child_hiv_result?: string | null
+          child_hiv_test_type?: string | null
           child_hiv_tested?: boolean | null
+          classification_results?: Json | null
           clinician_id?: string
           clouding_cornea?: boolean | null
           convulsing_now?: boolean | null
@@ -331,8 +623,10 @@ export type Database = {
             | Database["public"]["Enums"]["classification_color"]
             | null
           cough_duration_days?: number | null
+          counselling_points?: string[] | null
           created_at?: string
           danger_signs_completed?: boolean | null
+          deep_mouth_ulcers?: boolean | null
           deworming_given?: boolean | null
           diarrhea_classification?: string | null
           diarrhea_classification_color?:
@@ -340,6 +634,7 @@ export type Database = {
             | null
           diarrhea_completed?: boolean | null
           diarrhea_duration_days?: number | null
+          dosing_regimens?: Json | null
           drinks_eagerly?: boolean | null
           ear_classification?: string | null
           ear_classification_color?:
@@ -350,62 +645,119 @@ export type Database = {
           ear_discharge_duration_days?: number | null
           ear_pain?: boolean | null
           edema_both_feet?: boolean | null
+          emergency_fast_track?: boolean
+          feeding_classification?: string | null
+          feeding_classification_color?:
+            | Database["public"]["Enums"]["classification_color"]
+            | null
+          feeding_completed?: boolean | null
+          feeding_reduced_during_illness?: boolean | null
           fever_classification?: string | null
           fever_classification_color?:
             | Database["public"]["Enums"]["classification_color"]
             | null
           fever_completed?: boolean | null
           fever_duration_days?: number | null
+          follow_up_due_date?: string | null
           follow_up_instructions?: string | null
+          food_thin_or_watery?: boolean | null
           generalized_rash?: boolean | null
           has_convulsions?: boolean | null
           has_cough_difficulty_breathing?: boolean | null
           has_diarrhea?: boolean | null
           has_ear_problem?: boolean | null
           has_fever?: boolean | null
+          has_jaundice?: boolean | null
+          height_for_age?: number | null
+          hiv_classification?: string | null
+          hiv_classification_color?:
+            | Database["public"]["Enums"]["classification_color"]
+            | null
           hiv_completed?: boolean | null
           id?: string
           immunization_completed?: boolean | null
           immunization_up_to_date?: boolean | null
+          infant_feeding_classification?: string | null
+          infant_feeding_classification_color?:
+            | Database["public"]["Enums"]["classification_color"]
+            | null
+          infant_feeding_completed?: boolean | null
+          infant_infection_classification?: string | null
+          infant_infection_classification_color?:
+            | Database["public"]["Enums"]["classification_color"]
+            | null
+          infant_infection_completed?: boolean | null
+          is_young_infant?: boolean | null
+          jaundice_classification?: string | null
+          jaundice_classification_color?:
+            | Database["public"]["Enums"]["classification_color"]
+            | null
+          jaundice_completed?: boolean | null
+          jaundice_palms_soles?: boolean | null
+          length_height_cm?: number | null
           lethargic_unconscious?: boolean | null
+          malaria_rdt_required?: boolean | null
           malaria_rdt_result?: string | null
+          malaria_risk?: string | null
+          meals_per_day?: number | null
           measles_last_3_months?: boolean | null
+          measured_lying?: boolean | null
           mother_hiv_positive?: boolean | null
           mouth_ulcers?: boolean | null
+          movement_only_when_stimulated?: boolean | null
           muac_measurement?: number | null
+          no_own_serving?: boolean | null
           not_able_to_drink?: boolean | null
           not_able_to_drink_diarrhea?: boolean | null
+          not_actively_fed?: boolean | null
+          not_breastfed_at_night?: boolean | null
+          not_feeding_well?: boolean | null
           nutrition_classification?: string | null
           nutrition_classification_color?:
             | Database["public"]["Enums"]["classification_color"]
             | null
           nutrition_completed?: boolean | null
+          oral_thrush?: boolean | null
+          other_fever_cause?: boolean | null
           overall_classification?: string | null
           overall_classification_color?:
             | Database["public"]["Enums"]["classification_color"]
             | null
           palmar_pallor?: boolean | null
           patient_id?: string
+          plan_c_reassessed_at?: string | null
+          plan_c_started_at?: string | null
+          pre_referral_treatments?: Json | null
+          protocol_version?: string | null
           pus_draining_eye?: boolean | null
+          receives_other_foods?: boolean | null
           referral_urgency?: string | null
+          rehydration_plan?: string | null
           requires_referral?: boolean | null
           restless_irritable?: boolean | null
           runny_nose?: boolean | null
+          severe_chest_indrawing?: boolean | null
           severe_palmar_pallor?: boolean | null
           skin_pinch_slow?: boolean | null
           skin_pinch_very_slow?: boolean | null
+          skin_pustules?: boolean | null
           status?: Database["public"]["Enums"]["assessment_status"]
           stiff_neck?: boolean | null
           stridor?: boolean | null
           sunken_eyes?: boolean | null
           temperature?: number | null
           tender_swelling_behind_ear?: boolean | null
+          travelled_to_malaria_area?: boolean | null
           treatment_recommendations?: string | null
+          umbilicus_red_or_pus?: boolean | null
           updated_at?: string
+          uses_feeding_bottle?: boolean | null
           visible_severe_wasting?: boolean | null
           vitamin_a_given?: boolean | null
           vomits_everything?: boolean | null
           weight_for_age?: number | null
+          weight_for_height?: number | null
+          weight_kg?: number | null
           wheezing?: boolean | null
         }
         Relationships: [
@@ -425,6 +777,121 @@ export type Database = {
           },
         ]
       }
+      imnci_follow_ups: {
+        Row: {
+          action: string | null
+          assessment_id: string
+          case_id: string | null
+          clinician_id: string | null
+          condition: string
+          created_at: string
+          decision: string
+          id: string
+          next_follow_up_date: string | null
+          notes: string | null
+          patient_id: string
+          progress: string
+          signs: string[]
+          updated_at: string
+        }
+        Insert: {
+          action?: string | null
+          assessment_id: string
+          case_id?: string | null
+          clinician_id?: string | null
+          condition: string
+          created_at?: string
+          decision: string
+          id?: string
+          next_follow_up_date?: string | null
+          notes?: string | null
+          patient_id: string
+          progress: string
+          signs?: string[]
+          updated_at?: string
+        }
+        Update: {
+          action?: string | null
+          assessment_id?: string
+          case_id?: string | null
+          clinician_id?: string | null
+          condition?: string
+          created_at?: string
+          decision?: string
+          id?: string
+          next_follow_up_date?: string | null
+          notes?: string | null
+          patient_id?: string
+          progress?: string
+          signs?: string[]
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "imnci_follow_ups_assessment_id_fkey"
+            columns: ["assessment_id"]
+            isOneToOne: false
+            referencedRelation: "imnci_assessments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "imnci_follow_ups_case_id_fkey"
+            columns: ["case_id"]
+            isOneToOne: false
+            referencedRelation: "cases"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "imnci_follow_ups_patient_id_fkey"
+            columns: ["patient_id"]
+            isOneToOne: false
+            referencedRelation: "patients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      imnci_protocol_overrides: {
+        Row: {
+          country: string
+          created_at: string
+          created_by: string | null
+          district: string | null
+          id: string
+          is_active: boolean
+          notes: string | null
+          thresholds: Json
+          treatments: Json
+          updated_at: string
+          version: string
+        }
+        Insert: {
+          country: string
+          created_at?: string
+          created_by?: string | null
+          district?: string | null
+          id?: string
+          is_active?: boolean
+          notes?: string | null
+          thresholds?: Json
+          treatments?: Json
+          updated_at?: string
+          version: string
+        }
+        Update: {
+          country?: string
+          created_at?: string
+          created_by?: string | null
+          district?: string | null
+          id?: string
+          is_active?: boolean
+          notes?: string | null
+          thresholds?: Json
+          treatments?: Json
+          updated_at?: string
+          version?: string
+        }
+        Relationships: []
+      }
       inventory: {
         Row: {
           batch_number: string | null
@@ -472,6 +939,36 @@ export type Database = {
           },
         ]
       }
+      malaria_risk_areas: {
+        Row: {
+          created_at: string
+          district: string
+          facility_name: string | null
+          id: string
+          notes: string | null
+          risk_level: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          district: string
+          facility_name?: string | null
+          id?: string
+          notes?: string | null
+          risk_level: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          district?: string
+          facility_name?: string | null
+          id?: string
+          notes?: string | null
+          risk_level?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       medications: {
         Row: {
           category: string | null
@@ -562,6 +1059,124 @@ export type Database = {
         }
         Relationships: []
       }
+      prescription_items: {
+        Row: {
+          created_at: string
+          dose: string
+          drug_name: string
+          duration: string
+          frequency: string
+          id: string
+          medication_id: string | null
+          order_id: string
+          quantity: number
+          quantity_dispensed: number
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          dose: string
+          drug_name: string
+          duration: string
+          frequency: string
+          id?: string
+          medication_id?: string | null
+          order_id: string
+          quantity: number
+          quantity_dispensed?: number
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          dose?: string
+          drug_name?: string
+          duration?: string
+          frequency?: string
+          id?: string
+          medication_id?: string | null
+          order_id?: string
+          quantity?: number
+          quantity_dispensed?: number
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "prescription_items_medication_id_fkey"
+            columns: ["medication_id"]
+            isOneToOne: false
+            referencedRelation: "medications"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "prescription_items_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "prescription_orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      prescription_orders: {
+        Row: {
+          assessment_id: string
+          case_id: string | null
+          created_at: string
+          id: string
+          notes: string | null
+          patient_id: string
+          prescribed_by: string
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          assessment_id: string
+          case_id?: string | null
+          created_at?: string
+          id?: string
+          notes?: string | null
+          patient_id: string
+          prescribed_by: string
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          assessment_id?: string
+          case_id?: string | null
+          created_at?: string
+          id?: string
+          notes?: string | null
+          patient_id?: string
+          prescribed_by?: string
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "prescription_orders_assessment_id_fkey"
+            columns: ["assessment_id"]
+            isOneToOne: true
+            referencedRelation: "imnci_assessments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "prescription_orders_patient_id_fkey"
+            columns: ["patient_id"]
+            isOneToOne: false
+            referencedRelation: "patients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "prescription_orders_case_id_fkey"
+            columns: ["case_id"]
+            isOneToOne: false
+            referencedRelation: "cases"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           created_at: string
@@ -598,11 +1213,13 @@ export type Database = {
       referrals: {
         Row: {
           accepted_by: string | null
+          assessment_id: string | null
           case_id: string
           created_at: string
           from_facility: string
           id: string
           notes: string | null
+          pre_referral_treatments: Json | null
           reason: string
           referral_number: string
           referred_by: string
@@ -613,11 +1230,13 @@ export type Database = {
         }
         Insert: {
           accepted_by?: string | null
+          assessment_id?: string | null
           case_id: string
           created_at?: string
           from_facility: string
           id?: string
           notes?: string | null
+          pre_referral_treatments?: Json | null
           reason: string
           referral_number: string
           referred_by: string
@@ -628,11 +1247,13 @@ export type Database = {
         }
         Update: {
           accepted_by?: string | null
+          assessment_id?: string | null
           case_id?: string
           created_at?: string
           from_facility?: string
           id?: string
           notes?: string | null
+          pre_referral_treatments?: Json | null
           reason?: string
           referral_number?: string
           referred_by?: string
@@ -642,6 +1263,13 @@ export type Database = {
           urgency?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "referrals_assessment_id_fkey"
+            columns: ["assessment_id"]
+            isOneToOne: false
+            referencedRelation: "imnci_assessments"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "referrals_case_id_fkey"
             columns: ["case_id"]
@@ -674,6 +1302,36 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      amend_assessment: {
+        Args: {
+          _assessment_id: string
+          _changes: Json
+          _reason: string
+          _values: Json
+        }
+        Returns: number
+      }
+      dispense_ors: {
+        Args: {
+          _case_id: string
+          _inventory_id: string
+          _patient_id: string
+          _quantity: number
+        }
+        Returns: number
+      }
+      find_patient_candidates: {
+        Args: {
+          _date_of_birth: string
+          _dob_tolerance_days: number
+          _first_name: string
+          _guardian_name: string
+          _guardian_phone: string
+          _last_name: string
+          _limit: number
+        }
+        Returns: Database["public"]["Tables"]["patients"]["Row"][]
+      }
       get_user_role: {
         Args: { _user_id: string }
         Returns: Database["public"]["Enums"]["app_role"]
@@ -685,6 +1343,32 @@ export type Database = {
         }
         Returns: boolean
       }
+      names_may_match: {
+        Args: { _a: string; _b: string }
+        Returns: boolean
+      }
+      normalize_name: {
+        Args: { _name: string }
+        Returns: string
+      }
+      record_follow_up_visit: {
+        Args: {
+          _assessment_id: string
+          _follow_ups: Json
+          _next_visits: Json
+          _visit_date: string
+        }
+        Returns: undefined
+      }
+      save_prescription_order: {
+        Args: {
+          _assessment_id: string
+          _case_id: string
+          _items: Json
+          _patient_id: string
+        }
+        Returns: string
+      }
     }
     Enums: {
       app_role: "admin" | "clinician" | "pharmacy" | "chc"
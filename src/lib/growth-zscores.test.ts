@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { calculateGrowthZScores } from './growth-zscores';
+
+// Days at the start of a month of age, as the WHO standards count them
+const months = (n: number) => Math.round(n * 30.4375);
+
+describe('calculateGrowthZScores', () => {
+  describe('weight-for-age', () => {
+    // WHO weight-for-age, boys 12 months: -3 SD 6.9 kg, -2 SD 7.7 kg, median 9.6 kg
+    it('matches the WHO boys table at 12 months', () => {
+      expect(calculateGrowthZScores({ sex: 'male', ageInDays: months(12), weightKg: 7.7 }).weightForAge).toBeCloseTo(-2.05, 1);
+      expect(calculateGrowthZScores({ sex: 'male', ageInDays: months(12), weightKg: 9.6 }).weightForAge).toBeCloseTo(0, 1);
+    });
+
+    // WHO weight-for-age, girls 24 months: median 11.5 kg
+    it('matches the WHO girls table at 24 months', () => {
+      expect(calculateGrowthZScores({ sex: 'female', ageInDays: months(24), weightKg: 11.5 }).weightForAge).toBeCloseTo(0, 1);
+    });
+
+    it('interpolates between monthly rows', () => {
+      const z = calculateGrowthZScores({ sex: 'male', ageInDays: months(12) + 15, weightKg: 9.6 }).weightForAge;
+      expect(z).toBeLessThan(0);
+      expect(z).toBeGreaterThan(-0.2);
+    });
+
+    // Beyond -3 SD the distance is measured in units of the -2 to -3 SD gap (6.93 to 7.74 kg)
+    it('restricts the tail below -3 SD', () => {
+      expect(calculateGrowthZScores({ sex: 'male', ageInDays: months(12), weightKg: 5.5 }).weightForAge).toBeCloseTo(-4.75, 1);
+    });
+
+    // Beyond +3 SD the distance is measured in units of the +2 to +3 SD gap (11.99 to 13.34 kg)
+    it('restricts the tail above +3 SD', () => {
+      expect(calculateGrowthZScores({ sex: 'male', ageInDays: months(12), weightKg: 15 }).weightForAge).toBeCloseTo(4.22, 1);
+    });
+
+    it('is not given beyond the age range of the standards', () => {
+      expect(calculateGrowthZScores({ sex: 'male', ageInDays: months(61), weightKg: 18 })).toEqual({});
+    });
+  });
+
+  describe('length/height-for-age', () => {
+    // WHO length-for-age, boys 24 months: median 87.8 cm lying, 87.1 cm standing
+    it('matches the WHO boys table at 24 months however the child was measured', () => {
+      expect(
+        calculateGrowthZScores({ sex: 'male', ageInDays: months(24), lengthHeightCm: 87.8, measuredLying: true }).heightForAge
+      ).toBeCloseTo(0, 1);
+      expect(
+        calculateGrowthZScores({ sex: 'male', ageInDays: months(24), lengthHeightCm: 87.1, measuredLying: false }).heightForAge
+      ).toBeCloseTo(0, 1);
+    });
+
+    it('adds 0.7 cm to a standing height under 2 years', () => {
+      const lying = calculateGrowthZScores({ sex: 'female', ageInDays: months(12), lengthHeightCm: 74.7 });
+      const standing = calculateGrowthZScores({
+        sex: 'female',
+        ageInDays: months(12),
+        lengthHeightCm: 74.0,
+        measuredLying: false,
+      });
+      expect(standing.heightForAge).toBe(lying.heightForAge);
+    });
+
+    // Length-for-age, boys 12 months: L 1, M 75.75 cm, S 0.03137
+    it('does not restrict the tail', () => {
+      expect(calculateGrowthZScores({ sex: 'male', ageInDays: months(12), lengthHeightCm: 60 }).heightForAge).toBeCloseTo(-6.63, 1);
+    });
+  });
+
+  describe('weight-for-length/height', () => {
+    it('uses the length table under 2 years and the height table from 2 years', () => {
+      const underTwo = calculateGrowthZScores({ sex: 'male', ageInDays: months(23), weightKg: 12, lengthHeightCm: 86 });
+      const overTwo = calculateGrowthZScores({ sex: 'male', ageInDays: months(25), weightKg: 12, lengthHeightCm: 85.3 });
+      expect(underTwo.weightForHeight).toBeCloseTo(overTwo.weightForHeight!, 1);
+    });
+
+    it('restricts the tail below -3 SD', () => {
+      const z = calculateGrowthZScores({ sex: 'male', ageInDays: months(30), weightKg: 9, lengthHeightCm: 95 }).weightForHeight!;
+      expect(z).toBeLessThan(-3);
+    });
+
+    it('needs both weight and length', () => {
+      expect(calculateGrowthZScores({ sex: 'female', ageInDays: months(18), lengthHeightCm: 80 }).weightForHeight).toBeUndefined();
+    });
+  });
+});
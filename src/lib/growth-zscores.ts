@@ -0,0 +1,104 @@
+// Anthropometric z-scores against the WHO 2006 Child Growth Standards, using the LMS method
+
+import {
+  LmsRow,
+  WEIGHT_FOR_AGE_BOYS,
+  WEIGHT_FOR_AGE_GIRLS,
+  LENGTH_HEIGHT_FOR_AGE_BOYS,
+  LENGTH_HEIGHT_FOR_AGE_GIRLS,
+  WEIGHT_FOR_LENGTH_BOYS,
+  WEIGHT_FOR_LENGTH_GIRLS,
+  WEIGHT_FOR_HEIGHT_BOYS,
+  WEIGHT_FOR_HEIGHT_GIRLS,
+} from './who-growth-standards';
+
+export type Sex = 'male' | 'female';
+
+export interface GrowthZScores {
+  weightForAge?: number;
+  weightForHeight?: number;
+  heightForAge?: number;
+}
+
+const DAYS_PER_MONTH = 30.4375;
+
+// Difference between recumbent length and standing height in the WHO standards
+const LENGTH_HEIGHT_ADJUSTMENT_CM = 0.7;
+
+// L, M and S at a point, interpolated between the nearest reference rows
+function interpolateLms(table: LmsRow[], x: number): [number, number, number] | null {
+  if (x < table[0][0] || x > table[table.length - 1][0]) return null;
+  const upper = table.findIndex((row) => row[0] >= x);
+  const hi = table[upper];
+  if (hi[0] === x || upper === 0) return [hi[1], hi[2], hi[3]];
+  const lo = table[upper - 1];
+  const f = (x - lo[0]) / (hi[0] - lo[0]);
+  return [lo[1] + f * (hi[1] - lo[1]), lo[2] + f * (hi[2] - lo[2]), lo[3] + f * (hi[3] - lo[3])];
+}
+
+// Measurement at a given z-score
+function lmsValue([l, m, s]: [number, number, number], z: number): number {
+  return l === 0 ? m * Math.exp(s * z) : m * Math.pow(1 + l * s * z, 1 / l);
+}
+
+// Beyond ±3 SD the weight-based indicators are restricted: the tail is measured in units of the 2-3 SD distance
+function lmsZScore(value: number, lms: [number, number, number], restricted: boolean): number {
+  const [l, m, s] = lms;
+  const z = l === 0 ? Math.log(value / m) / s : (Math.pow(value / m, l) - 1) / (l * s);
+  if (!restricted || Math.abs(z) <= 3) return z;
+
+  if (z > 3) {
+    const sd3 = lmsValue(lms, 3);
+    return 3 + (value - sd3) / (sd3 - lmsValue(lms, 2));
+  }
+  const sd3 = lmsValue(lms, -3);
+  return -3 - (sd3 - value) / (lmsValue(lms, -2) - sd3);
+}
+
+function zScoreFor(table: LmsRow[], x: number, value: number, restricted: boolean): number | undefined {
+  const lms = interpolateLms(table, x);
+  if (!lms) return undefined;
+  return Math.round(lmsZScore(value, lms, restricted) * 100) / 100 || 0;
+}
+
+// Weight-for-age, weight-for-length/height and length/height-for-age from raw measurements
+export function calculateGrowthZScores(data: {
+  sex: Sex;
+  ageInDays: number;
+  weightKg?: number;
+  lengthHeightCm?: number;
+  measuredLying?: boolean;
+}): GrowthZScores {
+  const boys = data.sex === 'male';
+  const ageInMonths = data.ageInDays / DAYS_PER_MONTH;
+  const underTwo = ageInMonths < 24;
+  const scores: GrowthZScores = {};
+
+  if (data.weightKg) {
+    scores.weightForAge = zScoreFor(boys ? WEIGHT_FOR_AGE_BOYS : WEIGHT_FOR_AGE_GIRLS, ageInMonths, data.weightKg, true);
+  }
+
+  if (data.lengthHeightCm) {
+    // Under 2 years the standards use length, from 2 years standing height
+    const measuredLying = data.measuredLying ?? underTwo;
+    let lengthHeight = data.lengthHeightCm;
+    if (underTwo && !measuredLying) lengthHeight += LENGTH_HEIGHT_ADJUSTMENT_CM;
+    if (!underTwo && measuredLying) lengthHeight -= LENGTH_HEIGHT_ADJUSTMENT_CM;
+
+    scores.heightForAge = zScoreFor(
+      boys ? LENGTH_HEIGHT_FOR_AGE_BOYS : LENGTH_HEIGHT_FOR_AGE_GIRLS,
+      ageInMonths,
+      lengthHeight,
+      false
+    );
+
+    if (data.weightKg) {
+      const table = underTwo
+        ? boys ? WEIGHT_FOR_LENGTH_BOYS : WEIGHT_FOR_LENGTH_GIRLS
+        : boys ? WEIGHT_FOR_HEIGHT_BOYS : WEIGHT_FOR_HEIGHT_GIRLS;
+      scores.weightForHeight = zScoreFor(table, lengthHeight, data.weightKg, true);
+    }
+  }
+
+  return scores;
+}
@@ -0,0 +1,94 @@
+// Amendments to completed assessments: which values changed and whether the outcome changed
+
+import type { ClassificationColor } from './imnci-classification';
+
+export interface AssessmentChange {
+  field: string;
+  label: string;
+  from: unknown;
+  to: unknown;
+}
+
+export interface OutcomeChange {
+  previousColor: ClassificationColor | null;
+  newColor: ClassificationColor | null;
+  previousRequiresReferral: boolean;
+  newRequiresReferral: boolean;
+}
+
+// Derived or structured columns, kept in the revision snapshot but not listed as changes
+const IGNORED_FIELDS = [
+  'classification_results',
+  'counselling_points',
+  'dosing_regimens',
+  'pre_referral_treatments',
+  'treatment_recommendations',
+  'follow_up_instructions',
+];
+
+const FIELD_LABELS: Record<string, string> = {
+  muac_measurement: 'MUAC (cm)',
+  malaria_rdt_result: 'Malaria RDT result',
+  malaria_rdt_required: 'Malaria RDT required',
+  weight_kg: 'Weight (kg)',
+  length_height_cm: 'Length/height (cm)',
+  temperature: 'Temperature (°C)',
+  breaths_per_minute: 'Breaths per minute',
+  breaths_per_minute_after_bronchodilator: 'Breaths per minute after bronchodilator',
+  child_hiv_result: 'Child HIV result',
+  child_hiv_test_type: 'Child HIV test type',
+  mother_hiv_positive: 'Mother HIV positive',
+  overall_classification_color: 'Overall color',
+};
+
+// "skin_pinch_slow" -> "Skin pinch slow", unless the field has its own label
+export function getFieldLabel(field: string): string {
+  if (FIELD_LABELS[field]) return FIELD_LABELS[field];
+  const words = field.replace(/_/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+export function formatChangeValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return String(value);
+}
+
+const isSameValue = (a: unknown, b: unknown) =>
+  JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+// Every column in the amended values that differs from the stored assessment
+export function getAssessmentChanges(
+  original: Record<string, unknown>,
+  amended: Record<string, unknown>
+): AssessmentChange[] {
+  return Object.keys(amended)
+    .filter((field) => !IGNORED_FIELDS.includes(field))
+    .filter((field) => !isSameValue(original[field], amended[field]))
+    .map((field) => ({
+      field,
+      label: getFieldLabel(field),
+      from: original[field] ?? null,
+      to: amended[field] ?? null,
+    }));
+}
+
+// The overall color and referral before and after, or null when neither changed
+export function getOutcomeChange(
+  original: { overall_classification_color?: string | null; requires_referral?: boolean | null },
+  amended: { overall_classification_color?: string | null; requires_referral?: boolean | null }
+): OutcomeChange | null {
+  const change: OutcomeChange = {
+    previousColor: (original.overall_classification_color as ClassificationColor) || null,
+    newColor: (amended.overall_classification_color as ClassificationColor) || null,
+    previousRequiresReferral: !!original.requires_referral,
+    newRequiresReferral: !!amended.requires_referral,
+  };
+  if (
+    change.previousColor === change.newColor &&
+    change.previousRequiresReferral === change.newRequiresReferral
+  ) {
+    return null;
+  }
+  return change;
+}
@@ -0,0 +1,275 @@
+import { describe, it, expect } from 'vitest';
+import {
+  assessCoughBreathing,
+  assessDiarrhea,
+  assessFever,
+  assessYoungInfantInfection,
+  calculateOverallAssessment,
+} from './imnci-classification';
+
+const names = (results: { classification: string }[]) => results.map((r) => r.classification);
+
+describe('assessYoungInfantInfection', () => {
+  const well = {
+    notFeedingWell: false,
+    hasConvulsions: false,
+    breathsPerMinute: 45,
+    severeChestIndrawing: false,
+    temperature: 36.8,
+    movementOnlyWhenStimulated: false,
+    umbilicusRedOrPus: false,
+    skinPustules: false,
+  };
+
+  it('classifies fast breathing as possible serious bacterial infection', () => {
+    const [result] = assessYoungInfantInfection({ ...well, breathsPerMinute: 64 });
+    expect(result.classification).toBe('Possible Serious Bacterial Infection or Very Severe Disease');
+    expect(result.color).toBe('red');
+    expect(result.urgency).toBe('emergency');
+    expect(result.evidence).toContainEqual({ finding: 'Fast breathing', threshold: 'breaths 64/min ≥ 60' });
+  });
+
+  it('classifies low body temperature as possible serious bacterial infection', () => {
+    const [result] = assessYoungInfantInfection({ ...well, temperature: 35.2 });
+    expect(result.color).toBe('red');
+  });
+
+  it('takes precedence over a local infection', () => {
+    expect(names(assessYoungInfantInfection({ ...well, notFeedingWell: true, skinPustules: true }))).toEqual([
+      'Possible Serious Bacterial Infection or Very Severe Disease',
+    ]);
+  });
+
+  it('classifies skin pustules alone as a local bacterial infection', () => {
+    expect(names(assessYoungInfantInfection({ ...well, skinPustules: true }))).toEqual(['Local Bacterial Infection']);
+  });
+
+  it('classifies a well infant as unlikely', () => {
+    expect(names(assessYoungInfantInfection(well))).toEqual(['Severe Disease or Local Infection Unlikely']);
+  });
+});
+
+describe('assessCoughBreathing', () => {
+  const cough = {
+    hasCoughDifficultyBreathing: true,
+    coughDurationDays: 3,
+    ageInMonths: 18,
+    chestIndrawing: false,
+    stridor: false,
+    wheezing: false,
+    hasDangerSigns: false,
+  };
+
+  it('classifies fast breathing as pneumonia', () => {
+    expect(names(assessCoughBreathing({ ...cough, breathsPerMinute: 44 }))).toEqual(['Pneumonia']);
+  });
+
+  it('uses the age threshold for fast breathing', () => {
+    expect(names(assessCoughBreathing({ ...cough, ageInMonths: 8, breathsPerMinute: 44 }))).toEqual([
+      'No Pneumonia: Cough or Cold',
+    ]);
+  });
+
+  it('classifies a wheezing child with fast breathing and no recount as pneumonia', () => {
+    const [result] = assessCoughBreathing({ ...cough, wheezing: true, breathsPerMinute: 44 });
+    expect(result.classification).toBe('Pneumonia');
+    expect(result.evidence).toContainEqual({ finding: 'Wheezing' });
+  });
+
+  it('classifies a wheezing child on the recount after a bronchodilator', () => {
+    const [result] = assessCoughBreathing({
+      ...cough,
+      wheezing: true,
+      breathsPerMinute: 44,
+      breathsPerMinuteAfterBronchodilator: 34,
+    });
+    expect(result.classification).toBe('No Pneumonia: Cough or Cold');
+    expect(result.evidence?.[0].threshold).toContain('after bronchodilator');
+  });
+
+  it('ignores a recount when the child is not wheezing', () => {
+    expect(
+      names(assessCoughBreathing({ ...cough, breathsPerMinute: 44, breathsPerMinuteAfterBronchodilator: 34 }))
+    ).toEqual(['Pneumonia']);
+  });
+
+  it('classifies chest indrawing as severe pneumonia', () => {
+    const [result] = assessCoughBreathing({ ...cough, breathsPerMinute: 30, chestIndrawing: true });
+    expect(result.classification).toBe('Severe Pneumonia or Very Severe Disease');
+    expect(result.requiresReferral).toBe(true);
+  });
+});
+
+describe('assessDiarrhea', () => {
+  const diarrhea = {
+    hasDiarrhea: true,
+    diarrheaDurationDays: 3,
+    bloodInStool: false,
+    sunkenEyes: false,
+    skinPinchSlow: false,
+    skinPinchVerySlow: false,
+    restlessIrritable: false,
+    drinksEagerly: false,
+    notAbleToDrink: false,
+    lethargicUnconscious: false,
+  };
+
+  it('classifies no dehydration when there are no signs', () => {
+    expect(names(assessDiarrhea(diarrhea))).toEqual(['No Dehydration']);
+  });
+
+  it('classifies sunken eyes with a very slow skin pinch as severe dehydration', () => {
+    const [result] = assessDiarrhea({ ...diarrhea, sunkenEyes: true, skinPinchVerySlow: true });
+    expect(result.classification).toBe('Severe Dehydration');
+    expect(result.color).toBe('red');
+  });
+
+  it('gives dehydration, persistent diarrhea and dysentery together', () => {
+    const results = assessDiarrhea({
+      ...diarrhea,
+      diarrheaDurationDays: 15,
+      bloodInStool: true,
+      restlessIrritable: true,
+    });
+    expect(names(results)).toEqual(['Some Dehydration', 'Severe Persistent Diarrhea', 'Dysentery']);
+    expect(results.map((r) => r.color)).toEqual(['yellow', 'pink', 'yellow']);
+  });
+
+  it('classifies persistent diarrhea without dehydration', () => {
+    expect(names(assessDiarrhea({ ...diarrhea, diarrheaDurationDays: 14 }))).toEqual([
+      'No Dehydration',
+      'Persistent Diarrhea',
+    ]);
+  });
+});
+
+describe('assessFever', () => {
+  const fever = {
+    hasFever: true,
+    feverDurationDays: 2,
+    temperature: 38.4,
+    stiffNeck: false,
+    measlesLast3Months: false,
+    generalizedRash: false,
+    runnyNose: false,
+    mouthUlcers: false,
+    pusDrainingEye: false,
+    cloudingCornea: false,
+    hasDangerSigns: false,
+  };
+
+  it('classifies a positive RDT in a high risk area as malaria', () => {
+    expect(names(assessFever({ ...fever, malariaRisk: 'high', malariaRdtResult: 'positive' }))).toEqual(['Malaria']);
+  });
+
+  it('flags a missing RDT in a high risk area', () => {
+    expect(names(assessFever({ ...fever, malariaRisk: 'high' }))).toEqual(['Malaria - No RDT Result']);
+  });
+
+  it('does not classify malaria where there is no malaria risk', () => {
+    expect(names(assessFever({ ...fever, malariaRisk: 'none' }))).toEqual(['Fever - No Malaria']);
+  });
+
+  it('classifies a positive RDT as malaria where there is no malaria risk', () => {
+    const [result] = assessFever({ ...fever, malariaRisk: 'none', malariaRdtResult: 'positive' });
+    expect(result.classification).toBe('Malaria');
+    expect(result.evidence).toContainEqual({ finding: 'Malaria RDT positive' });
+  });
+
+  it('keeps the antimalarial treatment for severe fever with a positive RDT where there is no malaria risk', () => {
+    const [high] = assessFever({ ...fever, malariaRisk: 'high', stiffNeck: true });
+    const [none] = assessFever({ ...fever, malariaRisk: 'none', malariaRdtResult: 'positive', stiffNeck: true });
+    expect(none.treatment).toBe(high.treatment);
+    expect(none.evidence).toContainEqual({ finding: 'Malaria RDT positive' });
+  });
+
+  it('treats travel to a malaria area as high risk', () => {
+    expect(names(assessFever({ ...fever, malariaRisk: 'none', travelledToMalariaArea: true }))).toEqual([
+      'Malaria - No RDT Result',
+    ]);
+  });
+
+  it('uses the severe treatment without antimalarials where there is no malaria risk', () => {
+    const [high] = assessFever({ ...fever, malariaRisk: 'high', stiffNeck: true });
+    const [none] = assessFever({ ...fever, malariaRisk: 'none', stiffNeck: true });
+    expect(high.classification).toBe('Very Severe Febrile Disease');
+    expect(none.classification).toBe('Very Severe Febrile Disease');
+    expect(none.treatment).not.toBe(high.treatment);
+  });
+
+  it('refers fever lasting the prolonged fever threshold', () => {
+    const [result] = assessFever({ ...fever, malariaRisk: 'none', feverDurationDays: 7 });
+    expect(result.requiresReferral).toBe(true);
+  });
+
+  describe('measles', () => {
+    const measles = { ...fever, malariaRisk: 'none' as const, generalizedRash: true, runnyNose: true };
+
+    it('classifies measles without complications green', () => {
+      const results = assessFever(measles);
+      expect(names(results)).toEqual(['Fever - No Malaria', 'Measles']);
+      expect(results[1].color).toBe('green');
+    });
+
+    it('classifies measles in the last 3 months without complications green', () => {
+      const results = assessFever({ ...fever, malariaRisk: 'none', measlesLast3Months: true });
+      expect(results[1]).toMatchObject({ classification: 'Measles', color: 'green' });
+    });
+
+    it('classifies pus draining from the eye as an eye or mouth complication', () => {
+      const results = assessFever({ ...measles, pusDrainingEye: true });
+      expect(results[1]).toMatchObject({ classification: 'Measles with Eye or Mouth Complications', color: 'yellow' });
+    });
+
+    it('classifies ordinary mouth ulcers as an eye or mouth complication', () => {
+      const results = assessFever({ ...measles, mouthUlcers: true });
+      expect(results[1]).toMatchObject({ classification: 'Measles with Eye or Mouth Complications', color: 'yellow' });
+    });
+
+    it('classifies deep or extensive mouth ulcers as severe complicated measles', () => {
+      const results = assessFever({ ...measles, mouthUlcers: true, deepMouthUlcers: true });
+      expect(results[1]).toMatchObject({ classification: 'Severe Complicated Measles', color: 'red', urgency: 'emergency' });
+    });
+
+    it('classifies clouding of the cornea as severe complicated measles', () => {
+      const results = assessFever({ ...measles, cloudingCornea: true, pusDrainingEye: true });
+      expect(names(results)).toContain('Severe Complicated Measles');
+      expect(names(results)).not.toContain('Measles with Eye or Mouth Complications');
+    });
+
+    it('does not classify measles from a rash without a runny nose', () => {
+      expect(names(assessFever({ ...fever, malariaRisk: 'none', generalizedRash: true }))).toEqual([
+        'Fever - No Malaria',
+      ]);
+    });
+  });
+});
+
+describe('calculateOverallAssessment', () => {
+  it('takes the most severe classification', () => {
+    const overall = calculateOverallAssessment([
+      ...assessCoughBreathing({
+        hasCoughDifficultyBreathing: true,
+        ageInMonths: 18,
+        breathsPerMinute: 44,
+        chestIndrawing: false,
+        stridor: false,
+        wheezing: false,
+        hasDangerSigns: false,
+      }),
+      ...assessDiarrhea({
+        hasDiarrhea: true,
+        bloodInStool: false,
+        sunkenEyes: true,
+        skinPinchSlow: false,
+        skinPinchVerySlow: true,
+        restlessIrritable: false,
+        drinksEagerly: false,
+        notAbleToDrink: false,
+        lethargicUnconscious: false,
+      }),
+    ]);
+    expect(overall.overallColor).toBe('red');
+    expect(overall.requiresReferral).toBe(true);
+  });
+});
@@ -1,13 +1,35 @@
 // IMNCI Classification Logic and Referral Prediction
 
+import { BASE_PROTOCOL, type IMNCIProtocol } from './imnci-protocol';
+import { DEFAULT_MALARIA_RISK, MALARIA_RISK_LABELS, getEffectiveMalariaRisk, type MalariaRisk } from './malaria-risk';
+
 export type ClassificationColor = 'green' | 'yellow' | 'pink' | 'red';
 
+// A finding that triggered a classification, with the cut-off applied if it was measured
+export interface ClassificationEvidence {
+  finding: string;
+  threshold?: string;
+}
+
 export interface ClassificationResult {
   classification: string;
   color: ClassificationColor;
   requiresReferral: boolean;
   urgency?: 'routine' | 'urgent' | 'emergency';
   treatment?: string;
+  evidence?: ClassificationEvidence[];
+}
+
+// Evidence for the signs that are present
+function presentSigns(signs: Record<string, boolean | undefined>): ClassificationEvidence[] {
+  return Object.entries(signs)
+    .filter(([, present]) => present)
+    .map(([finding]) => ({ finding }));
+}
+
+// Evidence for a measurement that crossed a cut-off
+function measuredFinding(applies: boolean, finding: string, threshold: string): ClassificationEvidence[] {
+  return applies ? [{ finding, threshold }] : [];
 }
 
 // Check for general danger signs
@@ -17,7 +39,7 @@ export function assessDangerSigns(data: {
   hasConvulsions: boolean;
   lethargicUnconscious: boolean;
   convulsingNow: boolean;
-}): ClassificationResult {
+}, protocol: IMNCIProtocol = BASE_PROTOCOL): ClassificationResult[] {
   const hasDangerSign = 
     data.notAbleToDrink ||
     data.vomitsEverything ||
@@ -26,20 +48,37 @@ export function assessDangerSigns(data: {
     data.convulsingNow;
 
   if (hasDangerSign) {
-    return {
+    return [{
       classification: 'General Danger Signs Present',
       color: 'red',
       requiresReferral: true,
       urgency: 'emergency',
-      treatment: 'Give first dose of appropriate antibiotic. Refer URGENTLY to hospital.',
-    };
+      treatment: protocol.treatments['General Danger Signs Present'],
+      evidence: presentSigns({
+        'Not able to drink or breastfeed': data.notAbleToDrink,
+        'Vomits everything': data.vomitsEverything,
+        'Has had convulsions': data.hasConvulsions,
+        'Lethargic or unconscious': data.lethargicUnconscious,
+        'Convulsing now': data.convulsingNow,
+      }),
+    }];
   }
 
-  return {
+  return [{
     classification: 'No General Danger Signs',
     color: 'green',
     requiresReferral: false,
-  };
+  }];
+}
+
+// Determine fast breathing threshold based on age
+export function getFastBreathingThreshold(ageInMonths: number, protocol: IMNCIProtocol = BASE_PROTOCOL): number {
+  const t = protocol.thresholds;
+  return ageInMonths < 2
+    ? t.fastBreathingUnder2Months
+    : ageInMonths < 12
+      ? t.fastBreathingUnder12Months
+      : t.fastBreathingUnder5Years;
 }
 
 // Assess cough and breathing problems
@@ -50,48 +89,67 @@ export function assessCoughBreathing(data: {
   ageInMonths: number;
   chestIndrawing: boolean;
   stridor: boolean;
+  wheezing: boolean;
+  breathsPerMinuteAfterBronchodilator?: number;
   hasDangerSigns: boolean;
-}): ClassificationResult {
+}, protocol: IMNCIProtocol = BASE_PROTOCOL): ClassificationResult[] {
   if (!data.hasCoughDifficultyBreathing) {
-    return {
+    return [{
       classification: 'No Cough or Breathing Problem',
       color: 'green',
       requiresReferral: false,
-    };
+    }];
   }
 
-  // Determine fast breathing threshold based on age
-  const fastBreathingThreshold = data.ageInMonths < 2 ? 60 : data.ageInMonths < 12 ? 50 : 40;
-  const hasFastBreathing = (data.breathsPerMinute || 0) >= fastBreathingThreshold;
+  // A wheezing child is classified on the breathing count after a rapid-acting bronchodilator trial
+  const afterBronchodilator = data.wheezing && !!data.breathsPerMinuteAfterBronchodilator;
+  const breathsPerMinute = afterBronchodilator
+    ? data.breathsPerMinuteAfterBronchodilator
+    : data.breathsPerMinute;
+  const fastBreathingThreshold = getFastBreathingThreshold(data.ageInMonths, protocol);
+  const hasFastBreathing = (breathsPerMinute || 0) >= fastBreathingThreshold;
+  const breathingEvidence: ClassificationEvidence[] = breathsPerMinute
+    ? [{
+        finding: hasFastBreathing ? 'Fast breathing' : 'No fast breathing',
+        threshold: `breaths ${breathsPerMinute}/min${afterBronchodilator ? ' after bronchodilator' : ''} ${hasFastBreathing ? '≥' : '<'} ${fastBreathingThreshold} for age ${data.ageInMonths} months`,
+      }]
+    : [];
 
   // Severe Pneumonia or Very Severe Disease
   if (data.hasDangerSigns || data.stridor || data.chestIndrawing) {
-    return {
+    return [{
       classification: 'Severe Pneumonia or Very Severe Disease',
       color: 'red',
       requiresReferral: true,
       urgency: 'emergency',
-      treatment: 'Give first dose of antibiotic. Give first dose of paracetamol for high fever. Refer URGENTLY to hospital.',
-    };
+      treatment: protocol.treatments['Severe Pneumonia or Very Severe Disease'],
+      evidence: presentSigns({
+        'General danger sign': data.hasDangerSigns,
+        'Stridor in calm child': data.stridor,
+        'Chest indrawing': data.chestIndrawing,
+      }),
+    }];
   }
 
   // Pneumonia
   if (hasFastBreathing) {
-    return {
+    return [{
       classification: 'Pneumonia',
       color: 'yellow',
       requiresReferral: false,
-      treatment: 'Give oral antibiotic for 5 days. Soothe the throat with safe remedy. If wheezing, give bronchodilator for 5 days. Follow up in 2 days.',
-    };
+      treatment: protocol.treatments['Pneumonia'],
+      evidence: [...breathingEvidence, ...presentSigns({ Wheezing: data.wheezing })],
+    }];
   }
 
   // No Pneumonia: Cough or Cold
-  return {
+  return [{
     classification: 'No Pneumonia: Cough or Cold',
     color: 'green',
     requiresReferral: false,
-    treatment: 'If coughing more than 14 days, refer for assessment. Soothe the throat with safe remedy. Follow up in 5 days if not improving.',
-  };
+    treatment: protocol.treatments[data.wheezing ? 'No Pneumonia: Cough or Cold (wheezing)' : 'No Pneumonia: Cough or Cold'],
+    evidence: [...breathingEvidence, ...presentSigns({ Wheezing: data.wheezing })],
+  }];
 }
 
 // Assess diarrhea
@@ -106,144 +164,296 @@ export function assessDiarrhea(data: {
   drinksEagerly: boolean;
   notAbleToDrink: boolean;
   lethargicUnconscious: boolean;
-}): ClassificationResult {
+}, protocol: IMNCIProtocol = BASE_PROTOCOL): ClassificationResult[] {
   if (!data.hasDiarrhea) {
-    return {
+    return [{
       classification: 'No Diarrhea',
       color: 'green',
       requiresReferral: false,
-    };
+    }];
   }
 
-  // Severe Dehydration
+  const results: ClassificationResult[] = [];
+
+  // Dehydration
   if (
     (data.lethargicUnconscious || data.notAbleToDrink) ||
     (data.sunkenEyes && data.skinPinchVerySlow)
   ) {
-    return {
+    results.push({
       classification: 'Severe Dehydration',
       color: 'red',
       requiresReferral: true,
       urgency: 'emergency',
-      treatment: 'If child has no other severe classification: Give fluid for severe dehydration (Plan C). If child also has another severe classification: Refer URGENTLY with mother giving frequent sips of ORS. Advise to continue breastfeeding.',
-    };
-  }
-
-  // Some Dehydration
-  if (
+      treatment: protocol.treatments['Severe Dehydration'],
+      evidence: presentSigns({
+        'Lethargic or unconscious': data.lethargicUnconscious,
+        'Not able to drink or drinking poorly': data.notAbleToDrink,
+        'Sunken eyes with skin pinch going back very slowly': data.sunkenEyes && data.skinPinchVerySlow,
+      }),
+    });
+  } else if (
     data.restlessIrritable ||
     data.sunkenEyes ||
     data.drinksEagerly ||
     data.skinPinchSlow
   ) {
-    return {
+    results.push({
       classification: 'Some Dehydration',
       color: 'yellow',
       requiresReferral: false,
-      treatment: 'Give fluid and food for some dehydration (Plan B). If child also has a severe classification, refer URGENTLY with mother giving frequent sips of ORS on the way. Advise to continue breastfeeding.',
+      treatment: protocol.treatments['Some Dehydration'],
+      evidence: presentSigns({
+        'Restless or irritable': data.restlessIrritable,
+        'Sunken eyes': data.sunkenEyes,
+        'Drinks eagerly, thirsty': data.drinksEagerly,
+        'Skin pinch goes back slowly': data.skinPinchSlow,
+      }),
+    });
+  } else {
+    results.push({
+      classification: 'No Dehydration',
+      color: 'green',
+      requiresReferral: false,
+      treatment: protocol.treatments['No Dehydration'],
+      evidence: [{ finding: 'Not enough signs to classify as some or severe dehydration' }],
+    });
+  }
+  const isDehydrated = results[0].color !== 'green';
+  const persistentDays = protocol.thresholds.persistentDiarrheaDays;
+
+  // Persistent Diarrhea
+  if ((data.diarrheaDurationDays || 0) >= persistentDays) {
+    const persistenceEvidence: ClassificationEvidence = {
+      finding: `Diarrhea for ${persistentDays} days or more`,
+      threshold: `duration ${data.diarrheaDurationDays} days ≥ ${persistentDays} days`,
     };
+    if (isDehydrated) {
+      results.push({
+        classification: 'Severe Persistent Diarrhea',
+        color: 'pink',
+        requiresReferral: true,
+        urgency: 'urgent',
+        treatment: protocol.treatments['Severe Persistent Diarrhea'],
+        evidence: [persistenceEvidence, { finding: results[0].classification }],
+      });
+    } else {
+      results.push({
+        classification: 'Persistent Diarrhea',
+        color: 'yellow',
+        requiresReferral: true,
+        urgency: 'routine',
+        treatment: protocol.treatments['Persistent Diarrhea'],
+        evidence: [persistenceEvidence],
+      });
+    }
   }
 
   // Dysentery
   if (data.bloodInStool) {
-    return {
+    results.push({
       classification: 'Dysentery',
       color: 'yellow',
       requiresReferral: false,
-      treatment: 'Give ciprofloxacin for 3 days. Follow up in 2 days.',
-    };
+      treatment: protocol.treatments['Dysentery'],
+      evidence: [{ finding: 'Blood in stool' }],
+    });
   }
 
-  // Persistent Diarrhea
-  if ((data.diarrheaDurationDays || 0) >= 14) {
-    return {
-      classification: 'Persistent Diarrhea',
-      color: 'yellow',
-      requiresReferral: true,
-      urgency: 'routine',
-      treatment: 'Refer for assessment and treatment.',
-    };
-  }
+  return results;
+}
 
-  // No Dehydration
-  return {
-    classification: 'No Dehydration',
-    color: 'green',
-    requiresReferral: false,
-    treatment: 'Give fluid and food to treat diarrhea at home (Plan A). Give zinc supplements for 10-14 days. Advise mother when to return immediately. Follow up in 5 days if not improving.',
-  };
+// Whether a malaria test is needed: every fever case in a high risk area, and in a low risk area
+// only when there is no obvious other cause. Children with danger signs or stiff neck are referred.
+export function isMalariaTestRequired(data: {
+  malariaRisk?: MalariaRisk;
+  travelledToMalariaArea?: boolean;
+  otherFeverCause?: boolean;
+  measlesLast3Months: boolean;
+  generalizedRash: boolean;
+  runnyNose: boolean;
+  stiffNeck: boolean;
+  hasDangerSigns: boolean;
+}): boolean {
+  if (data.hasDangerSigns || data.stiffNeck) return false;
+  const risk = getEffectiveMalariaRisk(data.malariaRisk ?? DEFAULT_MALARIA_RISK, !!data.travelledToMalariaArea);
+  if (risk === 'high') return true;
+  if (risk === 'low') {
+    return !(data.runnyNose || data.measlesLast3Months || data.generalizedRash || data.otherFeverCause);
+  }
+  return false;
 }
 
-// Assess fever
+// Assess fever, using the classifications for the malaria risk of the area
 export function assessFever(data: {
   hasFever: boolean;
   feverDurationDays?: number;
   temperature?: number;
   stiffNeck: boolean;
   malariaRdtResult?: string;
+  malariaRisk?: MalariaRisk;
+  travelledToMalariaArea?: boolean;
+  otherFeverCause?: boolean;
+  measlesLast3Months: boolean;
   generalizedRash: boolean;
   runnyNose: boolean;
   mouthUlcers: boolean;
+  deepMouthUlcers?: boolean;
   pusDrainingEye: boolean;
   cloudingCornea: boolean;
   hasDangerSigns: boolean;
-}): ClassificationResult {
-  if (!data.hasFever) {
-    return {
+}, protocol: IMNCIProtocol = BASE_PROTOCOL): ClassificationResult[] {
+  const t = protocol.thresholds;
+  // A measured temperature at or above threshold counts as fever even if not reported
+  const hasFever = data.hasFever || (!!data.temperature && data.temperature >= t.feverTemperature);
+
+  if (!hasFever) {
+    return [{
       classification: 'No Fever',
       color: 'green',
       requiresReferral: false,
-    };
+    }];
   }
 
-  // Very Severe Febrile Disease / Severe Malaria
+  const results: ClassificationResult[] = [];
+  const areaRisk = data.malariaRisk ?? DEFAULT_MALARIA_RISK;
+  const risk = getEffectiveMalariaRisk(areaRisk, !!data.travelledToMalariaArea);
+  const testRequired = isMalariaTestRequired(data);
+  const feverEvidence = [
+    ...presentSigns({ 'Fever by history or feels hot': data.hasFever }),
+    ...measuredFinding(
+      !!data.temperature && data.temperature >= t.feverTemperature,
+      'Raised temperature',
+      `temperature ${data.temperature}°C ≥ ${t.feverTemperature}°C`
+    ),
+  ];
+  const riskEvidence = [
+    { finding: MALARIA_RISK_LABELS[areaRisk] },
+    ...presentSigns({ 'Travelled to a malaria risk area in the last 2 weeks': data.travelledToMalariaArea }),
+  ];
+  const measlesEvidence = presentSigns({
+    'Generalized rash with runny nose': data.generalizedRash && data.runnyNose,
+    'Measles within the last 3 months': data.measlesLast3Months,
+  });
+  const prolongedFeverEvidence = measuredFinding(
+    (data.feverDurationDays || 0) >= t.prolongedFeverDays,
+    `Fever for ${t.prolongedFeverDays} days or more`,
+    `fever ${data.feverDurationDays} days ≥ ${t.prolongedFeverDays} days`
+  );
+  const hasRdtResult = data.malariaRdtResult === 'positive' || data.malariaRdtResult === 'negative';
+  // A positive test is malaria whatever the risk recorded for the area
+  const rdtPositive = data.malariaRdtResult === 'positive';
+
   if (data.hasDangerSigns || data.stiffNeck) {
-    return {
+    // Very Severe Febrile Disease / Severe Malaria
+    const treatmentKey = risk === 'none' && !rdtPositive
+      ? 'Very Severe Febrile Disease (no malaria risk)'
+      : 'Very Severe Febrile Disease';
+    results.push({
       classification: 'Very Severe Febrile Disease',
       color: 'red',
       requiresReferral: true,
       urgency: 'emergency',
-      treatment: 'Give first dose of artesunate or quinine for severe malaria. Give first dose of antibiotic for severe bacterial infection. Treat to prevent low blood sugar. Give first dose of paracetamol. Refer URGENTLY.',
-    };
+      treatment: protocol.treatments[treatmentKey],
+      evidence: [
+        ...feverEvidence,
+        ...presentSigns({
+          'General danger sign': data.hasDangerSigns,
+          'Stiff neck': data.stiffNeck,
+          'Malaria RDT positive': rdtPositive,
+        }),
+        ...riskEvidence,
+      ],
+    });
+  } else if (rdtPositive) {
+    // Malaria
+    results.push({
+      classification: 'Malaria',
+      color: 'yellow',
+      requiresReferral: false,
+      treatment: protocol.treatments['Malaria'],
+      evidence: [...feverEvidence, { finding: 'Malaria RDT positive' }, ...riskEvidence],
+    });
+  } else if (risk === 'high' && !hasRdtResult) {
+    // High risk area but the test was not done: the case is flagged and managed as malaria
+    results.push({
+      classification: 'Malaria - No RDT Result',
+      color: 'yellow',
+      requiresReferral: false,
+      treatment: protocol.treatments['Malaria - No RDT Result'],
+      evidence: [
+        ...feverEvidence,
+        { finding: 'No malaria RDT result', threshold: 'RDT required for every fever case in a high malaria risk area' },
+        ...riskEvidence,
+        ...prolongedFeverEvidence,
+      ],
+    });
+  } else {
+    // Fever - No Malaria, or Cause Unknown when a required test is missing
+    const feverClassification = testRequired && !hasRdtResult ? 'Fever - Cause Unknown' : 'Fever - No Malaria';
+    results.push({
+      classification: feverClassification,
+      color: 'green',
+      requiresReferral: (data.feverDurationDays || 0) >= t.prolongedFeverDays,
+      urgency: 'routine',
+      treatment: protocol.treatments[feverClassification],
+      evidence: [
+        ...feverEvidence,
+        ...presentSigns({
+          'Malaria RDT negative': data.malariaRdtResult === 'negative',
+          'No malaria RDT result': testRequired && !hasRdtResult,
+          'Runny nose': risk === 'low' && data.runnyNose,
+          'Other obvious cause of fever': risk === 'low' && data.otherFeverCause,
+        }),
+        ...riskEvidence,
+        ...prolongedFeverEvidence,
+      ],
+    });
   }
 
-  // Check for measles complications
-  if (data.generalizedRash && data.runnyNose) {
-    if (data.cloudingCornea || data.mouthUlcers || data.pusDrainingEye) {
-      return {
+  // Check for measles complications if measles now or within the last 3 months
+  if ((data.generalizedRash && data.runnyNose) || data.measlesLast3Months) {
+    if (data.cloudingCornea || data.deepMouthUlcers) {
+      results.push({
         classification: 'Severe Complicated Measles',
         color: 'red',
         requiresReferral: true,
         urgency: 'emergency',
-        treatment: 'Give vitamin A. Give first dose of antibiotic. If clouding of cornea, apply tetracycline eye ointment. Refer URGENTLY.',
-      };
+        treatment: protocol.treatments['Severe Complicated Measles'],
+        evidence: [
+          ...measlesEvidence,
+          ...presentSigns({
+            'Clouding of cornea': data.cloudingCornea,
+            'Deep or extensive mouth ulcers': data.deepMouthUlcers,
+          }),
+        ],
+      });
+    } else if (data.pusDrainingEye || data.mouthUlcers) {
+      results.push({
+        classification: 'Measles with Eye or Mouth Complications',
+        color: 'yellow',
+        requiresReferral: false,
+        treatment: protocol.treatments['Measles with Eye or Mouth Complications'],
+        evidence: [
+          ...measlesEvidence,
+          ...presentSigns({
+            'Pus draining from eye': data.pusDrainingEye,
+            'Mouth ulcers': data.mouthUlcers,
+          }),
+        ],
+      });
+    } else {
+      results.push({
+        classification: 'Measles',
+        color: 'green',
+        requiresReferral: false,
+        treatment: protocol.treatments['Measles'],
+        evidence: measlesEvidence,
+      });
     }
-    return {
-      classification: 'Measles with Eye or Mouth Complications',
-      color: 'yellow',
-      requiresReferral: false,
-      treatment: 'Give vitamin A. If pus draining from eye, apply tetracycline eye ointment. If mouth ulcers, apply gentian violet.',
-    };
-  }
-
-  // Malaria
-  if (data.malariaRdtResult === 'positive') {
-    return {
-      classification: 'Malaria',
-      color: 'yellow',
-      requiresReferral: false,
-      treatment: 'Give oral antimalarial (ACT) for 3 days. Give paracetamol for fever. Follow up in 2 days if fever persists.',
-    };
   }
 
-  // Fever - Malaria Unlikely or No Malaria
-  return {
-    classification: data.malariaRdtResult === 'negative' ? 'Fever - No Malaria' : 'Fever - Cause Unknown',
-    color: 'green',
-    requiresReferral: (data.feverDurationDays || 0) >= 7,
-    urgency: 'routine',
-    treatment: 'Give paracetamol for fever. Follow up in 2 days if fever persists. If fever for 7 days or more, refer for assessment.',
-  };
+  return results;
 }
 
 // Assess ear problems
@@ -253,52 +463,59 @@ export function assessEarProblem(data: {
   earDischarge: boolean;
   earDischargeDurationDays?: number;
   tenderSwellingBehindEar: boolean;
-}): ClassificationResult {
+}, protocol: IMNCIProtocol = BASE_PROTOCOL): ClassificationResult[] {
   if (!data.hasEarProblem) {
-    return {
+    return [{
       classification: 'No Ear Problem',
       color: 'green',
       requiresReferral: false,
-    };
+    }];
   }
 
   // Mastoiditis
   if (data.tenderSwellingBehindEar) {
-    return {
+    return [{
       classification: 'Mastoiditis',
       color: 'red',
       requiresReferral: true,
       urgency: 'urgent',
-      treatment: 'Give first dose of antibiotic. Give first dose of paracetamol for pain. Refer URGENTLY.',
-    };
+      treatment: protocol.treatments['Mastoiditis'],
+      evidence: [{ finding: 'Tender swelling behind the ear' }],
+    }];
   }
 
   // Chronic Ear Infection
-  if ((data.earDischargeDurationDays || 0) >= 14) {
-    return {
+  const chronicDays = protocol.thresholds.chronicEarDischargeDays;
+  if ((data.earDischargeDurationDays || 0) >= chronicDays) {
+    return [{
       classification: 'Chronic Ear Infection',
       color: 'yellow',
       requiresReferral: true,
       urgency: 'routine',
-      treatment: 'Dry the ear by wicking. Refer for specialist assessment.',
-    };
+      treatment: protocol.treatments['Chronic Ear Infection'],
+      evidence: [{
+        finding: `Ear discharge for ${chronicDays} days or more`,
+        threshold: `discharge ${data.earDischargeDurationDays} days ≥ ${chronicDays} days`,
+      }],
+    }];
   }
 
   // Acute Ear Infection
   if (data.earDischarge || data.earPain) {
-    return {
+    return [{
       classification: 'Acute Ear Infection',
       color: 'yellow',
       requiresReferral: false,
-      treatment: 'Give antibiotic for 5 days. Give paracetamol for pain. Dry the ear by wicking. Follow up in 5 days.',
-    };
+      treatment: protocol.treatments['Acute Ear Infection'],
+      evidence: presentSigns({ 'Ear pain': data.earPain, 'Ear discharge': data.earDischarge }),
+    }];
   }
 
-  return {
+  return [{
     classification: 'No Ear Infection',
     color: 'green',
     requiresReferral: false,
-  };
+  }];
 }
 
 // Assess nutrition
@@ -306,66 +523,472 @@ export function assessNutrition(data: {
   visibleSevereWasting: boolean;
   edemaBothFeet: boolean;
   weightForAge?: number;
+  weightForHeight?: number;
   muacMeasurement?: number;
   palmarPallor: boolean;
   severePalmarPallor: boolean;
-}): ClassificationResult {
-  // Severe Acute Malnutrition
+}, protocol: IMNCIProtocol = BASE_PROTOCOL): ClassificationResult[] {
+  const t = protocol.thresholds;
+  const results: ClassificationResult[] = [];
+
   if (
     data.visibleSevereWasting ||
     data.edemaBothFeet ||
-    (data.muacMeasurement && data.muacMeasurement < 11.5) ||
-    (data.weightForAge && data.weightForAge < -3)
+    (data.muacMeasurement && data.muacMeasurement < t.muacSevere) ||
+    (data.weightForAge && data.weightForAge < t.weightForAgeSevere) ||
+    (data.weightForHeight && data.weightForHeight < t.weightForHeightSevere)
   ) {
-    return {
+    // Severe Acute Malnutrition
+    results.push({
       classification: 'Severe Acute Malnutrition',
       color: 'red',
       requiresReferral: true,
       urgency: 'urgent',
-      treatment: 'Give vitamin A. Treat the child to prevent low blood sugar. Keep child warm. Refer URGENTLY.',
-    };
+      treatment: protocol.treatments['Severe Acute Malnutrition'],
+      evidence: [
+        ...presentSigns({
+          'Visible severe wasting': data.visibleSevereWasting,
+          'Oedema of both feet': data.edemaBothFeet,
+        }),
+        ...measuredFinding(
+          !!data.muacMeasurement && data.muacMeasurement < t.muacSevere,
+          `MUAC less than ${t.muacSevere} cm`,
+          `MUAC ${data.muacMeasurement} cm < ${t.muacSevere} cm`
+        ),
+        ...measuredFinding(
+          !!data.weightForAge && data.weightForAge < t.weightForAgeSevere,
+          'Very low weight for age',
+          `weight-for-age z ${data.weightForAge} < ${t.weightForAgeSevere}`
+        ),
+        ...measuredFinding(
+          !!data.weightForHeight && data.weightForHeight < t.weightForHeightSevere,
+          'Very low weight for height',
+          `weight-for-height z ${data.weightForHeight} < ${t.weightForHeightSevere}`
+        ),
+      ],
+    });
+  } else if (
+    (data.muacMeasurement && data.muacMeasurement >= t.muacSevere && data.muacMeasurement < t.muacModerate) ||
+    (data.weightForAge && data.weightForAge >= t.weightForAgeSevere && data.weightForAge < t.weightForAgeModerate) ||
+    (data.weightForHeight && data.weightForHeight >= t.weightForHeightSevere && data.weightForHeight < t.weightForHeightModerate)
+  ) {
+    // Moderate Acute Malnutrition
+    results.push({
+      classification: 'Moderate Acute Malnutrition',
+      color: 'yellow',
+      requiresReferral: false,
+      treatment: protocol.treatments['Moderate Acute Malnutrition'],
+      evidence: [
+        ...measuredFinding(
+          !!data.muacMeasurement && data.muacMeasurement >= t.muacSevere && data.muacMeasurement < t.muacModerate,
+          `MUAC ${t.muacSevere} to ${t.muacModerate} cm`,
+          `MUAC ${data.muacMeasurement} cm ≥ ${t.muacSevere} and < ${t.muacModerate} cm`
+        ),
+        ...measuredFinding(
+          !!data.weightForAge && data.weightForAge >= t.weightForAgeSevere && data.weightForAge < t.weightForAgeModerate,
+          'Low weight for age',
+          `weight-for-age z ${data.weightForAge} ≥ ${t.weightForAgeSevere} and < ${t.weightForAgeModerate}`
+        ),
+        ...measuredFinding(
+          !!data.weightForHeight && data.weightForHeight >= t.weightForHeightSevere && data.weightForHeight < t.weightForHeightModerate,
+          'Low weight for height',
+          `weight-for-height z ${data.weightForHeight} ≥ ${t.weightForHeightSevere} and < ${t.weightForHeightModerate}`
+        ),
+      ],
+    });
   }
 
-  // Severe Anemia
   if (data.severePalmarPallor) {
-    return {
+    // Severe Anemia
+    results.push({
       classification: 'Severe Anemia',
       color: 'red',
       requiresReferral: true,
       urgency: 'urgent',
-      treatment: 'Refer URGENTLY.',
-    };
+      treatment: protocol.treatments['Severe Anemia'],
+      evidence: [{ finding: 'Severe palmar pallor' }],
+    });
+  } else if (data.palmarPallor) {
+    // Anemia
+    results.push({
+      classification: 'Anemia',
+      color: 'yellow',
+      requiresReferral: false,
+      treatment: protocol.treatments['Anemia'],
+      evidence: [{ finding: 'Some palmar pallor' }],
+    });
+  }
+
+  if (results.length > 0) {
+    return results;
   }
 
-  // Moderate Acute Malnutrition
+  // No Malnutrition or Anemia
+  return [{
+    classification: 'No Malnutrition or Anemia',
+    color: 'green',
+    requiresReferral: false,
+    treatment: protocol.treatments['No Malnutrition or Anemia'],
+  }];
+}
+
+// Assess HIV infection and exposure
+export function assessHIV(data: {
+  motherHivPositive?: boolean;
+  childHivTested: boolean;
+  childHivTestType?: string;
+  childHivResult?: string;
+  ageInMonths: number;
+  breastfeeding: boolean;
+}, protocol: IMNCIProtocol = BASE_PROTOCOL): ClassificationResult[] {
+  const childPositive = data.childHivTested && data.childHivResult === 'positive';
+  const childNegative = data.childHivTested && data.childHivResult === 'negative';
+  const confirmationAge = protocol.thresholds.hivAntibodyConfirmationAgeMonths;
+
+  // Confirmed HIV Infection: positive virological test, or positive antibody test at confirmation age or older
+  if (childPositive && (data.childHivTestType === 'virological' || data.ageInMonths >= confirmationAge)) {
+    return [{
+      classification: 'Confirmed HIV Infection',
+      color: 'pink',
+      requiresReferral: true,
+      urgency: 'routine',
+      treatment: protocol.treatments['Confirmed HIV Infection'],
+      evidence: data.childHivTestType === 'virological'
+        ? [{ finding: 'Positive virological test' }]
+        : [{ finding: 'Positive antibody test', threshold: `age ${data.ageInMonths} months ≥ ${confirmationAge} months` }],
+    }];
+  }
+
+  // HIV Exposed: positive antibody test below confirmation age, or mother positive and child not yet confirmed negative
   if (
-    (data.muacMeasurement && data.muacMeasurement >= 11.5 && data.muacMeasurement < 12.5) ||
-    (data.weightForAge && data.weightForAge >= -3 && data.weightForAge < -2)
+    childPositive ||
+    (data.motherHivPositive && !childNegative) ||
+    (data.motherHivPositive && childNegative && data.breastfeeding)
   ) {
-    return {
-      classification: 'Moderate Acute Malnutrition',
+    return [{
+      classification: 'HIV Exposed',
       color: 'yellow',
       requiresReferral: false,
-      treatment: 'Assess feeding and give counseling. Give supplementary feeding. Give vitamin A every 6 months. Follow up in 14 days.',
-    };
+      treatment: protocol.treatments['HIV Exposed'],
+      evidence: [
+        ...measuredFinding(
+          childPositive,
+          'Positive antibody test',
+          `age ${data.ageInMonths} months < ${confirmationAge} months`
+        ),
+        ...presentSigns({
+          'Mother HIV positive': data.motherHivPositive,
+          'Child negative but still breastfeeding': childNegative && data.breastfeeding,
+        }),
+      ],
+    }];
   }
 
-  // Anemia
-  if (data.palmarPallor) {
-    return {
-      classification: 'Anemia',
+  // HIV Infection Unlikely
+  if (childNegative || data.motherHivPositive === false) {
+    return [{
+      classification: 'HIV Infection Unlikely',
+      color: 'green',
+      requiresReferral: false,
+      treatment: protocol.treatments['HIV Infection Unlikely'],
+      evidence: presentSigns({
+        'Child HIV test negative': childNegative,
+        'Mother HIV negative': data.motherHivPositive === false,
+      }),
+    }];
+  }
+
+  return [{
+    classification: 'HIV Status Unknown',
+    color: 'green',
+    requiresReferral: false,
+    treatment: protocol.treatments['HIV Status Unknown'],
+    evidence: [{ finding: 'Mother and child HIV status unknown' }],
+  }];
+}
+
+export interface FeedingAssessmentInput {
+  ageInMonths: number;
+  breastfed: boolean;
+  breastfeedsPerDay?: number;
+  notBreastfedAtNight: boolean;
+  receivesOtherFoods: boolean;
+  mealsPerDay?: number;
+  foodThinOrWatery: boolean;
+  usesFeedingBottle: boolean;
+  noOwnServing: boolean;
+  notActivelyFed: boolean;
+  feedingReducedDuringIllness: boolean;
+}
+
+// Minimum meals a day for age from 6 months; more if the child is no longer breastfed
+export function getRecommendedMealsPerDay(ageInMonths: number, breastfed: boolean): number {
+  if (!breastfed && ageInMonths < 24) return 4;
+  return ageInMonths < 9 ? 2 : 3;
+}
+
+// Assess feeding of a child under 2, or with anemia or moderate acute malnutrition
+export function assessFeeding(data: FeedingAssessmentInput, protocol: IMNCIProtocol = BASE_PROTOCOL): ClassificationResult[] {
+  const t = protocol.thresholds;
+  const underSixMonths = data.ageInMonths < 6;
+  const recommendedMeals = getRecommendedMealsPerDay(data.ageInMonths, data.breastfed);
+  const tooFewMeals = !underSixMonths && data.mealsPerDay !== undefined && data.mealsPerDay < recommendedMeals;
+  const tooFewBreastfeeds = underSixMonths && data.breastfed &&
+    data.breastfeedsPerDay !== undefined && data.breastfeedsPerDay < t.youngInfantMinBreastfeeds;
+
+  const evidence: ClassificationEvidence[] = [
+    ...presentSigns({
+      'Not breastfed': data.ageInMonths < 24 && !data.breastfed,
+      'Not breastfed during the night': data.breastfed && data.notBreastfedAtNight,
+      'Receives other foods or drinks before 6 months': underSixMonths && data.receivesOtherFoods,
+      'Food is thin or watery': !underSixMonths && data.foodThinOrWatery,
+      'Uses a feeding bottle': data.usesFeedingBottle,
+      'Does not receive own serving': !underSixMonths && data.noOwnServing,
+      'Not actively fed': !underSixMonths && data.notActivelyFed,
+      'Feeding reduced during this illness': data.feedingReducedDuringIllness,
+    }),
+    ...measuredFinding(
+      tooFewBreastfeeds,
+      `Breastfeeding less than ${t.youngInfantMinBreastfeeds} times in 24 hours`,
+      `breastfeeds ${data.breastfeedsPerDay} < ${t.youngInfantMinBreastfeeds} per 24 hours`
+    ),
+    ...measuredFinding(
+      tooFewMeals,
+      'Too few meals for age',
+      `meals ${data.mealsPerDay}/day < ${recommendedMeals} for age ${data.ageInMonths} months`
+    ),
+  ];
+
+  if (evidence.length > 0) {
+    return [{
+      classification: 'Feeding Problem',
       color: 'yellow',
       requiresReferral: false,
-      treatment: 'Give iron and folic acid. Give mebendazole if child is 1 year or older. Follow up in 14 days.',
-    };
+      treatment: protocol.treatments['Feeding Problem'],
+      evidence,
+    }];
   }
 
-  // No Malnutrition or Anemia
-  return {
-    classification: 'No Malnutrition or Anemia',
+  return [{
+    classification: 'Feeding Appropriate for Age',
+    color: 'green',
+    requiresReferral: false,
+    treatment: protocol.treatments['Feeding Appropriate for Age'],
+  }];
+}
+
+// Young infants (0-2 months) are assessed on a separate chart
+export const YOUNG_INFANT_MAX_AGE_DAYS = 59;
+
+export function isYoungInfant(ageInDays: number): boolean {
+  return ageInDays <= YOUNG_INFANT_MAX_AGE_DAYS;
+}
+
+// Assess young infant for very severe disease and local bacterial infection
+export function assessYoungInfantInfection(data: {
+  notFeedingWell: boolean;
+  hasConvulsions: boolean;
+  breathsPerMinute?: number;
+  severeChestIndrawing: boolean;
+  temperature?: number;
+  movementOnlyWhenStimulated: boolean;
+  umbilicusRedOrPus: boolean;
+  skinPustules: boolean;
+}, protocol: IMNCIProtocol = BASE_PROTOCOL): ClassificationResult[] {
+  const t = protocol.thresholds;
+  const hasFastBreathing = (data.breathsPerMinute || 0) >= t.fastBreathingUnder2Months;
+  const hasFever = !!data.temperature && data.temperature >= t.feverTemperature;
+  const hasLowTemperature = !!data.temperature && data.temperature < t.lowTemperature;
+
+  // Possible Serious Bacterial Infection or Very Severe Disease
+  if (
+    data.notFeedingWell ||
+    data.hasConvulsions ||
+    hasFastBreathing ||
+    data.severeChestIndrawing ||
+    hasFever ||
+    hasLowTemperature ||
+    data.movementOnlyWhenStimulated
+  ) {
+    return [{
+      classification: 'Possible Serious Bacterial Infection or Very Severe Disease',
+      color: 'red',
+      requiresReferral: true,
+      urgency: 'emergency',
+      treatment: protocol.treatments['Possible Serious Bacterial Infection or Very Severe Disease'],
+      evidence: [
+        ...presentSigns({
+          'Not feeding well': data.notFeedingWell,
+          Convulsions: data.hasConvulsions,
+          'Severe chest indrawing': data.severeChestIndrawing,
+          'Movement only when stimulated or no movement': data.movementOnlyWhenStimulated,
+        }),
+        ...measuredFinding(hasFastBreathing, 'Fast breathing', `breaths ${data.breathsPerMinute}/min ≥ ${t.fastBreathingUnder2Months}`),
+        ...measuredFinding(hasFever, 'Fever', `temperature ${data.temperature}°C ≥ ${t.feverTemperature}°C`),
+        ...measuredFinding(hasLowTemperature, 'Low body temperature', `temperature ${data.temperature}°C < ${t.lowTemperature}°C`),
+      ],
+    }];
+  }
+
+  // Local Bacterial Infection
+  if (data.umbilicusRedOrPus || data.skinPustules) {
+    return [{
+      classification: 'Local Bacterial Infection',
+      color: 'yellow',
+      requiresReferral: false,
+      treatment: protocol.treatments['Local Bacterial Infection'],
+      evidence: presentSigns({
+        'Umbilicus red or draining pus': data.umbilicusRedOrPus,
+        'Skin pustules': data.skinPustules,
+      }),
+    }];
+  }
+
+  return [{
+    classification: 'Severe Disease or Local Infection Unlikely',
     color: 'green',
     requiresReferral: false,
-    treatment: 'Counsel on feeding. Give vitamin A every 6 months.',
+    treatment: protocol.treatments['Severe Disease or Local Infection Unlikely'],
+  }];
+}
+
+// Assess young infant for jaundice
+export function assessYoungInfantJaundice(data: {
+  hasJaundice: boolean;
+  ageInDays: number;
+  palmsSolesYellow: boolean;
+}, protocol: IMNCIProtocol = BASE_PROTOCOL): ClassificationResult[] {
+  if (!data.hasJaundice) {
+    return [{
+      classification: 'No Jaundice',
+      color: 'green',
+      requiresReferral: false,
+      treatment: protocol.treatments['No Jaundice'],
+    }];
+  }
+
+  // Severe Jaundice: any jaundice in the first 24 hours or yellow palms and soles
+  if (data.ageInDays < 1 || data.palmsSolesYellow) {
+    return [{
+      classification: 'Severe Jaundice',
+      color: 'red',
+      requiresReferral: true,
+      urgency: 'emergency',
+      treatment: protocol.treatments['Severe Jaundice'],
+      evidence: [
+        ...measuredFinding(data.ageInDays < 1, 'Jaundice in the first 24 hours of life', `age ${data.ageInDays} days < 1 day`),
+        ...presentSigns({ 'Yellow palms and soles': data.palmsSolesYellow }),
+      ],
+    }];
+  }
+
+  return [{
+    classification: 'Jaundice',
+    color: 'yellow',
+    requiresReferral: false,
+    treatment: protocol.treatments['Jaundice'],
+    evidence: [{ finding: 'Jaundice without yellow palms and soles', threshold: `age ${data.ageInDays} days ≥ 1 day` }],
+  }];
+}
+
+// Assess young infant for feeding problem or low weight for age
+export function assessYoungInfantFeeding(data: {
+  breastfed: boolean;
+  breastfeedsPerDay?: number;
+  receivesOtherFoods: boolean;
+  attachment?: string;
+  suckling?: string;
+  oralThrush: boolean;
+  weightForAge?: number;
+}, protocol: IMNCIProtocol = BASE_PROTOCOL): ClassificationResult[] {
+  const t = protocol.thresholds;
+
+  // Not able to feed at all
+  if (data.attachment === 'not_at_all' || data.suckling === 'not_at_all') {
+    return [{
+      classification: 'Not Able to Feed - Possible Serious Bacterial Infection',
+      color: 'red',
+      requiresReferral: true,
+      urgency: 'emergency',
+      treatment: protocol.treatments['Not Able to Feed - Possible Serious Bacterial Infection'],
+      evidence: presentSigns({
+        'Not at all attached to the breast': data.attachment === 'not_at_all',
+        'Not suckling at all': data.suckling === 'not_at_all',
+      }),
+    }];
+  }
+
+  // Feeding Problem or Low Weight for Age
+  if (
+    !data.breastfed ||
+    (data.breastfeedsPerDay !== undefined && data.breastfeedsPerDay < t.youngInfantMinBreastfeeds) ||
+    data.receivesOtherFoods ||
+    data.attachment === 'not_well' ||
+    data.suckling === 'not_effective' ||
+    data.oralThrush ||
+    (data.weightForAge !== undefined && data.weightForAge < t.weightForAgeModerate)
+  ) {
+    return [{
+      classification: 'Feeding Problem or Low Weight for Age',
+      color: 'yellow',
+      requiresReferral: false,
+      treatment: protocol.treatments['Feeding Problem or Low Weight for Age'],
+      evidence: [
+        ...presentSigns({
+          'Not breastfed': !data.breastfed,
+          'Receives other foods or drinks': data.receivesOtherFoods,
+          'Not well attached to the breast': data.attachment === 'not_well',
+          'Not suckling effectively': data.suckling === 'not_effective',
+          Thrush: data.oralThrush,
+        }),
+        ...measuredFinding(
+          data.breastfeedsPerDay !== undefined && data.breastfeedsPerDay < t.youngInfantMinBreastfeeds,
+          `Breastfeeding less than ${t.youngInfantMinBreastfeeds} times in 24 hours`,
+          `breastfeeds ${data.breastfeedsPerDay} < ${t.youngInfantMinBreastfeeds} per 24 hours`
+        ),
+        ...measuredFinding(
+          data.weightForAge !== undefined && data.weightForAge < t.weightForAgeModerate,
+          'Low weight for age',
+          `weight-for-age z ${data.weightForAge} < ${t.weightForAgeModerate}`
+        ),
+      ],
+    }];
+  }
+
+  return [{
+    classification: 'No Feeding Problem',
+    color: 'green',
+    requiresReferral: false,
+    treatment: protocol.treatments['No Feeding Problem'],
+  }];
+}
+
+const COLOR_PRIORITY: ClassificationColor[] = ['green', 'yellow', 'pink', 'red'];
+
+// Most severe color among a set of classifications
+export function getHighestPriorityColor(classifications: ClassificationResult[]): ClassificationColor {
+  return classifications.reduce<ClassificationColor>(
+    (highest, c) => (COLOR_PRIORITY.indexOf(c.color) > COLOR_PRIORITY.indexOf(highest) ? c.color : highest),
+    'green'
+  );
+}
+
+// Whether one color is more severe than another, e.g. yellow after green
+export function isMoreSevere(color: ClassificationColor, than: ClassificationColor): boolean {
+  return COLOR_PRIORITY.indexOf(color) > COLOR_PRIORITY.indexOf(than);
+}
+
+// Combine a module's classifications into the values stored in its *_classification columns
+export function summarizeClassifications(classifications?: ClassificationResult[]): {
+  classification: string | null;
+  color: ClassificationColor | null;
+} {
+  if (!classifications?.length) {
+    return { classification: null, color: null };
+  }
+  return {
+    classification: classifications.map((c) => c.classification).join('; '),
+    color: getHighestPriorityColor(classifications),
   };
 }
 
@@ -378,22 +1001,16 @@ export function calculateOverallAssessment(classifications: ClassificationResult
   criticalFindings: string[];
 } {
   const criticalFindings: string[] = [];
-  let highestPriority: ClassificationColor = 'green';
+  const highestPriority = getHighestPriorityColor(classifications);
   let referralUrgency = 'none';
   let requiresReferral = false;
 
-  const priorityOrder: ClassificationColor[] = ['green', 'yellow', 'pink', 'red'];
-
   classifications.forEach((c) => {
     if (c.requiresReferral) {
       requiresReferral = true;
       criticalFindings.push(c.classification);
     }
 
-    if (priorityOrder.indexOf(c.color) > priorityOrder.indexOf(highestPriority)) {
-      highestPriority = c.color;
-    }
-
     if (c.urgency === 'emergency') {
       referralUrgency = 'emergency';
     } else if (c.urgency === 'urgent' && referralUrgency !== 'emergency') {
@@ -404,9 +1021,9 @@ export function calculateOverallAssessment(classifications: ClassificationResult
   });
 
   let overallClassification = 'Child can be treated at home';
-  const colorPriority = priorityOrder.indexOf(highestPriority);
-  const redPriority = priorityOrder.indexOf('red');
-  const yellowPriority = priorityOrder.indexOf('yellow');
+  const colorPriority = COLOR_PRIORITY.indexOf(highestPriority);
+  const redPriority = COLOR_PRIORITY.indexOf('red');
+  const yellowPriority = COLOR_PRIORITY.indexOf('yellow');
   
   if (colorPriority >= redPriority) {
     overallClassification = 'REFER URGENTLY - Severe Classification';
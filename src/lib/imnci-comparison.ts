@@ -0,0 +1,144 @@
+// Visit-to-visit comparison of a child's assessments, flagging what got worse since the last visit
+
+import {
+  getHighestPriorityColor,
+  isMoreSevere,
+  type ClassificationColor,
+  type ClassificationResult,
+} from './imnci-classification';
+
+export interface ComparableAssessment {
+  id: string;
+  created_at: string;
+  classification_results: unknown;
+  breaths_per_minute: number | null;
+  temperature: number | null;
+  muac_measurement: number | null;
+  sunken_eyes: boolean | null;
+  skin_pinch_slow: boolean | null;
+  skin_pinch_very_slow: boolean | null;
+  restless_irritable: boolean | null;
+  lethargic_unconscious: boolean | null;
+  not_able_to_drink_diarrhea: boolean | null;
+  drinks_eagerly: boolean | null;
+}
+
+export const COMPARISON_MODULES = [
+  { id: 'danger', label: 'Danger Signs' },
+  { id: 'infant_infection', label: 'Bacterial Infection' },
+  { id: 'jaundice', label: 'Jaundice' },
+  { id: 'cough', label: 'Cough/Breathing' },
+  { id: 'diarrhea', label: 'Diarrhea' },
+  { id: 'fever', label: 'Fever' },
+  { id: 'ear', label: 'Ear Problem' },
+  { id: 'nutrition', label: 'Nutrition' },
+  { id: 'feeding', label: 'Feeding' },
+  { id: 'infant_feeding', label: 'Feeding' },
+  { id: 'hiv', label: 'HIV' },
+];
+
+type MeasureKey = 'breaths_per_minute' | 'temperature' | 'muac_measurement';
+
+// Changes smaller than minChange are measurement noise rather than deterioration
+export const COMPARISON_MEASURES: {
+  key: MeasureKey;
+  label: string;
+  unit: string;
+  worse: 'higher' | 'lower';
+  minChange: number;
+}[] = [
+  { key: 'breaths_per_minute', label: 'Breathing rate', unit: '/min', worse: 'higher', minChange: 5 },
+  { key: 'temperature', label: 'Temperature', unit: '°C', worse: 'higher', minChange: 0.5 },
+  { key: 'muac_measurement', label: 'MUAC', unit: 'cm', worse: 'lower', minChange: 0.2 },
+];
+
+const DEHYDRATION_SIGNS: { key: keyof ComparableAssessment; label: string }[] = [
+  { key: 'lethargic_unconscious', label: 'Lethargic' },
+  { key: 'restless_irritable', label: 'Restless' },
+  { key: 'sunken_eyes', label: 'Sunken eyes' },
+  { key: 'not_able_to_drink_diarrhea', label: 'Drinks poorly' },
+  { key: 'drinks_eagerly', label: 'Thirsty' },
+  { key: 'skin_pinch_very_slow', label: 'Pinch very slow' },
+  { key: 'skin_pinch_slow', label: 'Pinch slow' },
+];
+
+export interface ModuleComparison {
+  color: ClassificationColor;
+  classifications: string[];
+  worse: boolean;
+}
+
+export interface VisitComparison {
+  assessment: ComparableAssessment;
+  modules: Record<string, ModuleComparison>;
+  measures: Record<MeasureKey, { value: number | null; worse: boolean }>;
+  dehydrationSigns: string[];
+  dehydrationWorse: boolean;
+}
+
+function getModules(assessment: ComparableAssessment): Record<string, Omit<ModuleComparison, 'worse'>> {
+  const results = (assessment.classification_results || {}) as Record<string, ClassificationResult[]>;
+  return Object.fromEntries(
+    Object.entries(results)
+      .filter(([, classifications]) => classifications?.length)
+      .map(([moduleId, classifications]) => [
+        moduleId,
+        {
+          color: getHighestPriorityColor(classifications),
+          classifications: classifications.map((c) => c.classification),
+        },
+      ])
+  );
+}
+
+const isWorse = (measure: (typeof COMPARISON_MEASURES)[number], value: number | null, previous: number | null) => {
+  if (value === null || previous === null) return false;
+  const change = measure.worse === 'higher' ? value - previous : previous - value;
+  return change >= measure.minChange;
+};
+
+// Each visit, oldest first, against the visit before it
+export function compareVisits(assessments: ComparableAssessment[]): VisitComparison[] {
+  const visits = [...assessments].sort((a, b) => a.created_at.localeCompare(b.created_at));
+  const comparisons: VisitComparison[] = [];
+
+  visits.forEach((assessment, i) => {
+    const previous = i > 0 ? comparisons[i - 1] : null;
+    const modules = getModules(assessment);
+    const dehydrationSigns = DEHYDRATION_SIGNS.filter((sign) => assessment[sign.key] === true).map((s) => s.label);
+
+    comparisons.push({
+      assessment,
+      modules: Object.fromEntries(
+        Object.entries(modules).map(([moduleId, module]) => {
+          const before = previous?.modules[moduleId];
+          // A module that was not classified before counts as green
+          const worse = !!previous && isMoreSevere(module.color, before?.color || 'green');
+          return [moduleId, { ...module, worse }];
+        })
+      ),
+      measures: Object.fromEntries(
+        COMPARISON_MEASURES.map((measure) => {
+          const value = assessment[measure.key];
+          const before = previous?.assessment[measure.key] ?? null;
+          return [measure.key, { value, worse: isWorse(measure, value, before) }];
+        })
+      ) as VisitComparison['measures'],
+      dehydrationSigns,
+      dehydrationWorse: !!previous && dehydrationSigns.length > previous.dehydrationSigns.length,
+    });
+  });
+
+  return comparisons;
+}
+
+// Modules and measures that got worse at the latest visit
+export function getDeteriorations(comparisons: VisitComparison[]): string[] {
+  const latest = comparisons[comparisons.length - 1];
+  if (!latest || comparisons.length < 2) return [];
+  return [
+    ...COMPARISON_MODULES.filter((m) => latest.modules[m.id]?.worse).map((m) => m.label),
+    ...COMPARISON_MEASURES.filter((m) => latest.measures[m.key].worse).map((m) => m.label),
+    ...(latest.dehydrationWorse ? ['Dehydration signs'] : []),
+  ];
+}
@@ -0,0 +1,87 @@
+// Feeding counselling points for the mother, from the feeding recommendations and the problems found
+
+import { BASE_PROTOCOL, type IMNCIProtocol } from './imnci-protocol';
+import { getRecommendedMealsPerDay, type FeedingAssessmentInput } from './imnci-classification';
+
+// Recommendations for every child of this age
+function ageRecommendations(ageInMonths: number, breastfed: boolean): string[] {
+  if (ageInMonths < 6) {
+    return ['Breastfeed as often as the child wants, day and night, at least 8 times in 24 hours. Do not give any other foods or fluids, not even water.'];
+  }
+  const meals = getRecommendedMealsPerDay(ageInMonths, breastfed);
+  if (ageInMonths < 12) {
+    return [
+      ...(breastfed ? ['Breastfeed as often as the child wants.'] : []),
+      `Give adequate servings of thick porridge or mashed family foods ${meals} times a day, adding meat, fish, eggs or pulses.`,
+    ];
+  }
+  if (ageInMonths < 24) {
+    return [
+      ...(breastfed ? ['Breastfeed as often as the child wants.'] : []),
+      `Give adequate servings of family foods ${meals} times a day, and nutritious snacks between meals twice a day.`,
+    ];
+  }
+  return ['Give family foods at 3 meals each day, and nutritious food between meals twice a day.'];
+}
+
+// Tailored counselling points for the child's feeding problems
+export function getFeedingCounsellingPoints(
+  data: FeedingAssessmentInput & {
+    attachment?: string;
+    suckling?: string;
+    oralThrush?: boolean;
+    hasAnemia?: boolean;
+    hasModerateMalnutrition?: boolean;
+  },
+  protocol: IMNCIProtocol = BASE_PROTOCOL
+): string[] {
+  const underSixMonths = data.ageInMonths < 6;
+  const points = ageRecommendations(data.ageInMonths, data.breastfed);
+
+  if (data.attachment === 'not_well' || data.suckling === 'not_effective') {
+    points.push('Show the mother how to hold and attach the infant: head and body straight, facing the breast, chin touching the breast, mouth wide open.');
+  }
+  if (data.oralThrush) {
+    points.push('Treat thrush at home with gentian violet or nystatin four times a day for 7 days. Wash hands before and after.');
+  }
+  if (data.ageInMonths < 24 && !data.breastfed) {
+    points.push('If possible, restart breastfeeding. Otherwise prepare replacement milk safely and feed it from a cup.');
+  }
+  if (data.breastfed && data.breastfeedsPerDay !== undefined && underSixMonths &&
+    data.breastfeedsPerDay < protocol.thresholds.youngInfantMinBreastfeeds) {
+    points.push('Breastfeed more often and for longer at each feed, until the breast is empty.');
+  }
+  if (data.breastfed && data.notBreastfedAtNight) {
+    points.push('Breastfeed during the night as well as the day.');
+  }
+  if (underSixMonths && data.receivesOtherFoods) {
+    points.push('Reduce other foods and fluids and breastfeed more to build up the breast milk supply.');
+  }
+  if (!underSixMonths && data.mealsPerDay !== undefined &&
+    data.mealsPerDay < getRecommendedMealsPerDay(data.ageInMonths, data.breastfed)) {
+    points.push(`Increase meals to at least ${getRecommendedMealsPerDay(data.ageInMonths, data.breastfed)} a day.`);
+  }
+  if (!underSixMonths && data.foodThinOrWatery) {
+    points.push('Make food thick enough to stay on the spoon. Add oil, groundnut paste, beans, eggs, fish or meat.');
+  }
+  if (data.usesFeedingBottle) {
+    points.push('Stop using the feeding bottle. Show the mother how to feed the child with a cup.');
+  }
+  if (!underSixMonths && data.noOwnServing) {
+    points.push('Give the child their own bowl or plate so the mother can see how much the child eats.');
+  }
+  if (!underSixMonths && data.notActivelyFed) {
+    points.push('Sit with the child during meals and encourage eating. Be patient, talk to the child and respond to their cues.');
+  }
+  if (data.feedingReducedDuringIllness) {
+    points.push('During illness, give more fluids and keep offering small frequent meals. After the illness, give one extra meal a day for two weeks.');
+  }
+  if (data.hasAnemia) {
+    points.push('Give iron-rich foods such as liver, meat, fish, eggs, beans and dark green leafy vegetables.');
+  }
+  if (data.hasModerateMalnutrition) {
+    points.push('Give one extra nutritious meal a day until the child regains a healthy weight.');
+  }
+
+  return points;
+}
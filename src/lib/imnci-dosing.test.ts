@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { calculateDosing, formatRegimen } from './imnci-dosing';
+import { classified } from '@/test/classifications';
+
+describe('calculateDosing', () => {
+  it('doses amoxicillin by weight when the child is weighed', () => {
+    const [regimen] = calculateDosing({ classifications: classified('Pneumonia'), ageInMonths: 8, weightKg: 11 });
+    expect(regimen).toMatchObject({ drug: 'Amoxicillin', dose: '2 tablets', basis: 'weight', duration: '5 days' });
+  });
+
+  it('doses amoxicillin by age when the child is not weighed', () => {
+    const [regimen] = calculateDosing({ classifications: classified('Pneumonia'), ageInMonths: 8 });
+    expect(regimen).toMatchObject({ dose: '1 tablet', basis: 'age' });
+  });
+
+  it('leaves out a drug the child is too young for', () => {
+    const regimens = calculateDosing({ classifications: classified('Anemia'), ageInMonths: 1 });
+    expect(regimens.map((r) => r.drug)).toEqual([]);
+  });
+
+  it('matches the regimen to the medications catalog', () => {
+    const [regimen] = calculateDosing({
+      classifications: classified('Dysentery'),
+      ageInMonths: 10,
+      catalog: [{ id: 'zinc-id', name: 'Zinc 20mg Dispersible' }],
+    });
+    expect(regimen.medicationId).toBe('zinc-id');
+  });
+
+  it('uses the higher strength vitamin A from 12 months', () => {
+    const [regimen] = calculateDosing({ classifications: classified('Measles'), ageInMonths: 14 });
+    expect(regimen.formulation).toBe('Vitamin A 200,000 IU');
+  });
+
+  describe('routine vitamin A', () => {
+    it('is given from 6 months', () => {
+      const regimens = calculateDosing({ classifications: classified('No Malnutrition or Anemia'), ageInMonths: 9 });
+      expect(regimens.map((r) => r.drug)).toEqual(['Vitamin A']);
+    });
+
+    it('is not given under 6 months', () => {
+      expect(calculateDosing({ classifications: classified('No Malnutrition or Anemia'), ageInMonths: 4 })).toEqual([]);
+    });
+
+    it('is not given again when already given today', () => {
+      expect(
+        calculateDosing({
+          classifications: classified('Moderate Acute Malnutrition'),
+          ageInMonths: 18,
+          vitaminAGiven: true,
+        })
+      ).toEqual([]);
+    });
+
+    it('does not hold back a treatment dose', () => {
+      const regimens = calculateDosing({
+        classifications: classified('Measles', 'No Malnutrition or Anemia'),
+        ageInMonths: 4,
+        vitaminAGiven: true,
+      });
+      expect(regimens).toHaveLength(1);
+      expect(regimens[0]).toMatchObject({ dose: '1/2 capsule', indications: ['Measles'] });
+    });
+  });
+
+  describe('a drug given for several classifications', () => {
+    it('is prescribed once with every indication', () => {
+      const regimens = calculateDosing({
+        classifications: classified('Some Dehydration', 'Persistent Diarrhea', 'Dysentery'),
+        ageInMonths: 10,
+      });
+      expect(regimens).toHaveLength(1);
+      expect(regimens[0].indications).toEqual(['Some Dehydration', 'Persistent Diarrhea', 'Dysentery']);
+    });
+
+    it('follows the longer schedule whichever comes first', () => {
+      const [routineFirst] = calculateDosing({
+        classifications: classified('No Malnutrition or Anemia', 'Measles with Eye or Mouth Complications'),
+        ageInMonths: 18,
+      });
+      const [treatmentFirst] = calculateDosing({
+        classifications: classified('Measles with Eye or Mouth Complications', 'No Malnutrition or Anemia'),
+        ageInMonths: 18,
+      });
+      expect(routineFirst).toMatchObject({ frequency: 'Once daily', duration: '2 days' });
+      expect(treatmentFirst).toMatchObject({ frequency: 'Once daily', duration: '2 days' });
+    });
+
+    it('replaces a single pre-referral dose with the full course', () => {
+      const [regimen] = calculateDosing({
+        classifications: classified('Mastoiditis', 'Acute Ear Infection'),
+        ageInMonths: 24,
+        weightKg: 12,
+      }).filter((r) => r.drug === 'Paracetamol');
+      expect(regimen).toMatchObject({ frequency: 'Every 6 hours when needed', duration: 'Until fever or pain is gone' });
+      expect(regimen.indications).toEqual(['Mastoiditis', 'Acute Ear Infection']);
+    });
+  });
+});
+
+describe('formatRegimen', () => {
+  it('writes the regimen as one line', () => {
+    const [regimen] = calculateDosing({ classifications: classified('Pneumonia'), ageInMonths: 8, weightKg: 11 });
+    expect(formatRegimen(regimen)).toBe('Amoxicillin 250mg: 2 tablets, twice daily, 5 days (Pneumonia)');
+  });
+});
@@ -0,0 +1,205 @@
+// IMNCI drug dosing by weight or age band, following the chart booklet dosing tables
+
+import type { ClassificationResult } from './imnci-classification';
+import { countDoses } from './prescriptions';
+
+export interface DosingRegimen {
+  drug: string;
+  formulation: string;
+  medicationId?: string;
+  dose: string;
+  frequency: string;
+  duration: string;
+  indications: string[];
+  basis: 'weight' | 'age';
+  note?: string;
+}
+
+interface DoseBand {
+  minAgeMonths: number;
+  minWeightKg?: number;
+  dose: string;
+  formulation?: string;
+}
+
+interface DrugDefinition {
+  drug: string;
+  formulation: string;
+  frequency: string;
+  duration: string;
+  // Bands in ascending order; dosed by age only when no weight band is given
+  bands: DoseBand[];
+  note?: string;
+}
+
+type DrugKey = 'amoxicillin' | 'act' | 'paracetamol' | 'zinc' | 'vitaminA' | 'mebendazole' | 'iron';
+
+const DRUGS: Record<DrugKey, DrugDefinition> = {
+  amoxicillin: {
+    drug: 'Amoxicillin',
+    formulation: 'Amoxicillin 250mg',
+    frequency: 'Twice daily',
+    duration: '5 days',
+    bands: [
+      { minAgeMonths: 0, minWeightKg: 0, dose: '1/2 tablet' },
+      { minAgeMonths: 1, minWeightKg: 2.5, dose: '1 tablet' },
+      { minAgeMonths: 12, minWeightKg: 10, dose: '2 tablets' },
+      { minAgeMonths: 36, minWeightKg: 14, dose: '3 tablets' },
+    ],
+  },
+  act: {
+    drug: 'Artemether-Lumefantrine',
+    formulation: 'Artemether-Lumefantrine 20/120mg',
+    frequency: 'Twice daily',
+    duration: '3 days',
+    bands: [
+      { minAgeMonths: 2, minWeightKg: 5, dose: '1 tablet' },
+      { minAgeMonths: 36, minWeightKg: 15, dose: '2 tablets' },
+    ],
+    note: 'Give the second dose 8 hours after the first, then twice daily. Give with food.',
+  },
+  paracetamol: {
+    drug: 'Paracetamol',
+    formulation: 'Paracetamol 120mg/5ml Syrup',
+    frequency: 'Every 6 hours when needed',
+    duration: 'Until fever or pain is gone',
+    bands: [
+      { minAgeMonths: 2, minWeightKg: 4, dose: '2.5 ml' },
+      { minAgeMonths: 4, minWeightKg: 6, dose: '5 ml' },
+      { minAgeMonths: 12, minWeightKg: 10, dose: '7.5 ml' },
+      { minAgeMonths: 36, minWeightKg: 14, dose: '10 ml' },
+    ],
+  },
+  zinc: {
+    drug: 'Zinc',
+    formulation: 'Zinc 20mg Dispersible',
+    frequency: 'Once daily',
+    duration: '10 days',
+    bands: [
+      { minAgeMonths: 2, dose: '1/2 tablet' },
+      { minAgeMonths: 6, dose: '1 tablet' },
+    ],
+    note: 'Dissolve in breast milk or clean water.',
+  },
+  vitaminA: {
+    drug: 'Vitamin A',
+    formulation: 'Vitamin A 100,000 IU',
+    frequency: 'Once',
+    duration: 'Single dose',
+    bands: [
+      { minAgeMonths: 0, dose: '1/2 capsule' },
+      { minAgeMonths: 6, dose: '1 capsule' },
+      { minAgeMonths: 12, dose: '1 capsule', formulation: 'Vitamin A 200,000 IU' },
+    ],
+  },
+  mebendazole: {
+    drug: 'Mebendazole',
+    formulation: 'Mebendazole 500mg',
+    frequency: 'Once',
+    duration: 'Single dose',
+    bands: [{ minAgeMonths: 12, dose: '1 tablet' }],
+  },
+  iron: {
+    drug: 'Iron',
+    formulation: 'Iron Syrup',
+    frequency: 'Once daily',
+    duration: '14 days',
+    bands: [
+      { minAgeMonths: 2, minWeightKg: 4, dose: '1 ml' },
+      { minAgeMonths: 4, minWeightKg: 6, dose: '1.25 ml' },
+      { minAgeMonths: 12, minWeightKg: 10, dose: '2 ml' },
+      { minAgeMonths: 36, minWeightKg: 14, dose: '2.5 ml' },
+    ],
+  },
+};
+
+// Routine vitamin A supplementation starts at 6 months
+const ROUTINE_VITAMIN_A_MIN_AGE_MONTHS = 6;
+
+// Drugs to give for each classification, with any change to the usual schedule. Routine
+// supplements are skipped for younger children and when already given today
+const CLASSIFICATION_DRUGS: Record<string, { drug: DrugKey; frequency?: string; duration?: string; routine?: boolean }[]> = {
+  'Pneumonia': [{ drug: 'amoxicillin' }],
+  'Acute Ear Infection': [{ drug: 'amoxicillin' }, { drug: 'paracetamol' }],
+  'Local Bacterial Infection': [{ drug: 'amoxicillin' }],
+  'Mastoiditis': [{ drug: 'paracetamol', frequency: 'Once', duration: 'First dose before referral' }],
+  'Very Severe Febrile Disease': [{ drug: 'paracetamol', frequency: 'Once', duration: 'First dose before referral' }],
+  'Malaria': [{ drug: 'act' }, { drug: 'paracetamol' }],
+  'Malaria - No RDT Result': [{ drug: 'paracetamol' }],
+  'Fever - No Malaria': [{ drug: 'paracetamol' }],
+  'Fever - Cause Unknown': [{ drug: 'paracetamol' }],
+  'No Dehydration': [{ drug: 'zinc' }],
+  'Some Dehydration': [{ drug: 'zinc' }],
+  'Persistent Diarrhea': [{ drug: 'zinc' }],
+  'Dysentery': [{ drug: 'zinc' }],
+  'Severe Persistent Diarrhea': [{ drug: 'vitaminA' }],
+  'Severe Complicated Measles': [{ drug: 'vitaminA' }],
+  'Measles with Eye or Mouth Complications': [{ drug: 'vitaminA', frequency: 'Once daily', duration: '2 days' }],
+  'Measles': [{ drug: 'vitaminA', frequency: 'Once daily', duration: '2 days' }],
+  'Severe Acute Malnutrition': [{ drug: 'vitaminA' }],
+  'Moderate Acute Malnutrition': [{ drug: 'vitaminA', duration: 'Single dose if none in the last 6 months', routine: true }],
+  'No Malnutrition or Anemia': [{ drug: 'vitaminA', duration: 'Single dose if none in the last 6 months', routine: true }],
+  'Anemia': [{ drug: 'iron' }, { drug: 'mebendazole' }],
+};
+
+// Highest band the child has reached, by weight when weighed and the drug has weight bands
+function selectBand(definition: DrugDefinition, ageInMonths: number, weightKg?: number): { band: DoseBand; basis: 'weight' | 'age' } | null {
+  const byWeight = !!weightKg && definition.bands.every((b) => b.minWeightKg !== undefined);
+  const reached = definition.bands.filter((b) =>
+    byWeight ? weightKg >= b.minWeightKg : ageInMonths >= b.minAgeMonths
+  );
+  if (reached.length === 0) return null;
+  return { band: reached[reached.length - 1], basis: byWeight ? 'weight' : 'age' };
+}
+
+// Concrete regimens for the classifications made, matched to the medications catalog. A drug
+// given for several classifications follows the longest of their schedules
+export function calculateDosing(data: {
+  classifications: ClassificationResult[];
+  ageInMonths: number;
+  weightKg?: number;
+  vitaminAGiven?: boolean;
+  catalog?: { id: string; name: string }[];
+}): DosingRegimen[] {
+  const regimens = new Map<DrugKey, DosingRegimen>();
+
+  data.classifications.forEach((c) => {
+    (CLASSIFICATION_DRUGS[c.classification] || []).forEach(({ drug, frequency, duration, routine }) => {
+      if (routine && (data.ageInMonths < ROUTINE_VITAMIN_A_MIN_AGE_MONTHS || data.vitaminAGiven)) return;
+
+      const definition = DRUGS[drug];
+      const schedule = {
+        frequency: frequency || definition.frequency,
+        duration: duration || definition.duration,
+      };
+      const existing = regimens.get(drug);
+      if (existing) {
+        existing.indications.push(c.classification);
+        if (countDoses(schedule) > countDoses(existing)) Object.assign(existing, schedule);
+        return;
+      }
+
+      const selected = selectBand(definition, data.ageInMonths, data.weightKg);
+      if (!selected) return;
+
+      const formulation = selected.band.formulation || definition.formulation;
+      regimens.set(drug, {
+        drug: definition.drug,
+        formulation,
+        medicationId: data.catalog?.find((m) => m.name === formulation)?.id,
+        dose: selected.band.dose,
+        ...schedule,
+        indications: [c.classification],
+        basis: selected.basis,
+        note: definition.note,
+      });
+    });
+  });
+
+  return Array.from(regimens.values());
+}
+
+// One line per regimen, as written into the case medications field
+export function formatRegimen(regimen: DosingRegimen): string {
+  return `${regimen.formulation}: ${regimen.dose}, ${regimen.frequency.toLowerCase()}, ${regimen.duration.toLowerCase()} (${regimen.indications.join(', ')})`;
+}
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import {
+  FOLLOW_UP_GUIDES,
+  evaluateFollowUp,
+  getFollowUpDueDate,
+  getFollowUpGuides,
+  getFollowUpSchedule,
+} from './imnci-followup';
+import { classified } from '@/test/classifications';
+
+const assessedAt = new Date(2026, 2, 10);
+const guide = (condition: string) => FOLLOW_UP_GUIDES.find((g) => g.condition === condition)!;
+
+describe('getFollowUpSchedule', () => {
+  it('groups classifications due back on the same day', () => {
+    const schedule = getFollowUpSchedule(classified('Pneumonia', 'Dysentery', 'Anemia'), assessedAt);
+    expect(schedule).toEqual([
+      { dueDate: new Date(2026, 2, 12), reasons: ['Pneumonia', 'Dysentery'] },
+      { dueDate: new Date(2026, 2, 24), reasons: ['Anemia'] },
+    ]);
+  });
+
+  it('lists a classification once when it appears twice', () => {
+    const schedule = getFollowUpSchedule(classified('Malaria', 'Malaria'), assessedAt);
+    expect(schedule[0].reasons).toEqual(['Malaria']);
+  });
+
+  it('skips classifications without a follow-up', () => {
+    expect(getFollowUpSchedule(classified('No Pneumonia: Cough or Cold'), assessedAt)).toEqual([]);
+  });
+});
+
+describe('getFollowUpDueDate', () => {
+  it('is the earliest follow-up', () => {
+    expect(getFollowUpDueDate(classified('Anemia', 'Acute Ear Infection'), assessedAt)).toEqual(new Date(2026, 2, 15));
+  });
+
+  it('is null when no follow-up is needed', () => {
+    expect(getFollowUpDueDate(classified('No Dehydration'), assessedAt)).toBeNull();
+  });
+});
+
+describe('getFollowUpGuides', () => {
+  it('returns a guide for each condition classified', () => {
+    const guides = getFollowUpGuides(classified('Malaria - No RDT Result', 'Anemia', 'Feeding Problem'));
+    expect(guides.map((g) => g.condition)).toEqual(['malaria', 'anemia']);
+  });
+});
+
+describe('evaluateFollowUp', () => {
+  it('follows the outcome for the progress made', () => {
+    expect(evaluateFollowUp(guide('pneumonia'), 'improved', []).decision).toBe('complete');
+    expect(evaluateFollowUp(guide('pneumonia'), 'same', [])).toMatchObject({
+      decision: 'change_treatment',
+      nextFollowUpDays: 2,
+    });
+  });
+
+  it('refers for a danger sign whatever the progress', () => {
+    const outcome = evaluateFollowUp(guide('pneumonia'), 'improved', ['chest_indrawing']);
+    expect(outcome.decision).toBe('refer');
+    expect(outcome.action).toMatch(/^Chest indrawing: /);
+  });
+
+  it('refers instead of a further course when an escalation sign is found', () => {
+    const outcome = evaluateFollowUp(guide('dysentery'), 'same', ['second_line_given']);
+    expect(outcome.decision).toBe('refer');
+    expect(outcome.action).toBe('Already treated with the second-line antibiotic: refer for assessment.');
+  });
+
+  it('ignores an escalation sign once treatment is complete', () => {
+    expect(evaluateFollowUp(guide('malaria'), 'improved', ['second_line_given']).decision).toBe('complete');
+  });
+});
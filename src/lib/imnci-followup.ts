@@ -0,0 +1,277 @@
+// IMNCI follow-up visits: when the child is due back, and how to reassess each condition
+
+import { addDays } from 'date-fns';
+import type { ClassificationColor, ClassificationResult } from './imnci-classification';
+
+export type FollowUpCondition =
+  | 'pneumonia'
+  | 'dysentery'
+  | 'malaria'
+  | 'persistent_diarrhea'
+  | 'ear_infection'
+  | 'mam'
+  | 'anemia';
+
+export type FollowUpProgress = 'improved' | 'same' | 'worse';
+
+export type FollowUpDecision = 'complete' | 'continue' | 'change_treatment' | 'refer';
+
+export interface FollowUpSign {
+  id: string;
+  label: string;
+}
+
+export interface FollowUpOutcome {
+  decision: FollowUpDecision;
+  action: string;
+  nextFollowUpDays?: number;
+}
+
+export interface FollowUpGuide {
+  condition: FollowUpCondition;
+  label: string;
+  classifications: string[];
+  // What to ask and look for at the follow-up visit
+  reassess: string;
+  // Any of these means urgent referral whatever the progress
+  referSigns: FollowUpSign[];
+  // Any of these turns a further course of treatment into a referral
+  escalateSigns: FollowUpSign[];
+  outcomes: Record<FollowUpProgress, FollowUpOutcome>;
+}
+
+// Days after the visit that the child should return, by classification
+export const FOLLOW_UP_DAYS: Record<string, number> = {
+  'Pneumonia': 2,
+  'Dysentery': 2,
+  'Malaria': 2,
+  'Malaria - No RDT Result': 2,
+  'Persistent Diarrhea': 5,
+  'Acute Ear Infection': 5,
+  'Feeding Problem': 5,
+  'Moderate Acute Malnutrition': 14,
+  'Anemia': 14,
+  'Local Bacterial Infection': 2,
+  'Feeding Problem or Low Weight for Age': 2,
+  'Jaundice': 1,
+  'HIV Exposed': 30,
+};
+
+const REFER_URGENTLY = 'Refer URGENTLY to hospital.';
+
+export const FOLLOW_UP_GUIDES: FollowUpGuide[] = [
+  {
+    condition: 'pneumonia',
+    label: 'Pneumonia',
+    classifications: ['Pneumonia'],
+    reassess: 'Check for general danger signs. Count the breaths and look for chest indrawing. Ask if the child is breathing slower, has less fever and is eating better.',
+    referSigns: [
+      { id: 'danger_sign', label: 'General danger sign' },
+      { id: 'chest_indrawing', label: 'Chest indrawing' },
+    ],
+    escalateSigns: [{ id: 'measles', label: 'Measles within the last 3 months' }],
+    outcomes: {
+      improved: { decision: 'complete', action: 'Complete the 5 days of oral antibiotic.' },
+      same: {
+        decision: 'change_treatment',
+        action: 'Change to the second-line oral antibiotic and follow up again in 2 days.',
+        nextFollowUpDays: 2,
+      },
+      worse: { decision: 'refer', action: `Give a dose of the second-line antibiotic. ${REFER_URGENTLY}` },
+    },
+  },
+  {
+    condition: 'dysentery',
+    label: 'Dysentery',
+    classifications: ['Dysentery'],
+    reassess: 'Assess for dehydration. Ask about the number of stools, blood in the stool, fever, abdominal pain and eating.',
+    referSigns: [
+      { id: 'danger_sign', label: 'General danger sign' },
+      { id: 'severe_dehydration', label: 'Severe dehydration' },
+    ],
+    escalateSigns: [{ id: 'second_line_given', label: 'Already treated with the second-line antibiotic' }],
+    outcomes: {
+      improved: { decision: 'complete', action: 'Continue the antibiotic until finished.' },
+      same: {
+        decision: 'change_treatment',
+        action: 'Treat any dehydration. Change to the second-line oral antibiotic for 3 days and follow up again in 2 days.',
+        nextFollowUpDays: 2,
+      },
+      worse: { decision: 'refer', action: `Treat any dehydration before leaving. ${REFER_URGENTLY}` },
+    },
+  },
+  {
+    condition: 'malaria',
+    label: 'Malaria',
+    classifications: ['Malaria', 'Malaria - No RDT Result'],
+    reassess: 'If the fever persists, do a full reassessment. Look for general danger signs, stiff neck and other causes of fever.',
+    referSigns: [
+      { id: 'danger_sign', label: 'General danger sign' },
+      { id: 'stiff_neck', label: 'Stiff neck' },
+    ],
+    escalateSigns: [
+      { id: 'fever_7_days', label: 'Fever every day for 7 days or more' },
+      { id: 'second_line_given', label: 'Already treated with the second-line antimalarial' },
+    ],
+    outcomes: {
+      improved: { decision: 'complete', action: 'Complete the 3 days of antimalarial. Give paracetamol if the fever returns.' },
+      same: {
+        decision: 'change_treatment',
+        action: 'Treat any other cause of fever. If there is no other cause, repeat the malaria test and give the second-line antimalarial if positive. Follow up again in 2 days.',
+        nextFollowUpDays: 2,
+      },
+      worse: { decision: 'refer', action: `Treat as Very Severe Febrile Disease. ${REFER_URGENTLY}` },
+    },
+  },
+  {
+    condition: 'persistent_diarrhea',
+    label: 'Persistent Diarrhea',
+    classifications: ['Persistent Diarrhea'],
+    reassess: 'Ask if the diarrhea has stopped and how many loose stools the child has a day.',
+    referSigns: [{ id: 'dehydration', label: 'Signs of dehydration' }],
+    escalateSigns: [],
+    outcomes: {
+      improved: { decision: 'complete', action: 'Diarrhea has stopped. Follow the feeding recommendations for the child\'s age.' },
+      same: { decision: 'refer', action: 'Diarrhea has not stopped (3 or more loose stools a day). Do a full reassessment, treat, then refer to hospital.' },
+      worse: { decision: 'refer', action: 'Do a full reassessment and treat any dehydration. Refer to hospital.' },
+    },
+  },
+  {
+    condition: 'ear_infection',
+    label: 'Ear Infection',
+    classifications: ['Acute Ear Infection'],
+    reassess: 'Look for tender swelling behind the ear and measure the temperature. Ask about ear pain and discharge.',
+    referSigns: [
+      { id: 'mastoid_swelling', label: 'Tender swelling behind the ear' },
+      { id: 'high_fever', label: 'High fever (38.5°C or above)' },
+    ],
+    escalateSigns: [{ id: 'discharge_14_days', label: 'Ear discharge for 14 days or more' }],
+    outcomes: {
+      improved: { decision: 'complete', action: 'No ear pain or discharge. Praise the mother and complete the antibiotic.' },
+      same: {
+        decision: 'change_treatment',
+        action: 'Treat with 5 more days of the same antibiotic. Continue wicking to dry the ear. Follow up again in 5 days.',
+        nextFollowUpDays: 5,
+      },
+      worse: { decision: 'refer', action: `Give the first dose of antibiotic and paracetamol for pain. ${REFER_URGENTLY}` },
+    },
+  },
+  {
+    condition: 'mam',
+    label: 'Moderate Acute Malnutrition',
+    classifications: ['Moderate Acute Malnutrition'],
+    reassess: 'Weigh the child, measure MUAC and look for oedema of both feet. Reassess feeding.',
+    referSigns: [
+      { id: 'sam', label: 'MUAC below 11.5 cm or oedema of both feet' },
+      { id: 'medical_complication', label: 'Medical complication' },
+    ],
+    escalateSigns: [{ id: 'weight_loss', label: 'Has lost weight since the last visit' }],
+    outcomes: {
+      improved: { decision: 'complete', action: 'MUAC 12.5 cm or more. Praise the mother and continue the feeding recommendations.' },
+      same: {
+        decision: 'continue',
+        action: 'Reassess feeding and counsel the mother on the problems found. Follow up again in 14 days.',
+        nextFollowUpDays: 14,
+      },
+      worse: { decision: 'refer', action: 'Refer for management of severe acute malnutrition.' },
+    },
+  },
+  {
+    condition: 'anemia',
+    label: 'Anemia',
+    classifications: ['Anemia'],
+    reassess: 'Look for palmar pallor. Ask whether the iron has been given as advised.',
+    referSigns: [{ id: 'severe_pallor', label: 'Severe palmar pallor' }],
+    escalateSigns: [{ id: 'pallor_2_months', label: 'Still has palmar pallor after 2 months of iron' }],
+    outcomes: {
+      improved: {
+        decision: 'continue',
+        action: 'Give iron for another 14 days, for 2 months in total. Follow up again in 14 days.',
+        nextFollowUpDays: 14,
+      },
+      same: {
+        decision: 'continue',
+        action: 'Check the iron is being given. Give iron for another 14 days and follow up again in 14 days.',
+        nextFollowUpDays: 14,
+      },
+      worse: { decision: 'refer', action: 'Refer for assessment.' },
+    },
+  },
+];
+
+export const FOLLOW_UP_DECISION_COLORS: Record<FollowUpDecision, ClassificationColor> = {
+  complete: 'green',
+  continue: 'yellow',
+  change_treatment: 'yellow',
+  refer: 'red',
+};
+
+export type AppointmentStatus = 'scheduled' | 'attended' | 'missed' | 'traced';
+
+export const APPOINTMENT_STATUS_LABELS: Record<AppointmentStatus, string> = {
+  scheduled: 'Scheduled',
+  attended: 'Attended',
+  missed: 'Missed',
+  traced: 'Traced',
+};
+
+export const FOLLOW_UP_DECISION_LABELS: Record<FollowUpDecision, string> = {
+  complete: 'Treatment complete',
+  continue: 'Continue treatment',
+  change_treatment: 'Change treatment',
+  refer: 'Refer',
+};
+
+// Follow-up guides for the conditions classified at the original visit
+export function getFollowUpGuides(classifications: ClassificationResult[]): FollowUpGuide[] {
+  const names = classifications.map((c) => c.classification);
+  return FOLLOW_UP_GUIDES.filter((g) => g.classifications.some((name) => names.includes(name)));
+}
+
+// One appointment per follow-up interval, with the classifications that call for it
+export function getFollowUpSchedule(
+  classifications: ClassificationResult[],
+  assessedAt: Date
+): { dueDate: Date; reasons: string[] }[] {
+  const byDays = new Map<number, string[]>();
+  classifications.forEach((c) => {
+    const days = FOLLOW_UP_DAYS[c.classification];
+    if (days === undefined) return;
+    const reasons = byDays.get(days) || [];
+    if (!reasons.includes(c.classification)) reasons.push(c.classification);
+    byDays.set(days, reasons);
+  });
+  return [...byDays.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([days, reasons]) => ({ dueDate: addDays(assessedAt, days), reasons }));
+}
+
+// The earliest follow-up any classification calls for
+export function getFollowUpDueDate(classifications: ClassificationResult[], assessedAt: Date): Date | null {
+  return getFollowUpSchedule(classifications, assessedAt)[0]?.dueDate || null;
+}
+
+// Decide what to do at the follow-up visit from the progress and the signs found
+export function evaluateFollowUp(
+  guide: FollowUpGuide,
+  progress: FollowUpProgress,
+  signs: string[]
+): FollowUpOutcome {
+  const referSigns = guide.referSigns.filter((s) => signs.includes(s.id));
+  if (referSigns.length > 0) {
+    return {
+      decision: 'refer',
+      action: `${referSigns.map((s) => s.label).join(', ')}: ${guide.outcomes.worse.action}`,
+    };
+  }
+
+  const outcome = guide.outcomes[progress];
+  const escalateSigns = guide.escalateSigns.filter((s) => signs.includes(s.id));
+  if (outcome.decision !== 'complete' && escalateSigns.length > 0) {
+    return {
+      decision: 'refer',
+      action: `${escalateSigns.map((s) => s.label).join(', ')}: refer for assessment.`,
+    };
+  }
+  return outcome;
+}
@@ -0,0 +1,120 @@
+// Pre-referral treatment checklist built from the severe (red) classifications
+
+import type { ClassificationResult } from './imnci-classification';
+import type { MalariaRisk } from './malaria-risk';
+
+export interface PreReferralItem {
+  id: string;
+  label: string;
+  detail?: string;
+  // Classifications that call for this treatment
+  reasons: string[];
+}
+
+// What was given before the child left, stored on the assessment and the referral
+export interface PreReferralRecord {
+  id: string;
+  label: string;
+  given: boolean;
+}
+
+type PreReferralAction = Omit<PreReferralItem, 'reasons'>;
+
+// Listed in the order they should be given
+const ACTIONS: Record<string, PreReferralAction> = {
+  diazepam: {
+    id: 'diazepam',
+    label: 'Diazepam for convulsions',
+    detail: 'Rectal diazepam 0.5 mg/kg. Turn the child on their side and clear the airway.',
+  },
+  antibiotic: {
+    id: 'antibiotic',
+    label: 'First dose of appropriate antibiotic',
+    detail: 'Intramuscular ampicillin and gentamicin, or ceftriaxone if not available.',
+  },
+  artesunate: {
+    id: 'artesunate',
+    label: 'First dose of artesunate for severe malaria',
+    detail: 'Rectal artesunate, or intramuscular artesunate or quinine.',
+  },
+  hypoglycaemia: {
+    id: 'hypoglycaemia',
+    label: 'Prevent low blood sugar',
+    detail: 'Breastfeed, or give expressed breast milk, milk or sugar water by cup or nasogastric tube.',
+  },
+  paracetamol: {
+    id: 'paracetamol',
+    label: 'One dose of paracetamol for high fever or pain',
+  },
+  vitaminA: {
+    id: 'vitaminA',
+    label: 'Vitamin A',
+  },
+  eyeOintment: {
+    id: 'eyeOintment',
+    label: 'Tetracycline eye ointment',
+    detail: 'If clouding of the cornea or pus draining from the eye.',
+  },
+  keepWarm: {
+    id: 'keepWarm',
+    label: 'Keep the child warm on the way',
+    detail: 'Skin-to-skin contact with the mother for young infants.',
+  },
+  orsSips: {
+    id: 'orsSips',
+    label: 'Frequent sips of ORS on the way',
+    detail: 'Give the mother ORS solution for the journey. Continue breastfeeding.',
+  },
+};
+
+// Pre-referral treatments for each severe classification
+const CLASSIFICATION_ACTIONS: Record<string, string[]> = {
+  'General Danger Signs Present': ['antibiotic', 'hypoglycaemia'],
+  'Severe Pneumonia or Very Severe Disease': ['antibiotic', 'paracetamol'],
+  'Severe Dehydration': ['orsSips'],
+  'Very Severe Febrile Disease': ['artesunate', 'antibiotic', 'hypoglycaemia', 'paracetamol'],
+  'Severe Complicated Measles': ['vitaminA', 'antibiotic', 'eyeOintment'],
+  'Mastoiditis': ['antibiotic', 'paracetamol'],
+  'Severe Acute Malnutrition': ['vitaminA', 'hypoglycaemia', 'keepWarm'],
+  'Severe Anemia': [],
+  'Possible Serious Bacterial Infection or Very Severe Disease': ['antibiotic', 'hypoglycaemia', 'keepWarm'],
+  'Severe Jaundice': ['hypoglycaemia', 'keepWarm'],
+  'Not Able to Feed - Possible Serious Bacterial Infection': ['antibiotic', 'hypoglycaemia', 'keepWarm'],
+};
+
+const ACTION_ORDER = Object.keys(ACTIONS);
+
+// One checklist item per treatment, merged across all red classifications
+export function getPreReferralChecklist(
+  classifications: ClassificationResult[],
+  options: { malariaRisk?: MalariaRisk } = {}
+): PreReferralItem[] {
+  const items = new Map<string, PreReferralItem>();
+
+  const add = (actionId: string, reason: string) => {
+    const existing = items.get(actionId);
+    if (existing) {
+      if (!existing.reasons.includes(reason)) existing.reasons.push(reason);
+      return;
+    }
+    items.set(actionId, { ...ACTIONS[actionId], reasons: [reason] });
+  };
+
+  classifications
+    .filter((c) => c.color === 'red')
+    .forEach((c) => {
+      (CLASSIFICATION_ACTIONS[c.classification] || []).forEach((actionId) => {
+        if (
+          actionId === 'artesunate' &&
+          options.malariaRisk === 'none' &&
+          !c.evidence?.some((e) => e.finding === 'Malaria RDT positive')
+        ) return;
+        add(actionId, c.classification);
+      });
+      if (c.evidence?.some((e) => e.finding === 'Convulsing now')) {
+        add('diazepam', c.classification);
+      }
+    });
+
+  return [...items.values()].sort((a, b) => ACTION_ORDER.indexOf(a.id) - ACTION_ORDER.indexOf(b.id));
+}
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { BASE_PROTOCOL, resolveProtocol, resolveRecordedProtocol, type ProtocolOverride } from './imnci-protocol';
+
+const national: ProtocolOverride = { country: 'SL', version: '1', thresholds: { feverTemperature: 37.8 } };
+const district: ProtocolOverride = { country: 'SL', district: 'Bo', version: '2', thresholds: { muacSevere: 11.0 } };
+const retired: ProtocolOverride = { country: 'SL', version: '0', thresholds: { feverTemperature: 38 } };
+
+describe('resolveProtocol', () => {
+  it('applies the national override before the district override', () => {
+    const protocol = resolveProtocol([district, national], { country: 'SL', district: 'Bo' });
+    expect(protocol.version).toBe('WHO-IMNCI-2014+SL-1+SL/Bo-2');
+    expect(protocol.thresholds).toMatchObject({ feverTemperature: 37.8, muacSevere: 11.0 });
+  });
+
+  it('rewrites treatment text for the overridden cut-offs', () => {
+    const protocol = resolveProtocol(
+      [{ country: 'SL', version: '1', thresholds: { prolongedFeverDays: 5 } }],
+      { country: 'SL' }
+    );
+    expect(protocol.treatments['Fever - No Malaria']).toContain('If fever for 5 days or more');
+    expect(BASE_PROTOCOL.treatments['Fever - No Malaria']).toContain('If fever for 7 days or more');
+  });
+});
+
+describe('resolveRecordedProtocol', () => {
+  it('rebuilds the protocol from the overrides named in its version', () => {
+    const recorded = resolveProtocol([national, district], { country: 'SL', district: 'Bo' });
+    expect(resolveRecordedProtocol([retired, district, national], recorded.version)).toEqual(recorded);
+  });
+
+  it('uses an override that has since been retired', () => {
+    const protocol = resolveRecordedProtocol([national, retired], 'WHO-IMNCI-2014+SL-0');
+    expect(protocol?.thresholds.feverTemperature).toBe(38);
+  });
+
+  it('is the base protocol when no override was applied', () => {
+    expect(resolveRecordedProtocol([national], 'WHO-IMNCI-2014')).toEqual(resolveProtocol([], { country: 'SL' }));
+  });
+
+  it('is null when an override it names is not known', () => {
+    expect(resolveRecordedProtocol([national], 'WHO-IMNCI-2014+SL-1+SL/Kenema-1')).toBeNull();
+  });
+
+  it('is null for another base protocol', () => {
+    expect(resolveRecordedProtocol([national], 'WHO-IMNCI-2008+SL-1')).toBeNull();
+  });
+});
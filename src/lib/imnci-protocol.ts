@@ -0,0 +1,175 @@
+// IMNCI protocol definitions: the cut-offs and treatment text applied by the classification engine
+
+import { FOLLOW_UP_DAYS } from './imnci-followup';
+
+export interface ProtocolThresholds {
+  fastBreathingUnder2Months: number;
+  fastBreathingUnder12Months: number;
+  fastBreathingUnder5Years: number;
+  feverTemperature: number;
+  lowTemperature: number;
+  muacSevere: number;
+  muacModerate: number;
+  weightForAgeSevere: number;
+  weightForAgeModerate: number;
+  weightForHeightSevere: number;
+  weightForHeightModerate: number;
+  persistentDiarrheaDays: number;
+  chronicCoughDays: number;
+  prolongedFeverDays: number;
+  chronicEarDischargeDays: number;
+  hivAntibodyConfirmationAgeMonths: number;
+  youngInfantMinBreastfeeds: number;
+  prolongedJaundiceDays: number;
+}
+
+export interface IMNCIProtocol {
+  version: string;
+  thresholds: ProtocolThresholds;
+  // Treatment text keyed by classification name
+  treatments: Record<string, string>;
+}
+
+// A national or district revision of the chart booklet, layered on top of the base protocol
+export interface ProtocolOverride {
+  country: string;
+  district?: string | null;
+  version: string;
+  thresholds?: Partial<ProtocolThresholds>;
+  treatments?: Record<string, string>;
+}
+
+// Country whose overrides apply to this deployment
+export const PROTOCOL_COUNTRY: string = import.meta.env.VITE_IMNCI_COUNTRY || 'SL';
+
+// WHO generic IMNCI chart booklet cut-offs
+const BASE_THRESHOLDS: ProtocolThresholds = {
+  fastBreathingUnder2Months: 60,
+  fastBreathingUnder12Months: 50,
+  fastBreathingUnder5Years: 40,
+  feverTemperature: 37.5,
+  lowTemperature: 35.5,
+  muacSevere: 11.5,
+  muacModerate: 12.5,
+  weightForAgeSevere: -3,
+  weightForAgeModerate: -2,
+  weightForHeightSevere: -3,
+  weightForHeightModerate: -2,
+  persistentDiarrheaDays: 14,
+  chronicCoughDays: 14,
+  prolongedFeverDays: 7,
+  chronicEarDischargeDays: 14,
+  hivAntibodyConfirmationAgeMonths: 18,
+  youngInfantMinBreastfeeds: 8,
+  prolongedJaundiceDays: 14,
+};
+
+// Follow-up visits advised only if the child does not get better, so not scheduled
+const NOT_IMPROVING_FOLLOW_UP_DAYS = 5;
+const FEVER_FOLLOW_UP_DAYS = 2;
+const LOW_WEIGHT_FOLLOW_UP_DAYS = 14;
+
+const followUpIn = (days: number) => `Follow up in ${days} ${days === 1 ? 'day' : 'days'}`;
+
+// Treatment text, with the cut-offs and follow-up intervals it mentions taken from the protocol
+export function buildTreatments(t: ProtocolThresholds): Record<string, string> {
+  return {
+    'General Danger Signs Present': 'Give first dose of appropriate antibiotic. Refer URGENTLY to hospital.',
+    'Severe Pneumonia or Very Severe Disease': 'Give first dose of antibiotic. Give first dose of paracetamol for high fever. Refer URGENTLY to hospital.',
+    'Pneumonia': `Give oral antibiotic for 5 days. Soothe the throat with safe remedy. If wheezing, give bronchodilator for 5 days. ${followUpIn(FOLLOW_UP_DAYS['Pneumonia'])}.`,
+    'No Pneumonia: Cough or Cold': `If coughing more than ${t.chronicCoughDays} days, refer for assessment. Soothe the throat with safe remedy. ${followUpIn(NOT_IMPROVING_FOLLOW_UP_DAYS)} if not improving.`,
+    'No Pneumonia: Cough or Cold (wheezing)': `If coughing more than ${t.chronicCoughDays} days, refer for assessment. Soothe the throat with safe remedy. Give inhaled bronchodilator for 5 days for wheezing. ${followUpIn(NOT_IMPROVING_FOLLOW_UP_DAYS)} if not improving.`,
+    'Severe Dehydration': 'If child has no other severe classification: Give fluid for severe dehydration (Plan C). If child also has another severe classification: Refer URGENTLY with mother giving frequent sips of ORS. Advise to continue breastfeeding.',
+    'Some Dehydration': 'Give fluid and food for some dehydration (Plan B). If child also has a severe classification, refer URGENTLY with mother giving frequent sips of ORS on the way. Advise to continue breastfeeding.',
+    'No Dehydration': `Give fluid and food to treat diarrhea at home (Plan A). Give zinc supplements for 10-14 days. Advise mother when to return immediately. ${followUpIn(NOT_IMPROVING_FOLLOW_UP_DAYS)} if not improving.`,
+    'Severe Persistent Diarrhea': 'Treat dehydration before referral unless the child has another severe classification. Give vitamin A. Refer to hospital.',
+    'Persistent Diarrhea': 'Refer for assessment and treatment.',
+    'Dysentery': `Give ciprofloxacin for 3 days. ${followUpIn(FOLLOW_UP_DAYS['Dysentery'])}.`,
+    'Very Severe Febrile Disease': 'Give first dose of artesunate or quinine for severe malaria. Give first dose of antibiotic for severe bacterial infection. Treat to prevent low blood sugar. Give first dose of paracetamol. Refer URGENTLY.',
+    'Very Severe Febrile Disease (no malaria risk)': 'Give first dose of antibiotic for severe bacterial infection. Treat to prevent low blood sugar. Give first dose of paracetamol. Refer URGENTLY.',
+    'Malaria': `Give oral antimalarial (ACT) for 3 days. Give paracetamol for fever. ${followUpIn(FOLLOW_UP_DAYS['Malaria'])} if fever persists.`,
+    'Malaria - No RDT Result': `Do a malaria RDT now. If no test is available, give oral antimalarial (ACT) for 3 days. Give paracetamol for fever. ${followUpIn(FOLLOW_UP_DAYS['Malaria - No RDT Result'])} if fever persists.`,
+    'Fever - No Malaria': `Give paracetamol for fever. ${followUpIn(FEVER_FOLLOW_UP_DAYS)} if fever persists. If fever for ${t.prolongedFeverDays} days or more, refer for assessment.`,
+    'Fever - Cause Unknown': `Give paracetamol for fever. ${followUpIn(FEVER_FOLLOW_UP_DAYS)} if fever persists. If fever for ${t.prolongedFeverDays} days or more, refer for assessment.`,
+    'Severe Complicated Measles': 'Give vitamin A. Give first dose of antibiotic. If clouding of cornea, apply tetracycline eye ointment. Refer URGENTLY.',
+    'Measles with Eye or Mouth Complications': 'Give vitamin A. If pus draining from eye, apply tetracycline eye ointment. If mouth ulcers, apply gentian violet.',
+    'Measles': 'Give vitamin A.',
+    'Mastoiditis': 'Give first dose of antibiotic. Give first dose of paracetamol for pain. Refer URGENTLY.',
+    'Chronic Ear Infection': 'Dry the ear by wicking. Refer for specialist assessment.',
+    'Acute Ear Infection': `Give antibiotic for 5 days. Give paracetamol for pain. Dry the ear by wicking. ${followUpIn(FOLLOW_UP_DAYS['Acute Ear Infection'])}.`,
+    'Severe Acute Malnutrition': 'Give vitamin A. Treat the child to prevent low blood sugar. Keep child warm. Refer URGENTLY.',
+    'Moderate Acute Malnutrition': `Assess feeding and give counseling. Give supplementary feeding. Give vitamin A every 6 months. ${followUpIn(FOLLOW_UP_DAYS['Moderate Acute Malnutrition'])}.`,
+    'Severe Anemia': 'Refer URGENTLY.',
+    'Anemia': `Give iron and folic acid. Give mebendazole if child is 1 year or older. ${followUpIn(FOLLOW_UP_DAYS['Anemia'])}.`,
+    'No Malnutrition or Anemia': 'Counsel on feeding. Give vitamin A every 6 months.',
+    'Feeding Problem': `Counsel the mother on the feeding problems found, using the counselling points. ${followUpIn(FOLLOW_UP_DAYS['Feeding Problem'])}.`,
+    'Feeding Appropriate for Age': 'Praise the mother for feeding the child well. Counsel on feeding recommendations for the child\'s age.',
+    'Confirmed HIV Infection': 'Give cotrimoxazole prophylaxis. Refer to initiate or continue ART. Assess feeding and counsel. Assess the mother\'s health and refer for her own care. Follow up regularly as per national guidelines.',
+    'HIV Exposed': 'Give cotrimoxazole prophylaxis from 4-6 weeks of age. Give infant ARV prophylaxis as per national guidelines. Do virological test (DNA PCR) at 6 weeks or first contact. Counsel on infant feeding. Repeat HIV test 6 weeks after breastfeeding stops. Follow up in 1 month.',
+    'HIV Infection Unlikely': 'Treat, counsel and follow up existing infections. Advise mother on feeding and on her own health.',
+    'HIV Status Unknown': 'Offer HIV testing and counselling to the mother. If the mother is positive or unavailable, test the child.',
+    'Possible Serious Bacterial Infection or Very Severe Disease': 'Give first dose of intramuscular ampicillin and gentamicin. Treat to prevent low blood sugar. Advise mother how to keep the infant warm on the way to the hospital. Refer URGENTLY to hospital.',
+    'Local Bacterial Infection': `Give oral amoxicillin for 5 days. Teach mother to treat local infections at home. Advise mother to give home care for the young infant. ${followUpIn(FOLLOW_UP_DAYS['Local Bacterial Infection'])}.`,
+    'Severe Disease or Local Infection Unlikely': 'Advise mother to give home care for the young infant.',
+    'No Jaundice': 'Advise mother to give home care for the young infant.',
+    'Severe Jaundice': 'Treat to prevent low blood sugar. Advise mother how to keep the infant warm on the way to the hospital. Refer URGENTLY to hospital.',
+    'Jaundice': `Advise mother to give home care for the young infant. Advise mother to return immediately if palms and soles appear yellow. If the young infant is older than ${t.prolongedJaundiceDays} days, refer for assessment. ${followUpIn(FOLLOW_UP_DAYS['Jaundice'])}.`,
+    'Not Able to Feed - Possible Serious Bacterial Infection': 'Give first dose of intramuscular ampicillin and gentamicin. Treat to prevent low blood sugar. Advise mother how to keep the infant warm on the way to the hospital. Refer URGENTLY to hospital.',
+    'Feeding Problem or Low Weight for Age': `If not well attached or not suckling effectively, teach correct positioning and attachment. If breastfeeding less than ${t.youngInfantMinBreastfeeds} times in 24 hours, advise to increase frequency. If receiving other foods or drinks, counsel to breastfeed more and reduce other foods. If thrush, teach mother to treat thrush at home. Advise mother to give home care for the young infant. Follow up any feeding problem or thrush in ${FOLLOW_UP_DAYS['Feeding Problem or Low Weight for Age']} days. Follow up low weight for age in ${LOW_WEIGHT_FOLLOW_UP_DAYS} days.`,
+    'No Feeding Problem': 'Advise mother to give home care for the young infant. Praise the mother for feeding the infant well.',
+  };
+}
+
+// WHO generic IMNCI chart booklet
+export const BASE_PROTOCOL: IMNCIProtocol = {
+  version: 'WHO-IMNCI-2014',
+  thresholds: BASE_THRESHOLDS,
+  treatments: buildTreatments(BASE_THRESHOLDS),
+};
+
+// How an override is named in a protocol version, e.g. SL-1 or SL/Bo-2
+export function overrideLabel(override: ProtocolOverride): string {
+  return `${override.district ? `${override.country}/${override.district}` : override.country}-${override.version}`;
+}
+
+// Layer the overrides, in order, on top of the base protocol
+function applyOverrides(applicable: ProtocolOverride[], base: IMNCIProtocol): IMNCIProtocol {
+  const thresholds = applicable.reduce<ProtocolThresholds>((t, o) => ({ ...t, ...o.thresholds }), base.thresholds);
+
+  return {
+    version: applicable.reduce((version, o) => `${version}+${overrideLabel(o)}`, base.version),
+    thresholds,
+    // Treatment text follows the overridden cut-offs unless the override rewrites it
+    treatments: applicable.reduce<Record<string, string>>(
+      (treatments, o) => ({ ...treatments, ...o.treatments }),
+      { ...base.treatments, ...buildTreatments(thresholds) }
+    ),
+  };
+}
+
+// Apply the national override, then the district override, for a location on top of the base protocol
+export function resolveProtocol(
+  overrides: ProtocolOverride[],
+  location: { country: string; district?: string | null },
+  base: IMNCIProtocol = BASE_PROTOCOL
+): IMNCIProtocol {
+  const applicable = overrides
+    .filter((o) => o.country === location.country && (!o.district || o.district === location.district))
+    .sort((a, b) => Number(!!a.district) - Number(!!b.district));
+  return applyOverrides(applicable, base);
+}
+
+// Rebuild the protocol an assessment was classified under from its recorded version, using
+// overrides since retired. Null when the base or an override it names is no longer known
+export function resolveRecordedProtocol(
+  overrides: ProtocolOverride[],
+  version: string,
+  base: IMNCIProtocol = BASE_PROTOCOL
+): IMNCIProtocol | null {
+  const [baseVersion, ...labels] = version.split('+');
+  if (baseVersion !== base.version) return null;
+
+  const applied = labels.map((label) => overrides.find((o) => overrideLabel(o) === label));
+  if (applied.some((o) => !o)) return null;
+  return applyOverrides(applied as ProtocolOverride[], base);
+}
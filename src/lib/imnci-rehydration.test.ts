@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculatePlanA,
+  calculatePlanB,
+  calculatePlanC,
+  getPlanCProgress,
+  getRehydrationPlan,
+} from './imnci-rehydration';
+
+const minutes = (n: number) => n * 60 * 1000;
+
+describe('getRehydrationPlan', () => {
+  it('starts from the dehydration classification', () => {
+    expect(getRehydrationPlan('Severe Dehydration')).toBe('C');
+    expect(getRehydrationPlan('Some Dehydration')).toBe('B');
+    expect(getRehydrationPlan('No Dehydration')).toBe('A');
+    expect(getRehydrationPlan()).toBe('A');
+  });
+});
+
+describe('calculatePlanA', () => {
+  it('gives less ORS after each stool under 2 years', () => {
+    expect(calculatePlanA(18).mlAfterEachStool).toBe('50 to 100 ml');
+    expect(calculatePlanA(24).mlAfterEachStool).toBe('100 to 200 ml');
+  });
+});
+
+describe('calculatePlanB', () => {
+  it('gives 75 ml/kg when the child is weighed', () => {
+    expect(calculatePlanB(10, 8)).toEqual({ minMl: 600, maxMl: 600, basis: 'weight' });
+  });
+
+  it('uses the age band when the child is not weighed', () => {
+    expect(calculatePlanB(3)).toEqual({ minMl: 200, maxMl: 450, basis: 'age' });
+    expect(calculatePlanB(18)).toEqual({ minMl: 800, maxMl: 960, basis: 'age' });
+  });
+
+  it('uses the oldest band from 5 years', () => {
+    expect(calculatePlanB(60)).toMatchObject({ minMl: 960, maxMl: 1600 });
+  });
+});
+
+describe('calculatePlanC', () => {
+  it('runs slower for infants', () => {
+    const plan = calculatePlanC(6, 7);
+    expect(plan.phases.map((p) => p.volumeMl)).toEqual([210, 490]);
+    expect(plan.totalMinutes).toBe(360);
+    expect(plan.orsFromMinute).toBe(180);
+  });
+
+  it('runs faster from 12 months', () => {
+    const plan = calculatePlanC(24, 12);
+    expect(plan.totalMl).toBe(1200);
+    expect(plan.phases[1].startMinute).toBe(30);
+    expect(plan.totalMinutes).toBe(180);
+  });
+});
+
+describe('getPlanCProgress', () => {
+  const plan = calculatePlanC(24, 12);
+  const startedAt = '2026-03-10T08:00:00.000Z';
+  const started = new Date(startedAt).getTime();
+
+  it('tracks the current phase', () => {
+    expect(getPlanCProgress(plan, startedAt, null, started + minutes(10)).currentPhase).toBe(plan.phases[0]);
+    expect(getPlanCProgress(plan, startedAt, null, started + minutes(45)).currentPhase).toBe(plan.phases[1]);
+  });
+
+  it('is due for reassessment every 15 minutes', () => {
+    expect(getPlanCProgress(plan, startedAt, null, started + minutes(14)).reassessDue).toBe(false);
+    expect(getPlanCProgress(plan, startedAt, null, started + minutes(15)).reassessDue).toBe(true);
+  });
+
+  it('counts from the last reassessment', () => {
+    const reassessedAt = new Date(started + minutes(20)).toISOString();
+    expect(getPlanCProgress(plan, startedAt, reassessedAt, started + minutes(30)).reassessDue).toBe(false);
+    expect(getPlanCProgress(plan, startedAt, reassessedAt, started + minutes(35)).reassessDue).toBe(true);
+  });
+
+  it('ignores a reassessment from before the drip was started', () => {
+    const reassessedAt = new Date(started - minutes(60)).toISOString();
+    expect(getPlanCProgress(plan, startedAt, reassessedAt, started + minutes(15)).reassessDue).toBe(true);
+  });
+
+  it('stops reminding once the fluids are complete', () => {
+    const progress = getPlanCProgress(plan, startedAt, null, started + minutes(180));
+    expect(progress.complete).toBe(true);
+    expect(progress.reassessDue).toBe(false);
+    expect(progress.currentPhase).toBeUndefined();
+  });
+});
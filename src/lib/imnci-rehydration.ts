@@ -0,0 +1,129 @@
+// IMNCI rehydration plans A, B and C
+
+export type RehydrationPlan = 'A' | 'B' | 'C';
+
+// Plan to start from the dehydration classification
+export function getRehydrationPlan(dehydrationClassification?: string): RehydrationPlan {
+  if (dehydrationClassification === 'Severe Dehydration') return 'C';
+  if (dehydrationClassification === 'Some Dehydration') return 'B';
+  return 'A';
+}
+
+// Plan A: fluid to give at home after each loose stool, and ORS packets to take home
+export const PLAN_A_ORS_SACHETS = 2;
+
+export function calculatePlanA(ageInMonths: number): {
+  mlAfterEachStool: string;
+  sachets: number;
+} {
+  return {
+    mlAfterEachStool: ageInMonths < 24 ? '50 to 100 ml' : '100 to 200 ml',
+    sachets: PLAN_A_ORS_SACHETS,
+  };
+}
+
+// Plan B age bands, used when the child has not been weighed
+const PLAN_B_AGE_BANDS = [
+  { maxAgeMonths: 4, minMl: 200, maxMl: 450 },
+  { maxAgeMonths: 12, minMl: 450, maxMl: 800 },
+  { maxAgeMonths: 24, minMl: 800, maxMl: 960 },
+  { maxAgeMonths: 60, minMl: 960, maxMl: 1600 },
+];
+
+// Plan B: ORS to give in the clinic over 4 hours
+export function calculatePlanB(ageInMonths: number, weightKg?: number): {
+  minMl: number;
+  maxMl: number;
+  basis: 'weight' | 'age';
+} {
+  if (weightKg) {
+    const volume = Math.round(weightKg * 75);
+    return { minMl: volume, maxMl: volume, basis: 'weight' };
+  }
+  const band = PLAN_B_AGE_BANDS.find((b) => ageInMonths < b.maxAgeMonths) || PLAN_B_AGE_BANDS[PLAN_B_AGE_BANDS.length - 1];
+  return { minMl: band.minMl, maxMl: band.maxMl, basis: 'age' };
+}
+
+export interface PlanCPhase {
+  label: string;
+  mlPerKg: number;
+  volumeMl: number;
+  startMinute: number;
+  durationMinutes: number;
+}
+
+export interface PlanC {
+  phases: PlanCPhase[];
+  totalMl: number;
+  totalMinutes: number;
+  orsFromMinute: number;
+}
+
+// Reassess hydration this often while the IV drip is running
+export const PLAN_C_REASSESS_INTERVAL_MINUTES = 15;
+
+// Plan C: IV Ringer's lactate, 100 ml/kg split into two phases that run faster for older children
+export function calculatePlanC(ageInMonths: number, weightKg: number): PlanC {
+  const infant = ageInMonths < 12;
+  const firstMinutes = infant ? 60 : 30;
+  const secondMinutes = infant ? 300 : 150;
+  const phases: PlanCPhase[] = [
+    {
+      label: `30 ml/kg in ${infant ? '1 hour' : '30 minutes'}`,
+      mlPerKg: 30,
+      volumeMl: Math.round(weightKg * 30),
+      startMinute: 0,
+      durationMinutes: firstMinutes,
+    },
+    {
+      label: `70 ml/kg in ${infant ? '5 hours' : '2½ hours'}`,
+      mlPerKg: 70,
+      volumeMl: Math.round(weightKg * 70),
+      startMinute: firstMinutes,
+      durationMinutes: secondMinutes,
+    },
+  ];
+
+  return {
+    phases,
+    totalMl: phases.reduce((sum, p) => sum + p.volumeMl, 0),
+    totalMinutes: firstMinutes + secondMinutes,
+    // Start ORS (about 5 ml/kg/hour) once the child can drink
+    orsFromMinute: infant ? 180 : 60,
+  };
+}
+
+export interface PlanCProgress {
+  elapsedSeconds: number;
+  elapsedMinutes: number;
+  currentPhase?: PlanCPhase;
+  complete: boolean;
+  reassessDue: boolean;
+}
+
+// How far the IV drip has run, and whether the child is due to be reassessed
+export function getPlanCProgress(
+  planC: PlanC,
+  startedAt: string,
+  reassessedAt: string | null,
+  now: number
+): PlanCProgress {
+  const started = new Date(startedAt).getTime();
+  const elapsedSeconds = Math.max(0, Math.floor((now - started) / 1000));
+  const elapsedMinutes = Math.floor(elapsedSeconds / 60);
+  const complete = elapsedMinutes >= planC.totalMinutes;
+  // A reassessment from before this drip was started does not count
+  const lastReassessedMinute = reassessedAt
+    ? Math.max(0, Math.floor((new Date(reassessedAt).getTime() - started) / 60000))
+    : 0;
+
+  return {
+    elapsedSeconds,
+    elapsedMinutes,
+    currentPhase: planC.phases.find(
+      (p) => elapsedMinutes >= p.startMinute && elapsedMinutes < p.startMinute + p.durationMinutes
+    ),
+    complete,
+    reassessDue: !complete && elapsedMinutes - lastReassessedMinute >= PLAN_C_REASSESS_INTERVAL_MINUTES,
+  };
+}
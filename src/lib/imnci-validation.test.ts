@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest';
+import { ASSESSMENT_RANGES, setQuestion, validateAssessmentSteps } from './imnci-validation';
+
+const cough = {
+  hasCoughDifficultyBreathing: true,
+  coughDurationDays: '3',
+  breathsPerMinute: '44',
+  chestIndrawing: false,
+  stridor: false,
+  wheezing: false,
+  breathsPerMinuteAfterBronchodilator: '',
+};
+
+const diarrhea = {
+  hasDiarrhea: true,
+  diarrheaDurationDays: '2',
+  bloodInStool: false,
+  sunkenEyes: false,
+  skinPinchSlow: false,
+  skinPinchVerySlow: false,
+  restlessIrritable: false,
+  drinksEagerly: false,
+  notAbleToDrinkDiarrhea: false,
+};
+
+const ear = {
+  hasEarProblem: true,
+  earPain: false,
+  earDischarge: false,
+  earDischargeDurationDays: '',
+  tenderSwellingBehindEar: false,
+};
+
+describe('validateAssessmentSteps', () => {
+  it('accepts a complete step', () => {
+    expect(validateAssessmentSteps(['cough'], cough)).toEqual({});
+  });
+
+  it('accepts blank measurements', () => {
+    expect(validateAssessmentSteps(['fever'], { feverDurationDays: '', temperature: '' })).toEqual({});
+  });
+
+  it('rejects a value that is not a number', () => {
+    expect(validateAssessmentSteps(['cough'], { ...cough, breathsPerMinute: '5O' })).toEqual({
+      breathsPerMinute: 'Breathing rate must be a whole number',
+    });
+    expect(validateAssessmentSteps(['fever'], { feverDurationDays: '', temperature: '38,5' })).toEqual({
+      temperature: 'Temperature must be a number',
+    });
+  });
+
+  it('accepts a decimal only where the measurement allows one', () => {
+    expect(validateAssessmentSteps(['fever'], { feverDurationDays: '', temperature: ' 38.5 ' })).toEqual({});
+    expect(validateAssessmentSteps(['cough'], { ...cough, breathsPerMinute: '44.5' })).toEqual({
+      breathsPerMinute: 'Breathing rate must be a whole number',
+    });
+  });
+
+  it('rejects a value outside the physiological range', () => {
+    const { min, max } = ASSESSMENT_RANGES.temperature;
+    expect(validateAssessmentSteps(['fever'], { feverDurationDays: '', temperature: '380' })).toEqual({
+      temperature: `Temperature must be between ${min} and ${max} °C`,
+    });
+    expect(validateAssessmentSteps(['fever'], { feverDurationDays: '', temperature: String(max) })).toEqual({});
+    expect(validateAssessmentSteps(['cough'], { ...cough, breathsPerMinute: '600' })).toEqual({
+      breathsPerMinute: 'Breathing rate must be between 10 and 120 breaths/min',
+    });
+  });
+
+  it('accepts a step once its question is answered no', () => {
+    const noCough = setQuestion({ ...cough, breathsPerMinute: '600' }, 'hasCoughDifficultyBreathing', false);
+    expect(validateAssessmentSteps(['cough'], noCough)).toEqual({});
+  });
+
+  it('rejects a skin pinch that is both slow and very slow', () => {
+    expect(validateAssessmentSteps(['diarrhea'], { ...diarrhea, skinPinchSlow: true, skinPinchVerySlow: true })).toEqual({
+      skinPinchVerySlow: 'The skin pinch goes back either slowly or very slowly, not both',
+    });
+  });
+
+  it('keeps the first error for a field shared by several steps', () => {
+    const errors = validateAssessmentSteps(['fever', 'infant_infection'], {
+      feverDurationDays: '',
+      temperature: 'hot',
+      breathsPerMinute: '',
+    });
+    expect(errors).toEqual({ temperature: 'Temperature must be a number' });
+  });
+
+  it('collects errors across steps', () => {
+    const errors = validateAssessmentSteps(['nutrition', 'feeding'], {
+      weightKg: '120',
+      lengthHeightCm: '',
+      muacMeasurement: '11.5',
+      breastfeedsPerDay: '',
+      mealsPerDay: 'three',
+    });
+    expect(errors).toEqual({
+      weightKg: 'Weight must be between 0.5 and 50 kg',
+      mealsPerDay: 'Meals per day must be a whole number',
+    });
+  });
+
+  it('ignores steps without inputs to check', () => {
+    expect(validateAssessmentSteps(['danger', 'summary'], {})).toEqual({});
+  });
+});
+
+describe('setQuestion', () => {
+  it('clears the findings hidden under a question answered no', () => {
+    expect(setQuestion(cough, 'hasCoughDifficultyBreathing', false)).toEqual({
+      hasCoughDifficultyBreathing: false,
+      coughDurationDays: '',
+      breathsPerMinute: '',
+      chestIndrawing: false,
+      stridor: false,
+      wheezing: false,
+      breathsPerMinuteAfterBronchodilator: '',
+    });
+  });
+
+  it('clears the discharge duration with the ear problem', () => {
+    const answered = { ...ear, earDischarge: true, earDischargeDurationDays: '10' };
+    expect(setQuestion(answered, 'hasEarProblem', false)).toMatchObject({
+      earDischarge: false,
+      earDischargeDurationDays: '',
+    });
+  });
+
+  it('keeps the findings when a question is answered yes', () => {
+    const answered = { ...diarrhea, hasDiarrhea: false, sunkenEyes: true };
+    expect(setQuestion(answered, 'hasDiarrhea', true)).toEqual({ ...answered, hasDiarrhea: true });
+  });
+});
@@ -0,0 +1,178 @@
+// Validation of the assessment wizard inputs: number formats, physiological ranges and
+// signs that only make sense together
+
+import { z } from 'zod';
+
+export type StepErrors = Record<string, string>;
+
+// Accepted ranges for measured values
+export const ASSESSMENT_RANGES = {
+  breathsPerMinute: { min: 10, max: 120 },
+  temperature: { min: 32, max: 43 },
+  muac: { min: 6, max: 25 },
+  durationDays: { min: 0, max: 90 },
+};
+
+// A number typed into a text input: blank is allowed, "5O" or "600" is not
+const measurement = (
+  label: string,
+  range: { min: number; max: number },
+  options: { integer?: boolean; unit?: string } = {}
+) =>
+  z
+    .string()
+    .trim()
+    .superRefine((value, ctx) => {
+      if (value === '') return;
+      const pattern = options.integer ? /^\d+$/ : /^\d+(\.\d+)?$/;
+      if (!pattern.test(value)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: options.integer ? `${label} must be a whole number` : `${label} must be a number`,
+        });
+        return;
+      }
+      const number = Number(value);
+      if (number < range.min || number > range.max) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `${label} must be between ${range.min} and ${range.max}${options.unit ? ` ${options.unit}` : ''}`,
+        });
+      }
+    });
+
+const count = (label: string) => measurement(label, { min: 0, max: 99 }, { integer: true });
+const duration = (label: string) =>
+  measurement(label, ASSESSMENT_RANGES.durationDays, { integer: true, unit: 'days' });
+const breathing = (label: string) =>
+  measurement(label, ASSESSMENT_RANGES.breathsPerMinute, { integer: true, unit: 'breaths/min' });
+const temperature = measurement('Temperature', ASSESSMENT_RANGES.temperature, { unit: '°C' });
+
+// Findings asked only once the question that leads to them is answered yes
+export const DEPENDENT_FIELDS: Record<string, string[]> = {
+  hasCoughDifficultyBreathing: [
+    'coughDurationDays',
+    'breathsPerMinute',
+    'chestIndrawing',
+    'stridor',
+    'wheezing',
+    'breathsPerMinuteAfterBronchodilator',
+  ],
+  hasDiarrhea: [
+    'diarrheaDurationDays',
+    'bloodInStool',
+    'sunkenEyes',
+    'skinPinchSlow',
+    'skinPinchVerySlow',
+    'restlessIrritable',
+    'drinksEagerly',
+    'notAbleToDrinkDiarrhea',
+  ],
+  hasEarProblem: ['earPain', 'earDischarge', 'earDischargeDurationDays', 'tenderSwellingBehindEar'],
+  earDischarge: ['earDischargeDurationDays'],
+};
+
+// Set a yes/no question. Answering no clears the findings hidden under it, so they are
+// neither saved nor classified
+export function setQuestion<T extends Record<string, unknown>>(formData: T, question: string, checked: boolean): T {
+  const next: Record<string, unknown> = { ...formData, [question]: checked };
+  if (!checked) {
+    (DEPENDENT_FIELDS[question] || []).forEach((field) => {
+      next[field] = typeof formData[field] === 'boolean' ? false : '';
+    });
+  }
+  return next as T;
+}
+
+const coughSchema = z.object({
+  hasCoughDifficultyBreathing: z.boolean(),
+  coughDurationDays: duration('Cough duration'),
+  breathsPerMinute: breathing('Breathing rate'),
+  chestIndrawing: z.boolean(),
+  stridor: z.boolean(),
+  wheezing: z.boolean(),
+  breathsPerMinuteAfterBronchodilator: breathing('Breathing rate after bronchodilator'),
+});
+
+const diarrheaSchema = z
+  .object({
+    hasDiarrhea: z.boolean(),
+    diarrheaDurationDays: duration('Diarrhea duration'),
+    bloodInStool: z.boolean(),
+    sunkenEyes: z.boolean(),
+    skinPinchSlow: z.boolean(),
+    skinPinchVerySlow: z.boolean(),
+    restlessIrritable: z.boolean(),
+    drinksEagerly: z.boolean(),
+    notAbleToDrinkDiarrhea: z.boolean(),
+  })
+  .superRefine((data, ctx) => {
+    if (data.skinPinchSlow && data.skinPinchVerySlow) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['skinPinchVerySlow'],
+        message: 'The skin pinch goes back either slowly or very slowly, not both',
+      });
+    }
+  });
+
+const feverSchema = z.object({
+  feverDurationDays: duration('Fever duration'),
+  temperature,
+});
+
+const earSchema = z.object({
+  earDischargeDurationDays: duration('Ear discharge duration'),
+});
+
+const anthropometrySchema = {
+  weightKg: measurement('Weight', { min: 0.5, max: 50 }, { unit: 'kg' }),
+  lengthHeightCm: measurement('Length/height', { min: 35, max: 130 }, { unit: 'cm' }),
+};
+
+const nutritionSchema = z.object({
+  ...anthropometrySchema,
+  muacMeasurement: measurement('MUAC', ASSESSMENT_RANGES.muac, { unit: 'cm' }),
+});
+
+const feedingSchema = z.object({
+  breastfeedsPerDay: count('Breastfeeds per day'),
+  mealsPerDay: count('Meals per day'),
+});
+
+const infantInfectionSchema = z.object({
+  breathsPerMinute: breathing('Breathing rate'),
+  temperature,
+});
+
+const infantFeedingSchema = z.object({
+  ...anthropometrySchema,
+  breastfeedsPerDay: count('Breastfeeds per day'),
+});
+
+const STEP_SCHEMAS: Record<string, z.ZodTypeAny> = {
+  cough: coughSchema,
+  diarrhea: diarrheaSchema,
+  fever: feverSchema,
+  ear: earSchema,
+  nutrition: nutritionSchema,
+  feeding: feedingSchema,
+  infant_infection: infantInfectionSchema,
+  infant_feeding: infantFeedingSchema,
+};
+
+// First error for each field across the given steps; empty when the steps can be saved
+export function validateAssessmentSteps(stepIds: string[], formData: Record<string, unknown>): StepErrors {
+  const errors: StepErrors = {};
+  stepIds.forEach((stepId) => {
+    const schema = STEP_SCHEMAS[stepId];
+    if (!schema) return;
+    const result = schema.safeParse(formData);
+    if (result.success) return;
+    result.error.errors.forEach((issue) => {
+      const field = String(issue.path[0]);
+      if (!errors[field]) errors[field] = issue.message;
+    });
+  });
+  return errors;
+}
@@ -0,0 +1,37 @@
+// Malaria risk stratification of facilities and districts
+
+export type MalariaRisk = 'high' | 'low' | 'none';
+
+// A configured risk level for a district, or for a single facility within it
+export interface MalariaRiskArea {
+  district: string;
+  facility_name?: string | null;
+  risk_level: MalariaRisk;
+}
+
+// Areas that have not been stratified are managed as high risk
+export const DEFAULT_MALARIA_RISK: MalariaRisk = 'high';
+
+export const MALARIA_RISK_LABELS: Record<MalariaRisk, string> = {
+  high: 'High malaria risk',
+  low: 'Low malaria risk',
+  none: 'No malaria risk',
+};
+
+// A facility-level entry takes precedence over the district-wide one
+export function resolveMalariaRisk(
+  areas: MalariaRiskArea[],
+  location: { district?: string | null; facilityName?: string | null }
+): MalariaRisk {
+  const facility = location.facilityName
+    ? areas.find((a) => a.facility_name === location.facilityName)
+    : undefined;
+  if (facility) return facility.risk_level;
+  const district = areas.find((a) => !a.facility_name && a.district === location.district);
+  return district?.risk_level ?? DEFAULT_MALARIA_RISK;
+}
+
+// Travel to a malaria area in the last 2 weeks raises a low or no risk area to high risk
+export function getEffectiveMalariaRisk(areaRisk: MalariaRisk, travelledToMalariaArea: boolean): MalariaRisk {
+  return travelledToMalariaArea ? 'high' : areaRisk;
+}
@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DOB_TOLERANCE_DAYS,
+  findDuplicatePatients,
+  levenshtein,
+  normalizePhone,
+  scorePatientMatch,
+  soundex,
+  type PatientCandidate,
+  type PatientMatchInput,
+} from './patient-matching';
+
+const registered = (overrides: Partial<PatientCandidate> = {}): PatientCandidate => ({
+  id: 'patient-1',
+  first_name: 'Fatmata',
+  last_name: 'Kamara',
+  date_of_birth: '2024-05-10',
+  guardian_name: 'Aminata Kamara',
+  guardian_phone: '+232 76 123456',
+  registration_number: 'PHU-0001',
+  profile_picture_url: null,
+  ...overrides,
+});
+
+const input: PatientMatchInput = {
+  firstName: 'Fatmata',
+  lastName: 'Kamara',
+  dateOfBirth: '2024-05-10',
+  guardianName: 'Aminata Kamara',
+  guardianPhone: '076123456',
+};
+
+describe('soundex', () => {
+  it('gives names that sound alike the same code', () => {
+    expect(soundex('Kamara')).toBe('K560');
+    expect(soundex('Kamarah')).toBe(soundex('Kamara'));
+  });
+
+  it('does not separate letters with the same code by h or w', () => {
+    expect(soundex('Ashcraft')).toBe('A261');
+  });
+
+  it('is empty without letters', () => {
+    expect(soundex('')).toBe('');
+    expect(soundex('123')).toBe('');
+  });
+});
+
+describe('levenshtein', () => {
+  it('counts the edits between two names', () => {
+    expect(levenshtein('fatmata', 'fatmata')).toBe(0);
+    expect(levenshtein('fatmata', 'fatmatta')).toBe(1);
+    expect(levenshtein('kitten', 'sitting')).toBe(3);
+    expect(levenshtein('', 'abu')).toBe(3);
+  });
+});
+
+describe('normalizePhone', () => {
+  it('compares the international and local forms of a number equal', () => {
+    expect(normalizePhone('+232 76 123456')).toBe(normalizePhone('076-123-456'));
+    expect(normalizePhone('+232 76 123456')).toBe('76123456');
+  });
+});
+
+describe('scorePatientMatch', () => {
+  it('scores a child registered with the same details', () => {
+    const match = scorePatientMatch(registered(), input);
+    expect(match.score).toBe(12);
+    expect(match.reasons).toEqual(['Same name', 'Same date of birth', 'Same caregiver', 'Same caregiver phone']);
+  });
+
+  it('counts a similar spelling of the name', () => {
+    const match = scorePatientMatch(registered({ last_name: 'Kamarah' }), { ...input, guardianPhone: '' });
+    expect(match.score).toBe(8);
+    expect(match.reasons).toContain('Similar name');
+  });
+
+  it('matches names recorded the other way round', () => {
+    const match = scorePatientMatch(registered({ first_name: 'Kamara', last_name: 'Fatmata' }), input);
+    expect(match.reasons[0]).toBe('Same name');
+  });
+
+  it('allows an estimated date of birth', () => {
+    const within = scorePatientMatch(registered({ date_of_birth: '2024-08-08' }), input);
+    expect(within.reasons).toContain(`Born ${DOB_TOLERANCE_DAYS} days apart`);
+    const beyond = scorePatientMatch(registered({ date_of_birth: '2024-08-09' }), input);
+    expect(beyond.reasons.some((r) => r.startsWith('Born'))).toBe(false);
+  });
+
+  it('does not match a sibling sharing only the family name, caregiver and phone', () => {
+    const sibling = registered({ first_name: 'Ibrahim', date_of_birth: '2022-01-15' });
+    expect(scorePatientMatch(sibling, input).score).toBe(0);
+  });
+
+  it('ignores a phone number too short to compare', () => {
+    const match = scorePatientMatch(registered({ guardian_phone: '12345' }), { ...input, guardianPhone: '12345' });
+    expect(match.reasons).not.toContain('Same caregiver phone');
+  });
+});
+
+describe('findDuplicatePatients', () => {
+  const candidates = [
+    registered({ id: 'similar', last_name: 'Kamarah', date_of_birth: '2024-06-01', guardian_phone: null }),
+    registered({ id: 'same' }),
+    registered({ id: 'sibling', first_name: 'Ibrahim' }),
+    registered({ id: 'name-only', date_of_birth: '2020-01-01', guardian_name: 'Mariama Sesay', guardian_phone: null }),
+  ];
+
+  it('lists likely duplicates best match first', () => {
+    expect(findDuplicatePatients(candidates, input).map((m) => m.patient.id)).toEqual(['same', 'similar']);
+  });
+
+  it('leaves out matches below the threshold', () => {
+    const ids = findDuplicatePatients(candidates, input).map((m) => m.patient.id);
+    expect(ids).not.toContain('sibling');
+    expect(ids).not.toContain('name-only');
+  });
+
+  it('returns at most the limit', () => {
+    expect(findDuplicatePatients(candidates, input, 1).map((m) => m.patient.id)).toEqual(['same']);
+  });
+});
@@ -0,0 +1,146 @@
+// Finding patients already registered under a slightly different spelling, date of birth or phone,
+// so a child without their card is not registered twice
+
+import { differenceInDays, parseISO } from 'date-fns';
+
+// Caregivers often estimate the date of birth, so it can be off by a few months between visits
+export const DOB_TOLERANCE_DAYS = 90;
+
+// Score at which a registered patient is shown as a possible duplicate
+const MATCH_THRESHOLD = 5;
+
+export interface PatientMatchInput {
+  firstName: string;
+  lastName: string;
+  dateOfBirth: string;
+  guardianName: string;
+  guardianPhone?: string;
+}
+
+export interface PatientCandidate {
+  id: string;
+  first_name: string;
+  last_name: string;
+  date_of_birth: string;
+  guardian_name: string;
+  guardian_phone: string | null;
+  registration_number: string;
+  profile_picture_url: string | null;
+}
+
+export interface PatientMatch {
+  patient: PatientCandidate;
+  score: number;
+  reasons: string[];
+}
+
+const normalize = (name: string) => name.toLowerCase().replace(/[^a-z]/g, '');
+
+// Last 8 digits, so +232 and leading 0 forms of the same number compare equal
+export const normalizePhone = (phone: string) => phone.replace(/\D/g, '').slice(-8);
+
+// American Soundex: names that sound alike share a code, e.g. "Kamara" and "Kamarah"
+export function soundex(name: string): string {
+  const letters = normalize(name);
+  if (!letters) return '';
+  const codes: Record<string, string> = {
+    b: '1', f: '1', p: '1', v: '1',
+    c: '2', g: '2', j: '2', k: '2', q: '2', s: '2', x: '2', z: '2',
+    d: '3', t: '3',
+    l: '4',
+    m: '5', n: '5',
+    r: '6',
+  };
+  let result = letters[0].toUpperCase();
+  let previous = codes[letters[0]] || '';
+  for (const letter of letters.slice(1)) {
+    const code = codes[letter] || '';
+    if (code && code !== previous) result += code;
+    // h and w do not separate letters with the same code
+    if (letter !== 'h' && letter !== 'w') previous = code;
+    if (result.length === 4) break;
+  }
+  return result.padEnd(4, '0');
+}
+
+export function levenshtein(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return row[b.length];
+}
+
+// 2 for the same name, 1 for one that sounds alike or is a typo away, 0 otherwise
+// (find_patient_candidates in the database must keep returning every name this scores above 0)
+function nameScore(a: string, b: string): number {
+  const x = normalize(a);
+  const y = normalize(b);
+  if (!x || !y) return 0;
+  if (x === y) return 2;
+  const allowedEdits = Math.max(1, Math.floor(Math.max(x.length, y.length) / 4));
+  if (soundex(x) === soundex(y) || levenshtein(x, y) <= allowedEdits) return 1;
+  return 0;
+}
+
+export function scorePatientMatch(candidate: PatientCandidate, input: PatientMatchInput): PatientMatch {
+  const reasons: string[] = [];
+  let score = 0;
+
+  // Names are sometimes recorded the other way round. A shared family name alone is a sibling,
+  // so the given name has to match too
+  const orders = [
+    [nameScore(candidate.first_name, input.firstName), nameScore(candidate.last_name, input.lastName)],
+    [nameScore(candidate.first_name, input.lastName), nameScore(candidate.last_name, input.firstName)],
+  ];
+  const names = Math.max(...orders.map(([given, family]) => (given > 0 ? given + family : 0)));
+  if (names > 0) {
+    score += names;
+    reasons.push(names === 4 ? 'Same name' : 'Similar name');
+  }
+
+  if (input.dateOfBirth) {
+    const days = Math.abs(differenceInDays(parseISO(candidate.date_of_birth), parseISO(input.dateOfBirth)));
+    if (days === 0) {
+      score += 3;
+      reasons.push('Same date of birth');
+    } else if (days <= DOB_TOLERANCE_DAYS) {
+      score += 2;
+      reasons.push(`Born ${days} days apart`);
+    }
+  }
+
+  const guardian = nameScore(candidate.guardian_name, input.guardianName);
+  if (guardian > 0) {
+    score += guardian;
+    reasons.push(guardian === 2 ? 'Same caregiver' : 'Similar caregiver name');
+  }
+
+  const phone = input.guardianPhone ? normalizePhone(input.guardianPhone) : '';
+  if (phone.length >= 6 && candidate.guardian_phone && normalizePhone(candidate.guardian_phone) === phone) {
+    score += 3;
+    reasons.push('Same caregiver phone');
+  }
+
+  // Without the child's name a shared caregiver, phone or birthday is another child
+  return { patient: candidate, score: names > 0 ? score : 0, reasons };
+}
+
+// Likely duplicates, best match first
+export function findDuplicatePatients(
+  candidates: PatientCandidate[],
+  input: PatientMatchInput,
+  limit = 5
+): PatientMatch[] {
+  return candidates
+    .map((candidate) => scorePatientMatch(candidate, input))
+    .filter((match) => match.score >= MATCH_THRESHOLD)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
@@ -0,0 +1,69 @@
+// Prescription orders raised from the assessment doses and filled at the pharmacy
+
+import type { DosingRegimen } from './imnci-dosing';
+
+export type PrescriptionStatus = 'pending' | 'partially_filled' | 'filled' | 'out_of_stock' | 'closed';
+
+export const PRESCRIPTION_STATUS_LABELS: Record<PrescriptionStatus, string> = {
+  pending: 'Pending',
+  partially_filled: 'Partly filled',
+  filled: 'Filled',
+  out_of_stock: 'Out of stock',
+  closed: 'Closed',
+};
+
+export type PrescriptionQueue = 'waiting' | 'out_of_stock';
+
+// Orders the pharmacy can still fill, and those held up for stock. Filled and closed orders leave the queue
+export const PRESCRIPTION_QUEUES: Record<PrescriptionQueue, { label: string; statuses: PrescriptionStatus[] }> = {
+  waiting: { label: 'Waiting', statuses: ['pending', 'partially_filled'] },
+  out_of_stock: { label: 'Out of stock', statuses: ['out_of_stock'] },
+};
+
+export interface PrescriptionLine {
+  medication_id: string | null;
+  drug_name: string;
+  dose: string;
+  frequency: string;
+  duration: string;
+  quantity: number;
+}
+
+// Doses given in a day for the regimen frequencies used in the dosing tables
+const DOSES_PER_DAY: Record<string, number> = {
+  'once': 1,
+  'once daily': 1,
+  'twice daily': 2,
+  'every 6 hours when needed': 4,
+};
+
+// "1/2 tablet" -> 0.5, "2 tablets" -> 2
+function parseDoseAmount(dose: string): number {
+  const match = dose.match(/^(\d+)(?:\/(\d+))?/);
+  if (!match) return 1;
+  return match[2] ? Number(match[1]) / Number(match[2]) : Number(match[1]);
+}
+
+// Doses in the whole course
+export function countDoses(regimen: Pick<DosingRegimen, 'frequency' | 'duration'>): number {
+  const frequency = regimen.frequency.toLowerCase();
+  const days = Number(regimen.duration.match(/^(\d+) days?/)?.[1]) || 1;
+  return frequency === 'once' ? 1 : (DOSES_PER_DAY[frequency] ?? 1) * days;
+}
+
+// Tablets or capsules for the whole course; liquids measured in ml are a single bottle
+export function calculateQuantity(regimen: DosingRegimen): number {
+  if (/ml\b/i.test(regimen.dose)) return 1;
+  return Math.max(1, Math.ceil(parseDoseAmount(regimen.dose) * countDoses(regimen)));
+}
+
+export function prescriptionLinesFromRegimens(regimens: DosingRegimen[]): PrescriptionLine[] {
+  return regimens.map((regimen) => ({
+    medication_id: regimen.medicationId || null,
+    drug_name: regimen.formulation,
+    dose: regimen.dose,
+    frequency: regimen.frequency,
+    duration: regimen.duration,
+    quantity: calculateQuantity(regimen),
+  }));
+}
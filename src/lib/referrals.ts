@@ -0,0 +1,56 @@
+// Referral destinations and numbering shared by the referral form and the assessment wizard
+
+import type { ClassificationResult } from './imnci-classification';
+import type { PreReferralRecord } from './imnci-prereferral';
+
+export const REFERRAL_FACILITIES = [
+  'Bo Government Hospital',
+  'Connaught Hospital, Freetown',
+  'Princess Christian Maternity Hospital',
+  'Ola During Children\'s Hospital',
+  'Kenema Government Hospital',
+  'Makeni Government Hospital',
+  'Port Loko Government Hospital',
+  'Moyamba Government Hospital',
+  'Pujehun Government Hospital',
+  'Kailahun Government Hospital',
+];
+
+export function generateReferralNumber(): string {
+  const prefix = 'REF';
+  const date = new Date().toISOString().slice(2, 10).replace(/-/g, '');
+  const random = Math.random().toString(36).substring(2, 6).toUpperCase();
+  return `${prefix}-${date}-${random}`;
+}
+
+// Referral notes: each classification needing referral with the findings behind it, then
+// the pre-referral treatment checklist
+export function formatReferralNotes(
+  classifications: ClassificationResult[],
+  preReferral: PreReferralRecord[],
+  intro?: string
+): string {
+  const sections: string[] = [];
+  if (intro) sections.push(intro);
+
+  const findings = classifications
+    .filter((c) => c.requiresReferral)
+    .map((c) => {
+      const evidence = (c.evidence || [])
+        .map((e) => (e.threshold ? `${e.finding} (${e.threshold})` : e.finding))
+        .join('; ');
+      return `- ${c.classification}${evidence ? `: ${evidence}` : ''}`;
+    });
+  if (findings.length > 0) sections.push(['Findings:', ...findings].join('\n'));
+
+  const others = classifications.filter((c) => !c.requiresReferral).map((c) => c.classification);
+  if (others.length > 0) sections.push(`Also classified: ${others.join(', ')}`);
+
+  if (preReferral.length > 0) {
+    sections.push(
+      ['Pre-referral treatment:', ...preReferral.map((item) => `- [${item.given ? 'x' : ' '}] ${item.label}`)].join('\n')
+    );
+  }
+
+  return sections.join('\n\n');
+}
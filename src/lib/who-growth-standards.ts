@@ -0,0 +1,222 @@
+// WHO Child Growth Standards (2006) LMS reference values, from the WHO published z-score tables
+
+// [age in months or length/height in cm, L, M, S]
+export type LmsRow = [number, number, number, number];
+
+// Weight-for-age, boys, 0 to 60 months
+export const WEIGHT_FOR_AGE_BOYS: LmsRow[] = [
+  [0, 0.3487, 3.3464, 0.14602], [1, 0.2297, 4.4709, 0.13395], [2, 0.197, 5.5675, 0.12385], [3, 0.1738, 6.3762, 0.11727],
+  [4, 0.1553, 7.0023, 0.11316], [5, 0.1395, 7.5105, 0.1108], [6, 0.1257, 7.934, 0.10958], [7, 0.1134, 8.297, 0.10902],
+  [8, 0.1021, 8.6151, 0.10882], [9, 0.0917, 8.9014, 0.10881], [10, 0.082, 9.1649, 0.10891], [11, 0.073, 9.4122, 0.10906],
+  [12, 0.0644, 9.6479, 0.10925], [13, 0.0563, 9.8749, 0.10949], [14, 0.0487, 10.0953, 0.10976], [15, 0.0413, 10.3108, 0.11007],
+  [16, 0.0343, 10.5228, 0.11041], [17, 0.0275, 10.7319, 0.11079], [18, 0.0211, 10.9385, 0.11119], [19, 0.0148, 11.143, 0.11164],
+  [20, 0.0087, 11.3462, 0.11211], [21, 0.0029, 11.5486, 0.11261], [22, -0.0028, 11.7504, 0.11314], [23, -0.0083, 11.9514, 0.11369],
+  [24, -0.0137, 12.1515, 0.11426], [25, -0.0189, 12.3502, 0.11485], [26, -0.024, 12.5466, 0.11544], [27, -0.0289, 12.7401, 0.11604],
+  [28, -0.0337, 12.9303, 0.11664], [29, -0.0385, 13.1169, 0.11723], [30, -0.0431, 13.3, 0.11781], [31, -0.0476, 13.4798, 0.11839],
+  [32, -0.052, 13.6567, 0.11896], [33, -0.0564, 13.8309, 0.11953], [34, -0.0606, 14.0031, 0.12008], [35, -0.0648, 14.1736, 0.12062],
+  [36, -0.0689, 14.3429, 0.12116], [37, -0.0729, 14.5113, 0.12168], [38, -0.0769, 14.6791, 0.1222], [39, -0.0808, 14.8466, 0.12271],
+  [40, -0.0846, 15.014, 0.12322], [41, -0.0883, 15.1813, 0.12373], [42, -0.092, 15.3486, 0.12425], [43, -0.0957, 15.5158, 0.12478],
+  [44, -0.0993, 15.6828, 0.12531], [45, -0.1028, 15.8497, 0.12586], [46, -0.1063, 16.0163, 0.12643], [47, -0.1097, 16.1827, 0.127],
+  [48, -0.1131, 16.3489, 0.12759], [49, -0.1165, 16.515, 0.12819], [50, -0.1198, 16.6811, 0.1288], [51, -0.123, 16.8471, 0.12943],
+  [52, -0.1262, 17.0132, 0.13005], [53, -0.1294, 17.1792, 0.13069], [54, -0.1325, 17.3452, 0.13133], [55, -0.1356, 17.5111, 0.13197],
+  [56, -0.1387, 17.6768, 0.13261], [57, -0.1417, 17.8422, 0.13325], [58, -0.1447, 18.0073, 0.13389], [59, -0.1477, 18.1722, 0.13453],
+  [60, -0.1506, 18.3366, 0.13517],
+];
+
+// Length/height-for-age, boys, 0 to 60 months
+export const LENGTH_HEIGHT_FOR_AGE_BOYS: LmsRow[] = [
+  [0, 1, 49.8842, 0.03795], [1, 1, 54.7244, 0.03557], [2, 1, 58.4249, 0.03424], [3, 1, 61.4292, 0.03328],
+  [4, 1, 63.886, 0.03257], [5, 1, 65.9026, 0.03204], [6, 1, 67.6236, 0.03165], [7, 1, 69.1645, 0.03139],
+  [8, 1, 70.5994, 0.03124], [9, 1, 71.9687, 0.03117], [10, 1, 73.2812, 0.03118], [11, 1, 74.5388, 0.03125],
+  [12, 1, 75.7488, 0.03137], [13, 1, 76.9186, 0.03154], [14, 1, 78.0497, 0.03174], [15, 1, 79.1458, 0.03197],
+  [16, 1, 80.2113, 0.03222], [17, 1, 81.2487, 0.0325], [18, 1, 82.2587, 0.03279], [19, 1, 83.2418, 0.0331],
+  [20, 1, 84.1996, 0.03342], [21, 1, 85.1348, 0.03376], [22, 1, 86.0477, 0.0341], [23, 1, 86.941, 0.03445],
+  [24, 1, 87.1161, 0.03507], [25, 1, 87.972, 0.03542], [26, 1, 88.8065, 0.03576], [27, 1, 89.6197, 0.0361],
+  [28, 1, 90.412, 0.03642], [29, 1, 91.1828, 0.03674], [30, 1, 91.9327, 0.03704], [31, 1, 92.6631, 0.03733],
+  [32, 1, 93.3753, 0.03761], [33, 1, 94.0711, 0.03787], [34, 1, 94.7532, 0.03812], [35, 1, 95.4236, 0.03836],
+  [36, 1, 96.0835, 0.03858], [37, 1, 96.7337, 0.03879], [38, 1, 97.3749, 0.039], [39, 1, 98.0073, 0.03919],
+  [40, 1, 98.631, 0.03937], [41, 1, 99.2459, 0.03954], [42, 1, 99.8515, 0.03971], [43, 1, 100.4485, 0.03986],
+  [44, 1, 101.0374, 0.04002], [45, 1, 101.6186, 0.04016], [46, 1, 102.1933, 0.04031], [47, 1, 102.7625, 0.04045],
+  [48, 1, 103.3273, 0.04059], [49, 1, 103.8886, 0.04073], [50, 1, 104.4473, 0.04086], [51, 1, 105.0041, 0.041],
+  [52, 1, 105.5596, 0.04113], [53, 1, 106.1138, 0.04126], [54, 1, 106.6668, 0.04139], [55, 1, 107.2188, 0.04152],
+  [56, 1, 107.7697, 0.04165], [57, 1, 108.3198, 0.04177], [58, 1, 108.8689, 0.0419], [59, 1, 109.417, 0.04202],
+  [60, 1, 109.9638, 0.04214],
+];
+
+// Weight-for-length, boys, 45 to 110 cm (children under 2 years)
+export const WEIGHT_FOR_LENGTH_BOYS: LmsRow[] = [
+  [45, -0.3521, 2.441, 0.09182], [45.5, -0.3521, 2.5244, 0.09153], [46, -0.3521, 2.6077, 0.09124], [46.5, -0.3521, 2.6913, 0.09094],
+  [47, -0.3521, 2.7755, 0.09065], [47.5, -0.3521, 2.8609, 0.09036], [48, -0.3521, 2.948, 0.09007], [48.5, -0.3521, 3.0377, 0.08977],
+  [49, -0.3521, 3.1308, 0.08948], [49.5, -0.3521, 3.2276, 0.08919], [50, -0.3521, 3.3278, 0.0889], [50.5, -0.3521, 3.4311, 0.08861],
+  [51, -0.3521, 3.5376, 0.08831], [51.5, -0.3521, 3.6477, 0.08801], [52, -0.3521, 3.762, 0.08771], [52.5, -0.3521, 3.8814, 0.08741],
+  [53, -0.3521, 4.006, 0.08711], [53.5, -0.3521, 4.1354, 0.08681], [54, -0.3521, 4.2693, 0.08651], [54.5, -0.3521, 4.4066, 0.08621],
+  [55, -0.3521, 4.5467, 0.08592], [55.5, -0.3521, 4.6892, 0.08563], [56, -0.3521, 4.8338, 0.08535], [56.5, -0.3521, 4.9796, 0.08507],
+  [57, -0.3521, 5.1259, 0.08481], [57.5, -0.3521, 5.2721, 0.08455], [58, -0.3521, 5.418, 0.0843], [58.5, -0.3521, 5.5632, 0.08406],
+  [59, -0.3521, 5.7074, 0.08383], [59.5, -0.3521, 5.8501, 0.08362], [60, -0.3521, 5.9907, 0.08342], [60.5, -0.3521, 6.1284, 0.08324],
+  [61, -0.3521, 6.2632, 0.08308], [61.5, -0.3521, 6.3954, 0.08292], [62, -0.3521, 6.5251, 0.08279], [62.5, -0.3521, 6.6527, 0.08266],
+  [63, -0.3521, 6.7786, 0.08255], [63.5, -0.3521, 6.9028, 0.08245], [64, -0.3521, 7.0255, 0.08236], [64.5, -0.3521, 7.1467, 0.08229],
+  [65, -0.3521, 7.2666, 0.08223], [65.5, -0.3521, 7.3854, 0.08218], [66, -0.3521, 7.5034, 0.08215], [66.5, -0.3521, 7.6206, 0.08213],
+  [67, -0.3521, 7.737, 0.08212], [67.5, -0.3521, 7.8526, 0.08212], [68, -0.3521, 7.9674, 0.08214], [68.5, -0.3521, 8.0816, 0.08216],
+  [69, -0.3521, 8.1955, 0.08219], [69.5, -0.3521, 8.3092, 0.08224], [70, -0.3521, 8.4227, 0.08229], [70.5, -0.3521, 8.5358, 0.08235],
+  [71, -0.3521, 8.648, 0.08241], [71.5, -0.3521, 8.7594, 0.08248], [72, -0.3521, 8.8697, 0.08254], [72.5, -0.3521, 8.9788, 0.08262],
+  [73, -0.3521, 9.0865, 0.08269], [73.5, -0.3521, 9.1927, 0.08276], [74, -0.3521, 9.2974, 0.08283], [74.5, -0.3521, 9.401, 0.08289],
+  [75, -0.3521, 9.5032, 0.08295], [75.5, -0.3521, 9.6041, 0.08301], [76, -0.3521, 9.7033, 0.08307], [76.5, -0.3521, 9.8007, 0.08311],
+  [77, -0.3521, 9.8963, 0.08314], [77.5, -0.3521, 9.9902, 0.08317], [78, -0.3521, 10.0827, 0.08318], [78.5, -0.3521, 10.1741, 0.08318],
+  [79, -0.3521, 10.2649, 0.08316], [79.5, -0.3521, 10.3558, 0.08313], [80, -0.3521, 10.4475, 0.08308], [80.5, -0.3521, 10.5405, 0.08301],
+  [81, -0.3521, 10.6352, 0.08293], [81.5, -0.3521, 10.7322, 0.08284], [82, -0.3521, 10.8321, 0.08273], [82.5, -0.3521, 10.935, 0.0826],
+  [83, -0.3521, 11.0415, 0.08246], [83.5, -0.3521, 11.1516, 0.08231], [84, -0.3521, 11.2651, 0.08215], [84.5, -0.3521, 11.3817, 0.08198],
+  [85, -0.3521, 11.5007, 0.08181], [85.5, -0.3521, 11.6218, 0.08163], [86, -0.3521, 11.7444, 0.08145], [86.5, -0.3521, 11.8678, 0.08128],
+  [87, -0.3521, 11.9916, 0.08111], [87.5, -0.3521, 12.1152, 0.08096], [88, -0.3521, 12.2382, 0.08082], [88.5, -0.3521, 12.3603, 0.08069],
+  [89, -0.3521, 12.4815, 0.08058], [89.5, -0.3521, 12.6017, 0.08048], [90, -0.3521, 12.7209, 0.08041], [90.5, -0.3521, 12.8392, 0.08034],
+  [91, -0.3521, 12.9569, 0.0803], [91.5, -0.3521, 13.0742, 0.08026], [92, -0.3521, 13.191, 0.08025], [92.5, -0.3521, 13.3075, 0.08025],
+  [93, -0.3521, 13.4239, 0.08026], [93.5, -0.3521, 13.5404, 0.08029], [94, -0.3521, 13.6572, 0.08034], [94.5, -0.3521, 13.7746, 0.0804],
+  [95, -0.3521, 13.8928, 0.08047], [95.5, -0.3521, 14.012, 0.08056], [96, -0.3521, 14.1325, 0.08067], [96.5, -0.3521, 14.2544, 0.08078],
+  [97, -0.3521, 14.3782, 0.08092], [97.5, -0.3521, 14.5038, 0.08106], [98, -0.3521, 14.6316, 0.08122], [98.5, -0.3521, 14.7614, 0.08139],
+  [99, -0.3521, 14.8934, 0.08157], [99.5, -0.3521, 15.0275, 0.08177], [100, -0.3521, 15.1637, 0.08198], [100.5, -0.3521, 15.3018, 0.0822],
+  [101, -0.3521, 15.4419, 0.08243], [101.5, -0.3521, 15.5838, 0.08267], [102, -0.3521, 15.7276, 0.08292], [102.5, -0.3521, 15.8732, 0.08317],
+  [103, -0.3521, 16.0206, 0.08343], [103.5, -0.3521, 16.1697, 0.0837], [104, -0.3521, 16.3204, 0.08397], [104.5, -0.3521, 16.4728, 0.08425],
+  [105, -0.3521, 16.6268, 0.08453], [105.5, -0.3521, 16.7826, 0.08481], [106, -0.3521, 16.9401, 0.0851], [106.5, -0.3521, 17.0995, 0.08539],
+  [107, -0.3521, 17.2607, 0.08568], [107.5, -0.3521, 17.4237, 0.08599], [108, -0.3521, 17.5885, 0.08629], [108.5, -0.3521, 17.7553, 0.0866],
+  [109, -0.3521, 17.9242, 0.08691], [109.5, -0.3521, 18.0954, 0.08723], [110, -0.3521, 18.2689, 0.08755],
+];
+
+// Weight-for-height, boys, 65 to 120 cm (children 2 years and older)
+export const WEIGHT_FOR_HEIGHT_BOYS: LmsRow[] = [
+  [65, -0.3521, 7.4327, 0.08217], [65.5, -0.3521, 7.5504, 0.08214], [66, -0.3521, 7.6673, 0.08212], [66.5, -0.3521, 7.7834, 0.08212],
+  [67, -0.3521, 7.8986, 0.08213], [67.5, -0.3521, 8.0132, 0.08214], [68, -0.3521, 8.1272, 0.08217], [68.5, -0.3521, 8.241, 0.08221],
+  [69, -0.3521, 8.3547, 0.08226], [69.5, -0.3521, 8.468, 0.08231], [70, -0.3521, 8.5808, 0.08237], [70.5, -0.3521, 8.6927, 0.08243],
+  [71, -0.3521, 8.8036, 0.0825], [71.5, -0.3521, 8.9135, 0.08257], [72, -0.3521, 9.0221, 0.08264], [72.5, -0.3521, 9.1292, 0.08272],
+  [73, -0.3521, 9.2347, 0.08278], [73.5, -0.3521, 9.339, 0.08285], [74, -0.3521, 9.442, 0.08292], [74.5, -0.3521, 9.5438, 0.08298],
+  [75, -0.3521, 9.644, 0.08303], [75.5, -0.3521, 9.7425, 0.08308], [76, -0.3521, 9.8392, 0.08312], [76.5, -0.3521, 9.9341, 0.08315],
+  [77, -0.3521, 10.0274, 0.08317], [77.5, -0.3521, 10.1194, 0.08318], [78, -0.3521, 10.2105, 0.08317], [78.5, -0.3521, 10.3012, 0.08315],
+  [79, -0.3521, 10.3923, 0.08311], [79.5, -0.3521, 10.4845, 0.08305], [80, -0.3521, 10.5781, 0.08298], [80.5, -0.3521, 10.6737, 0.0829],
+  [81, -0.3521, 10.7718, 0.08279], [81.5, -0.3521, 10.8728, 0.08268], [82, -0.3521, 10.9772, 0.08255], [82.5, -0.3521, 11.0851, 0.08241],
+  [83, -0.3521, 11.1966, 0.08225], [83.5, -0.3521, 11.3114, 0.08209], [84, -0.3521, 11.429, 0.08191], [84.5, -0.3521, 11.549, 0.08174],
+  [85, -0.3521, 11.6707, 0.08156], [85.5, -0.3521, 11.7937, 0.08138], [86, -0.3521, 11.9173, 0.08121], [86.5, -0.3521, 12.0411, 0.08105],
+  [87, -0.3521, 12.1645, 0.0809], [87.5, -0.3521, 12.2871, 0.08076], [88, -0.3521, 12.4089, 0.08064], [88.5, -0.3521, 12.5298, 0.08054],
+  [89, -0.3521, 12.6495, 0.08045], [89.5, -0.3521, 12.7683, 0.08038], [90, -0.3521, 12.8864, 0.08032], [90.5, -0.3521, 13.0038, 0.08028],
+  [91, -0.3521, 13.1209, 0.08025], [91.5, -0.3521, 13.2376, 0.08024], [92, -0.3521, 13.3541, 0.08025], [92.5, -0.3521, 13.4705, 0.08027],
+  [93, -0.3521, 13.587, 0.08031], [93.5, -0.3521, 13.7041, 0.08036], [94, -0.3521, 13.8217, 0.08043], [94.5, -0.3521, 13.9403, 0.08051],
+  [95, -0.3521, 14.06, 0.0806], [95.5, -0.3521, 14.1811, 0.08071], [96, -0.3521, 14.3037, 0.08083], [96.5, -0.3521, 14.4282, 0.08097],
+  [97, -0.3521, 14.5547, 0.08112], [97.5, -0.3521, 14.6832, 0.08129], [98, -0.3521, 14.814, 0.08146], [98.5, -0.3521, 14.9468, 0.08165],
+  [99, -0.3521, 15.0818, 0.08185], [99.5, -0.3521, 15.2187, 0.08206], [100, -0.3521, 15.3576, 0.08229], [100.5, -0.3521, 15.4985, 0.08252],
+  [101, -0.3521, 15.6412, 0.08277], [101.5, -0.3521, 15.7857, 0.08302], [102, -0.3521, 15.932, 0.08328], [102.5, -0.3521, 16.0801, 0.08354],
+  [103, -0.3521, 16.2298, 0.08381], [103.5, -0.3521, 16.3812, 0.08408], [104, -0.3521, 16.5342, 0.08436], [104.5, -0.3521, 16.6889, 0.08464],
+  [105, -0.3521, 16.8454, 0.08493], [105.5, -0.3521, 17.0036, 0.08521], [106, -0.3521, 17.1637, 0.08551], [106.5, -0.3521, 17.3256, 0.0858],
+  [107, -0.3521, 17.4894, 0.08611], [107.5, -0.3521, 17.655, 0.08641], [108, -0.3521, 17.8226, 0.08673], [108.5, -0.3521, 17.9924, 0.08704],
+  [109, -0.3521, 18.1645, 0.08736], [109.5, -0.3521, 18.339, 0.08768], [110, -0.3521, 18.5158, 0.088], [110.5, -0.3521, 18.6948, 0.08832],
+  [111, -0.3521, 18.8759, 0.08864], [111.5, -0.3521, 19.059, 0.08896], [112, -0.3521, 19.2439, 0.08928], [112.5, -0.3521, 19.4304, 0.0896],
+  [113, -0.3521, 19.6185, 0.08991], [113.5, -0.3521, 19.8081, 0.09022], [114, -0.3521, 19.999, 0.09054], [114.5, -0.3521, 20.1912, 0.09085],
+  [115, -0.3521, 20.3846, 0.09116], [115.5, -0.3521, 20.5789, 0.09147], [116, -0.3521, 20.7741, 0.09177], [116.5, -0.3521, 20.97, 0.09208],
+  [117, -0.3521, 21.1666, 0.09239], [117.5, -0.3521, 21.3636, 0.0927], [118, -0.3521, 21.5611, 0.093], [118.5, -0.3521, 21.7588, 0.09331],
+  [119, -0.3521, 21.9568, 0.09362], [119.5, -0.3521, 22.1549, 0.09393], [120, -0.3521, 22.353, 0.09424],
+];
+
+// Weight-for-age, girls, 0 to 60 months
+export const WEIGHT_FOR_AGE_GIRLS: LmsRow[] = [
+  [0, 0.3809, 3.2322, 0.14171], [1, 0.1714, 4.1873, 0.13724], [2, 0.0962, 5.1282, 0.13], [3, 0.0402, 5.8458, 0.12619],
+  [4, -0.005, 6.4237, 0.12402], [5, -0.043, 6.8985, 0.12274], [6, -0.0756, 7.297, 0.12204], [7, -0.1039, 7.6422, 0.12178],
+  [8, -0.1288, 7.9487, 0.12181], [9, -0.1507, 8.2254, 0.12199], [10, -0.17, 8.48, 0.12223], [11, -0.1872, 8.7192, 0.12247],
+  [12, -0.2024, 8.9481, 0.12268], [13, -0.2158, 9.1699, 0.12283], [14, -0.2278, 9.387, 0.12294], [15, -0.2384, 9.6008, 0.12299],
+  [16, -0.2478, 9.8124, 0.12303], [17, -0.2562, 10.0226, 0.12306], [18, -0.2637, 10.2315, 0.12309], [19, -0.2703, 10.4393, 0.12315],
+  [20, -0.2762, 10.6464, 0.12323], [21, -0.2815, 10.8534, 0.12335], [22, -0.2862, 11.0608, 0.1235], [23, -0.2903, 11.2688, 0.12369],
+  [24, -0.2941, 11.4775, 0.1239], [25, -0.2975, 11.6864, 0.12414], [26, -0.3005, 11.8947, 0.12441], [27, -0.3032, 12.1015, 0.12472],
+  [28, -0.3057, 12.3059, 0.12506], [29, -0.308, 12.5073, 0.12545], [30, -0.3101, 12.7055, 0.12587], [31, -0.312, 12.9006, 0.12633],
+  [32, -0.3138, 13.093, 0.12683], [33, -0.3155, 13.2837, 0.12737], [34, -0.3171, 13.4731, 0.12794], [35, -0.3186, 13.6618, 0.12855],
+  [36, -0.3201, 13.8503, 0.12919], [37, -0.3216, 14.0385, 0.12988], [38, -0.323, 14.2265, 0.13059], [39, -0.3243, 14.414, 0.13135],
+  [40, -0.3257, 14.601, 0.13213], [41, -0.327, 14.7873, 0.13293], [42, -0.3283, 14.9727, 0.13376], [43, -0.3296, 15.1573, 0.1346],
+  [44, -0.3309, 15.341, 0.13545], [45, -0.3322, 15.524, 0.1363], [46, -0.3335, 15.7064, 0.13716], [47, -0.3348, 15.8882, 0.138],
+  [48, -0.3361, 16.0697, 0.13884], [49, -0.3374, 16.2511, 0.13968], [50, -0.3387, 16.4322, 0.14051], [51, -0.34, 16.6133, 0.14132],
+  [52, -0.3414, 16.7942, 0.14213], [53, -0.3427, 16.9748, 0.14293], [54, -0.344, 17.1551, 0.14371], [55, -0.3453, 17.3347, 0.14448],
+  [56, -0.3466, 17.5136, 0.14525], [57, -0.3479, 17.6916, 0.146], [58, -0.3492, 17.8686, 0.14675], [59, -0.3505, 18.0445, 0.14748],
+  [60, -0.3518, 18.2193, 0.14821],
+];
+
+// Length/height-for-age, girls, 0 to 60 months
+export const LENGTH_HEIGHT_FOR_AGE_GIRLS: LmsRow[] = [
+  [0, 1, 49.1477, 0.0379], [1, 1, 53.6872, 0.0364], [2, 1, 57.0673, 0.03568], [3, 1, 59.8029, 0.0352],
+  [4, 1, 62.0899, 0.03486], [5, 1, 64.0301, 0.03463], [6, 1, 65.7311, 0.03448], [7, 1, 67.2873, 0.03441],
+  [8, 1, 68.7498, 0.0344], [9, 1, 70.1435, 0.03444], [10, 1, 71.4818, 0.03452], [11, 1, 72.771, 0.03464],
+  [12, 1, 74.015, 0.03479], [13, 1, 75.2176, 0.03496], [14, 1, 76.3817, 0.03514], [15, 1, 77.5099, 0.03534],
+  [16, 1, 78.6055, 0.03555], [17, 1, 79.671, 0.03576], [18, 1, 80.7079, 0.03598], [19, 1, 81.7182, 0.0362],
+  [20, 1, 82.7036, 0.03643], [21, 1, 83.6654, 0.03666], [22, 1, 84.604, 0.03688], [23, 1, 85.5202, 0.03711],
+  [24, 1, 85.7153, 0.03764], [25, 1, 86.5904, 0.03786], [26, 1, 87.4462, 0.03808], [27, 1, 88.283, 0.0383],
+  [28, 1, 89.1004, 0.03851], [29, 1, 89.8991, 0.03872], [30, 1, 90.6797, 0.03893], [31, 1, 91.443, 0.03913],
+  [32, 1, 92.1906, 0.03933], [33, 1, 92.9239, 0.03952], [34, 1, 93.6444, 0.03971], [35, 1, 94.3533, 0.03989],
+  [36, 1, 95.0515, 0.04006], [37, 1, 95.7399, 0.04024], [38, 1, 96.4187, 0.04041], [39, 1, 97.0885, 0.04057],
+  [40, 1, 97.7493, 0.04073], [41, 1, 98.4015, 0.04089], [42, 1, 99.0448, 0.04105], [43, 1, 99.6795, 0.0412],
+  [44, 1, 100.3058, 0.04135], [45, 1, 100.9238, 0.0415], [46, 1, 101.5337, 0.04164], [47, 1, 102.136, 0.04179],
+  [48, 1, 102.7312, 0.04193], [49, 1, 103.3197, 0.04206], [50, 1, 103.9021, 0.0422], [51, 1, 104.4786, 0.04233],
+  [52, 1, 105.0494, 0.04246], [53, 1, 105.6148, 0.04259], [54, 1, 106.1748, 0.04272], [55, 1, 106.7295, 0.04285],
+  [56, 1, 107.2788, 0.04298], [57, 1, 107.8227, 0.0431], [58, 1, 108.3613, 0.04322], [59, 1, 108.8948, 0.04334],
+  [60, 1, 109.4233, 0.04347],
+];
+
+// Weight-for-length, girls, 45 to 110 cm (children under 2 years)
+export const WEIGHT_FOR_LENGTH_GIRLS: LmsRow[] = [
+  [45, -0.3833, 2.4607, 0.09029], [45.5, -0.3833, 2.5457, 0.09033], [46, -0.3833, 2.6306, 0.09037], [46.5, -0.3833, 2.7155, 0.0904],
+  [47, -0.3833, 2.8007, 0.09044], [47.5, -0.3833, 2.8867, 0.09048], [48, -0.3833, 2.9741, 0.09052], [48.5, -0.3833, 3.0636, 0.09056],
+  [49, -0.3833, 3.156, 0.0906], [49.5, -0.3833, 3.252, 0.09064], [50, -0.3833, 3.3518, 0.09068], [50.5, -0.3833, 3.4557, 0.09072],
+  [51, -0.3833, 3.5636, 0.09076], [51.5, -0.3833, 3.6754, 0.0908], [52, -0.3833, 3.7911, 0.09085], [52.5, -0.3833, 3.9105, 0.09089],
+  [53, -0.3833, 4.0332, 0.09093], [53.5, -0.3833, 4.1591, 0.09098], [54, -0.3833, 4.2875, 0.09102], [54.5, -0.3833, 4.4179, 0.09106],
+  [55, -0.3833, 4.5498, 0.0911], [55.5, -0.3833, 4.6827, 0.09114], [56, -0.3833, 4.8162, 0.09118], [56.5, -0.3833, 4.95, 0.09121],
+  [57, -0.3833, 5.0837, 0.09125], [57.5, -0.3833, 5.2173, 0.09128], [58, -0.3833, 5.3507, 0.0913], [58.5, -0.3833, 5.4834, 0.09132],
+  [59, -0.3833, 5.6151, 0.09134], [59.5, -0.3833, 5.7454, 0.09135], [60, -0.3833, 5.8742, 0.09136], [60.5, -0.3833, 6.0014, 0.09137],
+  [61, -0.3833, 6.127, 0.09137], [61.5, -0.3833, 6.2511, 0.09136], [62, -0.3833, 6.3738, 0.09135], [62.5, -0.3833, 6.4948, 0.09133],
+  [63, -0.3833, 6.6144, 0.09131], [63.5, -0.3833, 6.7328, 0.09129], [64, -0.3833, 6.8501, 0.09126], [64.5, -0.3833, 6.9662, 0.09123],
+  [65, -0.3833, 7.0812, 0.09119], [65.5, -0.3833, 7.195, 0.09115], [66, -0.3833, 7.3076, 0.0911], [66.5, -0.3833, 7.4189, 0.09106],
+  [67, -0.3833, 7.5288, 0.09101], [67.5, -0.3833, 7.6375, 0.09096], [68, -0.3833, 7.7448, 0.0909], [68.5, -0.3833, 7.8509, 0.09085],
+  [69, -0.3833, 7.9559, 0.09079], [69.5, -0.3833, 8.0599, 0.09074], [70, -0.3833, 8.163, 0.09068], [70.5, -0.3833, 8.2651, 0.09062],
+  [71, -0.3833, 8.3666, 0.09056], [71.5, -0.3833, 8.4676, 0.0905], [72, -0.3833, 8.5679, 0.09043], [72.5, -0.3833, 8.6674, 0.09037],
+  [73, -0.3833, 8.7661, 0.09031], [73.5, -0.3833, 8.8638, 0.09025], [74, -0.3833, 8.9601, 0.09018], [74.5, -0.3833, 9.0552, 0.09012],
+  [75, -0.3833, 9.149, 0.09005], [75.5, -0.3833, 9.2418, 0.08999], [76, -0.3833, 9.3337, 0.08992], [76.5, -0.3833, 9.4252, 0.08985],
+  [77, -0.3833, 9.5166, 0.08979], [77.5, -0.3833, 9.6086, 0.08972], [78, -0.3833, 9.7015, 0.08965], [78.5, -0.3833, 9.7957, 0.08959],
+  [79, -0.3833, 9.8915, 0.08952], [79.5, -0.3833, 9.9892, 0.08946], [80, -0.3833, 10.0891, 0.0894], [80.5, -0.3833, 10.1916, 0.08934],
+  [81, -0.3833, 10.2965, 0.08928], [81.5, -0.3833, 10.4041, 0.08923], [82, -0.3833, 10.514, 0.08918], [82.5, -0.3833, 10.6263, 0.08914],
+  [83, -0.3833, 10.741, 0.0891], [83.5, -0.3833, 10.8578, 0.08906], [84, -0.3833, 10.9767, 0.08903], [84.5, -0.3833, 11.0974, 0.089],
+  [85, -0.3833, 11.2198, 0.08898], [85.5, -0.3833, 11.3435, 0.08897], [86, -0.3833, 11.4684, 0.08895], [86.5, -0.3833, 11.594, 0.08895],
+  [87, -0.3833, 11.7201, 0.08895], [87.5, -0.3833, 11.8461, 0.08895], [88, -0.3833, 11.972, 0.08896], [88.5, -0.3833, 12.0976, 0.08898],
+  [89, -0.3833, 12.2229, 0.089], [89.5, -0.3833, 12.3477, 0.08903], [90, -0.3833, 12.4723, 0.08906], [90.5, -0.3833, 12.5965, 0.08909],
+  [91, -0.3833, 12.7205, 0.08913], [91.5, -0.3833, 12.8443, 0.08918], [92, -0.3833, 12.9681, 0.08923], [92.5, -0.3833, 13.092, 0.08928],
+  [93, -0.3833, 13.2158, 0.08934], [93.5, -0.3833, 13.3399, 0.08941], [94, -0.3833, 13.4643, 0.08948], [94.5, -0.3833, 13.5892, 0.08955],
+  [95, -0.3833, 13.7146, 0.08963], [95.5, -0.3833, 13.8408, 0.08972], [96, -0.3833, 13.9676, 0.08981], [96.5, -0.3833, 14.0953, 0.0899],
+  [97, -0.3833, 14.2239, 0.09], [97.5, -0.3833, 14.3537, 0.0901], [98, -0.3833, 14.4848, 0.09021], [98.5, -0.3833, 14.6174, 0.09033],
+  [99, -0.3833, 14.7519, 0.09044], [99.5, -0.3833, 14.8882, 0.09057], [100, -0.3833, 15.0267, 0.09069], [100.5, -0.3833, 15.1676, 0.09083],
+  [101, -0.3833, 15.3108, 0.09096], [101.5, -0.3833, 15.4564, 0.0911], [102, -0.3833, 15.6046, 0.09125], [102.5, -0.3833, 15.7553, 0.09139],
+  [103, -0.3833, 15.9087, 0.09155], [103.5, -0.3833, 16.0645, 0.0917], [104, -0.3833, 16.2229, 0.09186], [104.5, -0.3833, 16.3837, 0.09203],
+  [105, -0.3833, 16.547, 0.09219], [105.5, -0.3833, 16.7129, 0.09236], [106, -0.3833, 16.8814, 0.09254], [106.5, -0.3833, 17.0527, 0.09271],
+  [107, -0.3833, 17.2269, 0.09289], [107.5, -0.3833, 17.4039, 0.09307], [108, -0.3833, 17.5839, 0.09326], [108.5, -0.3833, 17.7668, 0.09344],
+  [109, -0.3833, 17.9526, 0.09363], [109.5, -0.3833, 18.1412, 0.09382], [110, -0.3833, 18.3324, 0.09401],
+];
+
+// Weight-for-height, girls, 65 to 120 cm (children 2 years and older)
+export const WEIGHT_FOR_HEIGHT_GIRLS: LmsRow[] = [
+  [65, -0.3833, 7.2402, 0.09113], [65.5, -0.3833, 7.3523, 0.09109], [66, -0.3833, 7.463, 0.09104], [66.5, -0.3833, 7.5724, 0.09099],
+  [67, -0.3833, 7.6806, 0.09094], [67.5, -0.3833, 7.7874, 0.09088], [68, -0.3833, 7.893, 0.09083], [68.5, -0.3833, 7.9976, 0.09077],
+  [69, -0.3833, 8.1012, 0.09071], [69.5, -0.3833, 8.2039, 0.09065], [70, -0.3833, 8.3058, 0.09059], [70.5, -0.3833, 8.4071, 0.09053],
+  [71, -0.3833, 8.5078, 0.09047], [71.5, -0.3833, 8.6078, 0.09041], [72, -0.3833, 8.707, 0.09035], [72.5, -0.3833, 8.8053, 0.09028],
+  [73, -0.3833, 8.9025, 0.09022], [73.5, -0.3833, 8.9983, 0.09016], [74, -0.3833, 9.0928, 0.09009], [74.5, -0.3833, 9.1862, 0.09003],
+  [75, -0.3833, 9.2786, 0.08996], [75.5, -0.3833, 9.3703, 0.08989], [76, -0.3833, 9.4617, 0.08983], [76.5, -0.3833, 9.5533, 0.08976],
+  [77, -0.3833, 9.6456, 0.08969], [77.5, -0.3833, 9.739, 0.08963], [78, -0.3833, 9.8338, 0.08956], [78.5, -0.3833, 9.9303, 0.0895],
+  [79, -0.3833, 10.0289, 0.08943], [79.5, -0.3833, 10.1298, 0.08937], [80, -0.3833, 10.2332, 0.08932], [80.5, -0.3833, 10.3393, 0.08926],
+  [81, -0.3833, 10.4477, 0.08921], [81.5, -0.3833, 10.5586, 0.08916], [82, -0.3833, 10.6719, 0.08912], [82.5, -0.3833, 10.7874, 0.08908],
+  [83, -0.3833, 10.9051, 0.08905], [83.5, -0.3833, 11.0248, 0.08902], [84, -0.3833, 11.1462, 0.08899], [84.5, -0.3833, 11.2691, 0.08897],
+  [85, -0.3833, 11.3934, 0.08896], [85.5, -0.3833, 11.5186, 0.08895], [86, -0.3833, 11.6444, 0.08895], [86.5, -0.3833, 11.7705, 0.08895],
+  [87, -0.3833, 11.8965, 0.08896], [87.5, -0.3833, 12.0223, 0.08897], [88, -0.3833, 12.1478, 0.08899], [88.5, -0.3833, 12.2729, 0.08901],
+  [89, -0.3833, 12.3976, 0.08904], [89.5, -0.3833, 12.522, 0.08907], [90, -0.3833, 12.6461, 0.08911], [90.5, -0.3833, 12.77, 0.08915],
+  [91, -0.3833, 12.8939, 0.0892], [91.5, -0.3833, 13.0177, 0.08925], [92, -0.3833, 13.1415, 0.08931], [92.5, -0.3833, 13.2654, 0.08937],
+  [93, -0.3833, 13.3896, 0.08944], [93.5, -0.3833, 13.5142, 0.08951], [94, -0.3833, 13.6393, 0.08959], [94.5, -0.3833, 13.765, 0.08967],
+  [95, -0.3833, 13.8914, 0.08975], [95.5, -0.3833, 14.0186, 0.08984], [96, -0.3833, 14.1466, 0.08994], [96.5, -0.3833, 14.2757, 0.09004],
+  [97, -0.3833, 14.4059, 0.09015], [97.5, -0.3833, 14.5376, 0.09026], [98, -0.3833, 14.671, 0.09037], [98.5, -0.3833, 14.8062, 0.09049],
+  [99, -0.3833, 14.9434, 0.09062], [99.5, -0.3833, 15.0828, 0.09075], [100, -0.3833, 15.2246, 0.09088], [100.5, -0.3833, 15.3687, 0.09102],
+  [101, -0.3833, 15.5154, 0.09116], [101.5, -0.3833, 15.6646, 0.09131], [102, -0.3833, 15.8164, 0.09146], [102.5, -0.3833, 15.9707, 0.09161],
+  [103, -0.3833, 16.1276, 0.09177], [103.5, -0.3833, 16.287, 0.09193], [104, -0.3833, 16.4488, 0.09209], [104.5, -0.3833, 16.6131, 0.09226],
+  [105, -0.3833, 16.78, 0.09243], [105.5, -0.3833, 16.9496, 0.09261], [106, -0.3833, 17.122, 0.09278], [106.5, -0.3833, 17.2973, 0.09296],
+  [107, -0.3833, 17.4755, 0.09315], [107.5, -0.3833, 17.6567, 0.09333], [108, -0.3833, 17.8407, 0.09352], [108.5, -0.3833, 18.0277, 0.09371],
+  [109, -0.3833, 18.2174, 0.0939], [109.5, -0.3833, 18.4096, 0.09409], [110, -0.3833, 18.6043, 0.09428], [110.5, -0.3833, 18.8015, 0.09448],
+  [111, -0.3833, 19.0009, 0.09467], [111.5, -0.3833, 19.2024, 0.09487], [112, -0.3833, 19.406, 0.09507], [112.5, -0.3833, 19.6116, 0.09527],
+  [113, -0.3833, 19.819, 0.09546], [113.5, -0.3833, 20.028, 0.09566], [114, -0.3833, 20.2385, 0.09586], [114.5, -0.3833, 20.4502, 0.09606],
+  [115, -0.3833, 20.6629, 0.09626], [115.5, -0.3833, 20.8766, 0.09646], [116, -0.3833, 21.0909, 0.09666], [116.5, -0.3833, 21.3059, 0.09686],
+  [117, -0.3833, 21.5213, 0.09707], [117.5, -0.3833, 21.737, 0.09727], [118, -0.3833, 21.9529, 0.09747], [118.5, -0.3833, 22.169, 0.09767],
+  [119, -0.3833, 22.3851, 0.09788], [119.5, -0.3833, 22.6012, 0.09808], [120, -0.3833, 22.8173, 0.09828],
+];
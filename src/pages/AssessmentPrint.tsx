@@ -0,0 +1,440 @@
+import { useParams, useNavigate } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { ArrowLeft, Printer } from 'lucide-react';
+import { differenceInMonths, format, parseISO } from 'date-fns';
+import { getColorDisplay, type ClassificationResult } from '@/lib/imnci-classification';
+import { formatRegimen, type DosingRegimen } from '@/lib/imnci-dosing';
+import type { PreReferralRecord } from '@/lib/imnci-prereferral';
+import type { Tables } from '@/integrations/supabase/types';
+
+type AssessmentRow = Tables<'imnci_assessments'>;
+
+// A line on the recording form: a tick box for signs, a blank to fill for measurements
+interface FormField {
+  column: keyof AssessmentRow;
+  label: string;
+  unit?: string;
+  measured?: boolean;
+}
+
+interface FormModule {
+  id: string;
+  title: string;
+  fields: FormField[];
+}
+
+const HIV_MODULE: FormModule = {
+  id: 'hiv',
+  title: 'HIV infection',
+  fields: [
+    { column: 'mother_hiv_positive', label: 'Mother HIV positive' },
+    { column: 'child_hiv_tested', label: 'Child tested' },
+    { column: 'child_hiv_test_type', label: 'Test type', measured: true },
+    { column: 'child_hiv_result', label: 'Result', measured: true },
+  ],
+};
+
+const IMMUNIZATION_MODULE: FormModule = {
+  id: 'immunization',
+  title: 'Immunization, vitamin A and deworming',
+  fields: [
+    { column: 'immunization_up_to_date', label: 'Immunizations up to date' },
+    { column: 'vitamin_a_given', label: 'Vitamin A given' },
+    { column: 'deworming_given', label: 'Deworming given' },
+  ],
+};
+
+const DIARRHEA_MODULE: FormModule = {
+  id: 'diarrhea',
+  title: 'Does the child have diarrhoea?',
+  fields: [
+    { column: 'has_diarrhea', label: 'Diarrhoea' },
+    { column: 'diarrhea_duration_days', label: 'For how long', unit: 'days', measured: true },
+    { column: 'blood_in_stool', label: 'Blood in the stool' },
+    { column: 'restless_irritable', label: 'Restless or irritable' },
+    { column: 'sunken_eyes', label: 'Sunken eyes' },
+    { column: 'not_able_to_drink_diarrhea', label: 'Not able to drink or drinking poorly' },
+    { column: 'drinks_eagerly', label: 'Drinking eagerly, thirsty' },
+    { column: 'skin_pinch_very_slow', label: 'Skin pinch goes back very slowly' },
+    { column: 'skin_pinch_slow', label: 'Skin pinch goes back slowly' },
+    { column: 'rehydration_plan', label: 'Rehydration plan', measured: true },
+  ],
+};
+
+// Laid out in the order of the national IMNCI recording form
+const CHILD_MODULES: FormModule[] = [
+  {
+    id: 'danger',
+    title: 'General danger signs',
+    fields: [
+      { column: 'not_able_to_drink', label: 'Not able to drink or breastfeed' },
+      { column: 'vomits_everything', label: 'Vomits everything' },
+      { column: 'has_convulsions', label: 'Convulsions' },
+      { column: 'lethargic_unconscious', label: 'Lethargic or unconscious' },
+      { column: 'convulsing_now', label: 'Convulsing now' },
+    ],
+  },
+  {
+    id: 'cough',
+    title: 'Does the child have cough or difficult breathing?',
+    fields: [
+      { column: 'has_cough_difficulty_breathing', label: 'Cough or difficult breathing' },
+      { column: 'cough_duration_days', label: 'For how long', unit: 'days', measured: true },
+      { column: 'breaths_per_minute', label: 'Breaths per minute', measured: true },
+      { column: 'chest_indrawing', label: 'Chest indrawing' },
+      { column: 'stridor', label: 'Stridor in calm child' },
+      { column: 'wheezing', label: 'Wheezing' },
+      { column: 'breaths_per_minute_after_bronchodilator', label: 'Breaths per minute after bronchodilator', measured: true },
+    ],
+  },
+  DIARRHEA_MODULE,
+  {
+    id: 'fever',
+    title: 'Does the child have fever?',
+    fields: [
+      { column: 'has_fever', label: 'Fever' },
+      { column: 'fever_duration_days', label: 'For how long', unit: 'days', measured: true },
+      { column: 'temperature', label: 'Temperature', unit: '°C', measured: true },
+      { column: 'malaria_risk', label: 'Malaria risk', measured: true },
+      { column: 'travelled_to_malaria_area', label: 'Travelled to a malaria area' },
+      { column: 'malaria_rdt_result', label: 'Malaria RDT result', measured: true },
+      { column: 'stiff_neck', label: 'Stiff neck' },
+      { column: 'other_fever_cause', label: 'Other cause of fever' },
+      { column: 'measles_last_3_months', label: 'Measles within the last 3 months' },
+      { column: 'generalized_rash', label: 'Generalized rash' },
+      { column: 'runny_nose', label: 'Runny nose' },
+      { column: 'mouth_ulcers', label: 'Mouth ulcers' },
+      { column: 'deep_mouth_ulcers', label: 'Deep or extensive mouth ulcers' },
+      { column: 'pus_draining_eye', label: 'Pus draining from the eye' },
+      { column: 'clouding_cornea', label: 'Clouding of the cornea' },
+    ],
+  },
+  {
+    id: 'ear',
+    title: 'Does the child have an ear problem?',
+    fields: [
+      { column: 'has_ear_problem', label: 'Ear problem' },
+      { column: 'ear_pain', label: 'Ear pain' },
+      { column: 'ear_discharge', label: 'Ear discharge' },
+      { column: 'ear_discharge_duration_days', label: 'For how long', unit: 'days', measured: true },
+      { column: 'tender_swelling_behind_ear', label: 'Tender swelling behind the ear' },
+    ],
+  },
+  {
+    id: 'nutrition',
+    title: 'Check for acute malnutrition and anaemia',
+    fields: [
+      { column: 'visible_severe_wasting', label: 'Visible severe wasting' },
+      { column: 'edema_both_feet', label: 'Oedema of both feet' },
+      { column: 'weight_kg', label: 'Weight', unit: 'kg', measured: true },
+      { column: 'length_height_cm', label: 'Length/height', unit: 'cm', measured: true },
+      { column: 'weight_for_age', label: 'Weight-for-age (z)', measured: true },
+      { column: 'weight_for_height', label: 'Weight-for-height (z)', measured: true },
+      { column: 'muac_measurement', label: 'MUAC', unit: 'cm', measured: true },
+      { column: 'severe_palmar_pallor', label: 'Severe palmar pallor' },
+      { column: 'palmar_pallor', label: 'Some palmar pallor' },
+    ],
+  },
+  {
+    id: 'feeding',
+    title: 'Assess feeding',
+    fields: [
+      { column: 'breastfed', label: 'Breastfed' },
+      { column: 'breastfeeds_per_day', label: 'Breastfeeds in 24 hours', measured: true },
+      { column: 'not_breastfed_at_night', label: 'Not breastfed at night' },
+      { column: 'meals_per_day', label: 'Meals per day', measured: true },
+      { column: 'food_thin_or_watery', label: 'Food thin or watery' },
+      { column: 'uses_feeding_bottle', label: 'Uses a feeding bottle' },
+      { column: 'no_own_serving', label: 'No own serving' },
+      { column: 'not_actively_fed', label: 'Not actively fed' },
+      { column: 'feeding_reduced_during_illness', label: 'Feeding reduced during illness' },
+    ],
+  },
+  HIV_MODULE,
+  IMMUNIZATION_MODULE,
+];
+
+const YOUNG_INFANT_MODULES: FormModule[] = [
+  {
+    id: 'infant_infection',
+    title: 'Check for very severe disease and local bacterial infection',
+    fields: [
+      { column: 'not_feeding_well', label: 'Not feeding well' },
+      { column: 'has_convulsions', label: 'Convulsions' },
+      { column: 'breaths_per_minute', label: 'Breaths per minute', measured: true },
+      { column: 'severe_chest_indrawing', label: 'Severe chest indrawing' },
+      { column: 'temperature', label: 'Temperature', unit: '°C', measured: true },
+      { column: 'movement_only_when_stimulated', label: 'Movement only when stimulated' },
+      { column: 'umbilicus_red_or_pus', label: 'Umbilicus red or draining pus' },
+      { column: 'skin_pustules', label: 'Skin pustules' },
+    ],
+  },
+  {
+    id: 'jaundice',
+    title: 'Check for jaundice',
+    fields: [
+      { column: 'has_jaundice', label: 'Jaundice' },
+      { column: 'jaundice_palms_soles', label: 'Yellow palms and soles' },
+    ],
+  },
+  { ...DIARRHEA_MODULE, title: 'Does the young infant have diarrhoea?' },
+  {
+    id: 'infant_feeding',
+    title: 'Check for feeding problem or low weight',
+    fields: [
+      { column: 'breastfed', label: 'Breastfed' },
+      { column: 'breastfeeds_per_day', label: 'Breastfeeds in 24 hours', measured: true },
+      { column: 'receives_other_foods', label: 'Receives other foods or drinks' },
+      { column: 'breastfeeding_attachment', label: 'Attachment', measured: true },
+      { column: 'breastfeeding_suckling', label: 'Suckling', measured: true },
+      { column: 'oral_thrush', label: 'Oral thrush' },
+      { column: 'weight_kg', label: 'Weight', unit: 'kg', measured: true },
+      { column: 'weight_for_age', label: 'Weight-for-age (z)', measured: true },
+    ],
+  },
+  HIV_MODULE,
+  IMMUNIZATION_MODULE,
+];
+
+function TickBox({ checked }: { checked: boolean }) {
+  return (
+    <span className="inline-flex h-3.5 w-3.5 shrink-0 items-center justify-center border border-foreground text-[10px] leading-none">
+      {checked ? '✓' : ''}
+    </span>
+  );
+}
+
+// A value written on the dotted line
+function Blank({ label, value, unit }: { label: string; value: unknown; unit?: string }) {
+  const empty = value === null || value === undefined || value === '';
+  return (
+    <div className="flex items-baseline gap-1.5">
+      <span>{label}:</span>
+      <span className="flex-1 min-h-[1em] border-b border-dotted border-black/60 font-medium">
+        {empty ? '' : `${value}${unit ? ` ${unit}` : ''}`}
+      </span>
+    </div>
+  );
+}
+
+function FormLine({ field, value }: { field: FormField; value: unknown }) {
+  if (field.measured) return <Blank label={field.label} value={value} unit={field.unit} />;
+  return (
+    <div className="flex items-center gap-1.5">
+      <TickBox checked={value === true} />
+      <span>{field.label}</span>
+    </div>
+  );
+}
+
+export default function AssessmentPrint() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+
+  const { data: assessment, isLoading } = useQuery({
+    queryKey: ['assessment-print', id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('imnci_assessments')
+        .select(
+          '*, patients (first_name, last_name, registration_number, date_of_birth, gender, guardian_name, guardian_phone, address, chiefdom, district, facility_name)'
+        )
+        .eq('id', id)
+        .maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!id,
+  });
+
+  const { data: clinician } = useQuery({
+    queryKey: ['profile', assessment?.clinician_id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('full_name, facility_name')
+        .eq('user_id', assessment!.clinician_id)
+        .maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!assessment?.clinician_id,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[50vh]">
+        <div className="animate-pulse-subtle text-muted-foreground">Loading assessment...</div>
+      </div>
+    );
+  }
+
+  if (!assessment) {
+    return (
+      <div className="text-center py-12">
+        <h2 className="text-xl font-semibold mb-2">Assessment not found</h2>
+        <Button onClick={() => navigate('/patients')}>Back to Patients</Button>
+      </div>
+    );
+  }
+
+  const patient = assessment.patients;
+  const assessedAt = new Date(assessment.created_at);
+  const ageInMonths = patient ? differenceInMonths(assessedAt, parseISO(patient.date_of_birth)) : null;
+  const modules = assessment.is_young_infant ? YOUNG_INFANT_MODULES : CHILD_MODULES;
+  const classifications = (assessment.classification_results || {}) as unknown as Record<string, ClassificationResult[]>;
+  const regimens = (assessment.dosing_regimens || []) as unknown as DosingRegimen[];
+  const preReferral = (assessment.pre_referral_treatments || []) as unknown as PreReferralRecord[];
+  const treatments = (assessment.treatment_recommendations || '').split('\n').filter(Boolean);
+
+  return (
+    <div className="space-y-4">
+      {/* Toolbar */}
+      <div className="flex items-center gap-4 print:hidden">
+        <Button variant="ghost" size="icon" onClick={() => navigate(-1)}>
+          <ArrowLeft className="h-5 w-5" />
+        </Button>
+        <div className="flex-1">
+          <h1 className="text-2xl font-bold text-foreground">Recording Form</h1>
+          <p className="text-muted-foreground">Print or save as PDF on A4 paper</p>
+        </div>
+        <Button onClick={() => window.print()}>
+          <Printer className="h-4 w-4 mr-2" />
+          Print
+        </Button>
+      </div>
+
+      {/* Form */}
+      <div className="recording-form mx-auto max-w-[210mm] bg-white text-black text-[11px] leading-snug p-6 border border-border print:border-0 print:p-0">
+        <div className="text-center border-b-2 border-black pb-2 mb-3">
+          <h2 className="text-base font-bold uppercase">
+            {assessment.is_young_infant
+              ? 'Management of the sick young infant up to 2 months'
+              : 'Management of the sick child age 2 months up to 5 years'}
+          </h2>
+          <p>IMNCI case recording form</p>
+        </div>
+
+        {/* Demographics */}
+        <div className="grid grid-cols-3 gap-x-4 gap-y-1 mb-3">
+          <Blank label="Name" value={patient ? `${patient.first_name} ${patient.last_name}` : ''} />
+          <Blank label="Registration no." value={patient?.registration_number} />
+          <Blank label="Date" value={format(assessedAt, 'dd MMM yyyy')} />
+          <Blank label="Age" unit="months" value={ageInMonths} />
+          <Blank
+            label="Date of birth"
+            value={patient ? format(parseISO(patient.date_of_birth), 'dd MMM yyyy') : ''}
+          />
+          <Blank label="Sex" value={patient?.gender} />
+          <Blank label="Caregiver" value={patient?.guardian_name} />
+          <Blank label="Phone" value={patient?.guardian_phone} />
+          <Blank
+            label="Address"
+            value={[patient?.address, patient?.chiefdom, patient?.district].filter(Boolean).join(', ')}
+          />
+          <Blank label="Facility" value={patient?.facility_name || clinician?.facility_name} />
+          <Blank label="Weight" unit="kg" value={assessment.weight_kg} />
+          <Blank label="Temperature" unit="°C" value={assessment.temperature} />
+        </div>
+
+        {/* Assess and classify */}
+        <table className="w-full border-collapse border border-black">
+          <thead>
+            <tr className="bg-gray-100">
+              <th className="border border-black px-2 py-1 text-left w-[68%]">Assess (tick signs present)</th>
+              <th className="border border-black px-2 py-1 text-left">Classify</th>
+            </tr>
+          </thead>
+          <tbody>
+            {modules.map((module) => (
+              <tr key={module.id} className="break-inside-avoid">
+                <td className="border border-black px-2 py-1 align-top">
+                  <p className="font-semibold mb-1">{module.title}</p>
+                  <div className="grid grid-cols-2 gap-x-4 gap-y-0.5">
+                    {module.fields.map((field) => (
+                      <FormLine key={field.column} field={field} value={assessment[field.column]} />
+                    ))}
+                  </div>
+                </td>
+                <td className="border border-black px-2 py-1 align-top space-y-1">
+                  {(classifications[module.id] || []).map((result) => {
+                    const display = getColorDisplay(result.color);
+                    return (
+                      <div
+                        key={result.classification}
+                        className={`px-1.5 py-0.5 border ${display.bgClass} ${display.borderClass}`}
+                      >
+                        <p className="font-semibold">{result.classification}</p>
+                        <p className="text-[10px]">{display.label}</p>
+                      </div>
+                    );
+                  })}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {/* Treat */}
+        <div className="mt-3 grid grid-cols-2 gap-4 break-inside-avoid">
+          <div>
+            <p className="font-semibold border-b border-black mb-1">Identify treatment</p>
+            {treatments.length > 0 ? (
+              <ul className="list-disc pl-4">
+                {treatments.map((treatment, i) => (
+                  <li key={i}>{treatment}</li>
+                ))}
+              </ul>
+            ) : (
+              <p>—</p>
+            )}
+            {regimens.length > 0 && (
+              <>
+                <p className="font-semibold mt-2">Doses</p>
+                <ul className="list-disc pl-4">
+                  {regimens.map((regimen) => (
+                    <li key={regimen.drug}>{formatRegimen(regimen)}</li>
+                  ))}
+                </ul>
+              </>
+            )}
+          </div>
+          <div>
+            <p className="font-semibold border-b border-black mb-1">Pre-referral treatment given</p>
+            {preReferral.length > 0 ? (
+              <div className="space-y-0.5">
+                {preReferral.map((item) => (
+                  <div key={item.id} className="flex items-center gap-1.5">
+                    <TickBox checked={item.given} />
+                    <span>{item.label}</span>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p>{assessment.requires_referral ? 'None recorded' : 'Not referred'}</p>
+            )}
+            <p className="font-semibold border-b border-black mt-3 mb-1">Follow-up</p>
+            <Blank
+              label="Return for follow-up on"
+              value={assessment.follow_up_due_date ? format(parseISO(assessment.follow_up_due_date), 'dd MMM yyyy') : ''}
+            />
+            {assessment.follow_up_instructions && <p className="mt-1">{assessment.follow_up_instructions}</p>}
+          </div>
+        </div>
+
+        {/* Sign-off */}
+        <div className="mt-6 grid grid-cols-2 gap-8 break-inside-avoid">
+          <Blank label="Health worker" value={clinician?.full_name} />
+          <Blank label="Signature" value="" />
+        </div>
+        {assessment.amended_at && (
+          <p className="mt-2 text-[10px]">
+            Amended {assessment.amendment_count} time(s), last on {format(new Date(assessment.amended_at), 'dd MMM yyyy')}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -17,6 +17,8 @@ import {
 import { Link } from 'react-router-dom';
 import { useQuery } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
+import { format } from 'date-fns';
+import { AppointmentList, type FollowUpAppointment } from '@/components/followup/AppointmentList';
 
 export default function Dashboard() {
   const { profile, role } = useAuth();
@@ -74,6 +76,26 @@ export default function Dashboard() {
     },
   });
 
+  const { data: followUpsDue } = useQuery({
+    queryKey: ['follow-up-appointments', 'due'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('follow_up_appointments')
+        .select('*, patients (first_name, last_name, registration_number, guardian_phone)')
+        // A missed appointment stays on the list until the child is traced
+        .in('status', ['scheduled', 'missed'])
+        .lte('due_date', format(new Date(), 'yyyy-MM-dd'))
+        .order('due_date');
+      if (error) throw error;
+      return data as FollowUpAppointment[];
+    },
+    enabled: role === 'clinician' || role === 'admin',
+  });
+
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const dueToday = (followUpsDue || []).filter((a) => a.status === 'scheduled' && a.due_date === today);
+  const overdue = (followUpsDue || []).filter((a) => a.status === 'missed' || a.due_date < today);
+
   const statCards = [
     {
       title: 'Total Patients',
@@ -166,6 +188,42 @@ export default function Dashboard() {
         ))}
       </div>
 
+      {/* Follow-ups */}
+      {(role === 'clinician' || role === 'admin') && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between">
+              <div>
+                <CardTitle className="text-lg">Follow-ups Due Today ({dueToday.length})</CardTitle>
+                <CardDescription>Children due back today</CardDescription>
+              </div>
+              <Button variant="ghost" size="sm" asChild>
+                <Link to="/follow-ups">
+                  Calendar <ArrowRight className="h-4 w-4 ml-1" />
+                </Link>
+              </Button>
+            </CardHeader>
+            <CardContent>
+              <AppointmentList
+                appointments={dueToday}
+                emptyMessage="No follow-ups due today"
+                showDueDate={false}
+              />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Overdue Follow-ups ({overdue.length})</CardTitle>
+              <CardDescription>Missed appointments to trace</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <AppointmentList appointments={overdue} emptyMessage="No overdue follow-ups" />
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
       {/* Main Content Grid */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Recent Cases */}
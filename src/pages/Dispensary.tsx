@@ -13,8 +13,15 @@ import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Textarea } from '@/components/ui/textarea';
 import { useToast } from '@/hooks/use-toast';
-import { Plus, Package, AlertTriangle, Search, Pill, History } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { Plus, Package, AlertTriangle, Search, Pill, History, ClipboardList, Check, PackageX, XCircle } from 'lucide-react';
 import { format } from 'date-fns';
+import {
+  PRESCRIPTION_QUEUES,
+  PRESCRIPTION_STATUS_LABELS,
+  type PrescriptionQueue,
+  type PrescriptionStatus,
+} from '@/lib/prescriptions';
 
 type Medication = {
   id: string;
@@ -55,6 +62,47 @@ type DispensingRecord = {
   } | null;
 };
 
+type PrescriptionItem = {
+  id: string;
+  medication_id: string | null;
+  drug_name: string;
+  dose: string;
+  frequency: string;
+  duration: string;
+  quantity: number;
+  quantity_dispensed: number;
+  status: string;
+  medications: {
+    name: string;
+    unit: string;
+  } | null;
+};
+
+type PrescriptionOrder = {
+  id: string;
+  patient_id: string;
+  case_id: string | null;
+  status: string;
+  created_at: string;
+  patients: {
+    first_name: string;
+    last_name: string;
+    registration_number: string;
+  } | null;
+  cases: {
+    case_number: string;
+  } | null;
+  prescription_items: PrescriptionItem[];
+};
+
+const prescriptionStatusClasses: Record<PrescriptionStatus, string> = {
+  pending: 'bg-info/20 text-info border-info/30',
+  partially_filled: 'bg-warning/20 text-warning border-warning/30',
+  filled: 'bg-success/20 text-success border-success/30',
+  out_of_stock: 'bg-destructive/20 text-destructive border-destructive/30',
+  closed: 'bg-muted text-muted-foreground border-border',
+};
+
 export default function Dispensary() {
   const { user, role } = useAuth();
   const { toast } = useToast();
@@ -79,6 +127,10 @@ export default function Dispensary() {
   const [selectedCase, setSelectedCase] = useState('');
   const [dispenseNotes, setDispenseNotes] = useState('');
 
+  // Quantities typed against prescription lines, keyed by line id
+  const [fillQuantities, setFillQuantities] = useState<Record<string, string>>({});
+  const [prescriptionQueue, setPrescriptionQueue] = useState<PrescriptionQueue>('waiting');
+
   const canManageInventory = role === 'pharmacy' || role === 'admin';
 
   // Fetch medications catalog
@@ -126,6 +178,25 @@ export default function Dispensary() {
     },
   });
 
+  // Prescription orders in the chosen queue, oldest first
+  const { data: prescriptionOrders } = useQuery({
+    queryKey: ['prescription-orders', prescriptionQueue],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('prescription_orders')
+        .select(`
+          *,
+          patients(first_name, last_name, registration_number),
+          cases(case_number),
+          prescription_items(*, medications(name, unit))
+        `)
+        .in('status', PRESCRIPTION_QUEUES[prescriptionQueue].statuses)
+        .order('created_at');
+      if (error) throw error;
+      return data as PrescriptionOrder[];
+    },
+  });
+
   // Fetch patients for dispensing
   const { data: patients } = useQuery({
     queryKey: ['patients-search', patientSearch],
@@ -227,6 +298,108 @@ export default function Dispensary() {
     },
   });
 
+  // Set the line's status; the database rolls it up to the order in the same transaction
+  const updatePrescriptionItem = async (
+    item: PrescriptionItem,
+    update: { status: PrescriptionStatus; quantity_dispensed?: number }
+  ) => {
+    const { error } = await supabase
+      .from('prescription_items')
+      .update(update)
+      .eq('id', item.id);
+    if (error) throw error;
+  };
+
+  // Dispense a prescription line from stock, earliest expiry first, against the order's case
+  const fillPrescriptionMutation = useMutation({
+    mutationFn: async ({ order, item }: { order: PrescriptionOrder; item: PrescriptionItem }) => {
+      const remaining = item.quantity - item.quantity_dispensed;
+      const requested = parseInt(fillQuantities[item.id] ?? String(remaining));
+      if (!requested || requested <= 0) throw new Error('Enter a quantity to dispense');
+
+      const batches = (inventory || [])
+        .filter((i) => i.medication_id === item.medication_id && i.quantity > 0)
+        .sort((a, b) => (a.expiry_date || '9999').localeCompare(b.expiry_date || '9999'));
+      const available = batches.reduce((sum, i) => sum + i.quantity, 0);
+      let toDispense = Math.min(requested, remaining, available);
+      if (toDispense <= 0) throw new Error(`No ${item.drug_name} in stock`);
+      const dispensed = toDispense;
+
+      for (const batch of batches) {
+        if (toDispense === 0) break;
+        const qty = Math.min(batch.quantity, toDispense);
+        const { error: dispenseError } = await supabase.from('dispensing_records').insert({
+          inventory_id: batch.id,
+          patient_id: order.patient_id,
+          case_id: order.case_id,
+          prescription_item_id: item.id,
+          quantity_dispensed: qty,
+          dispensed_by: user?.id,
+          notes: `Prescription: ${item.drug_name} ${item.dose}, ${item.frequency.toLowerCase()}, ${item.duration.toLowerCase()}`,
+        });
+        if (dispenseError) throw dispenseError;
+
+        const { error: updateError } = await supabase
+          .from('inventory')
+          .update({ quantity: batch.quantity - qty })
+          .eq('id', batch.id);
+        if (updateError) throw updateError;
+        toDispense -= qty;
+      }
+
+      const total = item.quantity_dispensed + dispensed;
+      await updatePrescriptionItem(item, {
+        status: total >= item.quantity ? 'filled' : 'partially_filled',
+        quantity_dispensed: total,
+      });
+      return { item, dispensed };
+    },
+    onSuccess: ({ item, dispensed }) => {
+      queryClient.invalidateQueries({ queryKey: ['prescription-orders'] });
+      queryClient.invalidateQueries({ queryKey: ['inventory'] });
+      queryClient.invalidateQueries({ queryKey: ['dispensing-records'] });
+      toast({ title: 'Prescription dispensed', description: `${dispensed} ${item.medications?.unit || ''} of ${item.drug_name}` });
+      setFillQuantities((current) => {
+        const { [item.id]: _, ...rest } = current;
+        return rest;
+      });
+    },
+    onError: (error) => {
+      toast({ title: 'Error dispensing prescription', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const outOfStockMutation = useMutation({
+    mutationFn: async (item: PrescriptionItem) => {
+      await updatePrescriptionItem(item, { status: 'out_of_stock' });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['prescription-orders'] });
+      toast({ title: 'Marked out of stock' });
+    },
+    onError: (error) => {
+      toast({ title: 'Error updating prescription', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  // Take an order that cannot be filled any further off the queue
+  const closeOrderMutation = useMutation({
+    mutationFn: async (order: PrescriptionOrder) => {
+      const { error } = await supabase
+        .from('prescription_orders')
+        .update({ status: 'closed' })
+        .eq('id', order.id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['prescription-orders'] });
+      toast({ title: 'Order closed' });
+    },
+    onError: (error) => {
+      toast({ title: 'Error closing order', description: error.message, variant: 'destructive' });
+    },
+  });
+
   const resetStockForm = () => {
     setSelectedMedication('');
     setQuantity('');
@@ -255,6 +428,11 @@ export default function Dispensary() {
     item.quantity <= (item.reorder_level || 10)
   );
 
+  const getAvailableStock = (medicationId: string | null) =>
+    (inventory || [])
+      .filter((i) => i.medication_id === medicationId)
+      .reduce((sum, i) => sum + i.quantity, 0);
+
   const getStockBadge = (quantity: number, reorderLevel: number | null) => {
     const level = reorderLevel || 10;
     if (quantity === 0) return <Badge variant="destructive">Out of Stock</Badge>;
@@ -476,8 +654,15 @@ export default function Dispensary() {
         </Card>
       )}
 
-      <Tabs defaultValue="inventory" className="space-y-4">
+      <Tabs defaultValue="prescriptions" className="space-y-4">
         <TabsList>
+          <TabsTrigger value="prescriptions" className="gap-2">
+            <ClipboardList className="h-4 w-4" />
+            Prescriptions
+            {prescriptionOrders && prescriptionOrders.length > 0 && (
+              <Badge variant="secondary" className="ml-1">{prescriptionOrders.length}</Badge>
+            )}
+          </TabsTrigger>
           <TabsTrigger value="inventory" className="gap-2">
             <Package className="h-4 w-4" />
             Inventory
@@ -488,6 +673,157 @@ export default function Dispensary() {
           </TabsTrigger>
         </TabsList>
 
+        <TabsContent value="prescriptions">
+          <Card>
+            <CardHeader className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 space-y-0">
+              <div className="space-y-1.5">
+                <CardTitle>Prescription Queue</CardTitle>
+                <CardDescription>Orders from completed assessments waiting to be dispensed</CardDescription>
+              </div>
+              <Select value={prescriptionQueue} onValueChange={(value) => setPrescriptionQueue(value as PrescriptionQueue)}>
+                <SelectTrigger className="w-full sm:w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(PRESCRIPTION_QUEUES) as PrescriptionQueue[]).map((queue) => (
+                    <SelectItem key={queue} value={queue}>
+                      {PRESCRIPTION_QUEUES[queue].label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </CardHeader>
+            <CardContent>
+              {prescriptionOrders && prescriptionOrders.length > 0 ? (
+                <div className="space-y-4">
+                  {prescriptionOrders.map((order) => {
+                    const orderStatus = order.status as PrescriptionStatus;
+                    return (
+                      <div key={order.id} className="rounded-lg border border-border p-4 space-y-3">
+                        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+                          <div>
+                            <Link to={`/patients/${order.patient_id}`} className="font-medium hover:underline">
+                              {order.patients?.first_name} {order.patients?.last_name}
+                            </Link>
+                            <p className="text-sm text-muted-foreground">
+                              {order.patients?.registration_number}
+                              {order.cases && ` • Case ${order.cases.case_number}`}
+                              {` • ${format(new Date(order.created_at), 'dd MMM yyyy HH:mm')}`}
+                            </p>
+                          </div>
+                          <div className="flex items-center gap-2">
+                            <Badge className={prescriptionStatusClasses[orderStatus]}>
+                              {PRESCRIPTION_STATUS_LABELS[orderStatus]}
+                            </Badge>
+                            {canManageInventory && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => closeOrderMutation.mutate(order)}
+                                disabled={closeOrderMutation.isPending}
+                              >
+                                <XCircle className="h-4 w-4 mr-1" />
+                                Close Order
+                              </Button>
+                            )}
+                          </div>
+                        </div>
+                        <div className="overflow-x-auto">
+                          <Table>
+                            <TableHeader>
+                              <TableRow>
+                                <TableHead>Medication</TableHead>
+                                <TableHead>Dose</TableHead>
+                                <TableHead>Ordered</TableHead>
+                                <TableHead>Dispensed</TableHead>
+                                <TableHead>In Stock</TableHead>
+                                <TableHead>Status</TableHead>
+                                {canManageInventory && <TableHead />}
+                              </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                              {order.prescription_items.map((item) => {
+                                const itemStatus = item.status as PrescriptionStatus;
+                                const remaining = item.quantity - item.quantity_dispensed;
+                                const unit = item.medications?.unit || '';
+                                return (
+                                  <TableRow key={item.id}>
+                                    <TableCell className="font-medium">{item.drug_name}</TableCell>
+                                    <TableCell className="text-sm">
+                                      {item.dose}, {item.frequency.toLowerCase()}, {item.duration.toLowerCase()}
+                                    </TableCell>
+                                    <TableCell>{item.quantity} {unit}</TableCell>
+                                    <TableCell>{item.quantity_dispensed} {unit}</TableCell>
+                                    <TableCell>
+                                      {item.medication_id ? `${getAvailableStock(item.medication_id)} ${unit}` : 'Not in catalog'}
+                                    </TableCell>
+                                    <TableCell>
+                                      <Badge className={prescriptionStatusClasses[itemStatus]}>
+                                        {PRESCRIPTION_STATUS_LABELS[itemStatus]}
+                                      </Badge>
+                                    </TableCell>
+                                    {canManageInventory && (
+                                      <TableCell>
+                                        {itemStatus !== 'filled' && (
+                                          <div className="flex items-center justify-end gap-2">
+                                            {item.medication_id && (
+                                              <>
+                                                <Input
+                                                  type="number"
+                                                  min={1}
+                                                  max={remaining}
+                                                  className="w-20 h-8"
+                                                  value={fillQuantities[item.id] ?? String(remaining)}
+                                                  onChange={(e) =>
+                                                    setFillQuantities({ ...fillQuantities, [item.id]: e.target.value })
+                                                  }
+                                                />
+                                                <Button
+                                                  size="sm"
+                                                  onClick={() => fillPrescriptionMutation.mutate({ order, item })}
+                                                  disabled={fillPrescriptionMutation.isPending}
+                                                >
+                                                  <Check className="h-4 w-4 mr-1" />
+                                                  Dispense
+                                                </Button>
+                                              </>
+                                            )}
+                                            {itemStatus !== 'out_of_stock' && (
+                                              <Button
+                                                size="sm"
+                                                variant="ghost"
+                                                onClick={() => outOfStockMutation.mutate(item)}
+                                                disabled={outOfStockMutation.isPending}
+                                              >
+                                                <PackageX className="h-4 w-4 mr-1" />
+                                                Out of Stock
+                                              </Button>
+                                            )}
+                                          </div>
+                                        )}
+                                      </TableCell>
+                                    )}
+                                  </TableRow>
+                                );
+                              })}
+                            </TableBody>
+                          </Table>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              ) : (
+                <div className="text-center py-8 text-muted-foreground">
+                  {prescriptionQueue === 'waiting'
+                    ? 'No prescriptions waiting to be dispensed'
+                    : 'No prescriptions held up for stock'}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
         <TabsContent value="inventory">
           <Card>
             <CardHeader>
@@ -0,0 +1,329 @@
+import React, { useState } from 'react';
+import { useParams, useNavigate, Link } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { useToast } from '@/hooks/use-toast';
+import { ArrowLeft, Save, CalendarClock, Stethoscope } from 'lucide-react';
+import { addDays, format, isPast, isToday, parseISO } from 'date-fns';
+import { getColorDisplay, type ClassificationResult } from '@/lib/imnci-classification';
+import {
+  evaluateFollowUp,
+  getFollowUpGuides,
+  FOLLOW_UP_DECISION_COLORS,
+  FOLLOW_UP_DECISION_LABELS,
+  type FollowUpCondition,
+  type FollowUpProgress,
+} from '@/lib/imnci-followup';
+
+type ConditionFindings = {
+  progress: FollowUpProgress | '';
+  signs: string[];
+};
+
+export default function FollowUpVisit() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [findings, setFindings] = useState<Partial<Record<FollowUpCondition, ConditionFindings>>>({});
+  const [notes, setNotes] = useState('');
+
+  const { data: assessment, isLoading } = useQuery({
+    queryKey: ['assessment', id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('imnci_assessments')
+        .select('*, patients (first_name, last_name, registration_number)')
+        .eq('id', id)
+        .maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!id,
+  });
+
+  const { data: previousFollowUps } = useQuery({
+    queryKey: ['follow-ups', id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('imnci_follow_ups')
+        .select('*')
+        .eq('assessment_id', id)
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!id,
+  });
+
+  const originalClassifications = Object.values(
+    (assessment?.classification_results || {}) as unknown as Record<string, ClassificationResult[]>
+  ).flat();
+  const guides = getFollowUpGuides(originalClassifications);
+
+  const getFindings = (condition: FollowUpCondition): ConditionFindings =>
+    findings[condition] || { progress: '', signs: [] };
+
+  const updateFindings = (condition: FollowUpCondition, update: Partial<ConditionFindings>) => {
+    setFindings({ ...findings, [condition]: { ...getFindings(condition), ...update } });
+  };
+
+  const outcomes = guides
+    .filter((guide) => getFindings(guide.condition).progress)
+    .map((guide) => {
+      const { progress, signs } = getFindings(guide.condition);
+      return {
+        guide,
+        progress: progress as FollowUpProgress,
+        signs,
+        outcome: evaluateFollowUp(guide, progress as FollowUpProgress, signs),
+      };
+    });
+
+  const saveFollowUp = useMutation({
+    mutationFn: async () => {
+      if (!assessment) throw new Error('Assessment not found');
+      if (outcomes.length < guides.length) throw new Error('Record the progress for every condition');
+
+      const rows = outcomes.map(({ guide, progress, signs, outcome }) => ({
+          condition: guide.condition,
+          progress,
+          signs,
+          decision: outcome.decision,
+          action: outcome.action,
+          next_follow_up_date: outcome.nextFollowUpDays
+            ? format(addDays(new Date(), outcome.nextFollowUpDays), 'yyyy-MM-dd')
+            : null,
+          notes: notes || null,
+        }));
+
+      // Book the next visit for conditions that need another follow-up
+      const nextVisits = new Map<string, string[]>();
+      rows.forEach((row, i) => {
+        if (!row.next_follow_up_date) return;
+        nextVisits.set(row.next_follow_up_date, [
+          ...(nextVisits.get(row.next_follow_up_date) || []),
+          outcomes[i].guide.label,
+        ]);
+      });
+
+      // The findings, the appointments attended and the next visits are saved in one transaction
+      const { error } = await supabase.rpc('record_follow_up_visit', {
+        _assessment_id: assessment.id,
+        _visit_date: format(new Date(), 'yyyy-MM-dd'),
+        _follow_ups: rows as unknown as Json,
+        _next_visits: [...nextVisits.entries()].map(([dueDate, reasons]) => ({ due_date: dueDate, reasons })),
+      });
+      if (error) throw error;
+
+      return outcomes.some((o) => o.outcome.decision === 'refer');
+    },
+    onSuccess: (requiresReferral) => {
+      queryClient.invalidateQueries({ queryKey: ['follow-ups'] });
+      queryClient.invalidateQueries({ queryKey: ['follow-up-appointments'] });
+      queryClient.invalidateQueries({ queryKey: ['patient-follow-ups', assessment?.patient_id] });
+      toast({
+        title: 'Follow-up Recorded',
+        description: requiresReferral
+          ? 'This child requires referral. Please initiate referral process.'
+          : 'The follow-up visit has been saved.',
+      });
+      if (requiresReferral && assessment?.case_id) {
+        navigate(`/referrals/new?caseId=${assessment.case_id}`);
+      } else {
+        navigate(`/patients/${assessment?.patient_id}`);
+      }
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveFollowUp.mutate();
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[50vh]">
+        <div className="animate-pulse-subtle text-muted-foreground">Loading assessment...</div>
+      </div>
+    );
+  }
+
+  if (!assessment) {
+    return (
+      <div className="text-center py-12">
+        <h2 className="text-xl font-semibold mb-2">Assessment not found</h2>
+        <Button onClick={() => navigate('/patients')}>Back to Patients</Button>
+      </div>
+    );
+  }
+
+  const dueDate = assessment.follow_up_due_date ? parseISO(assessment.follow_up_due_date) : null;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center gap-4">
+        <Button variant="ghost" size="icon" onClick={() => navigate(-1)}>
+          <ArrowLeft className="h-5 w-5" />
+        </Button>
+        <div className="flex-1">
+          <h1 className="text-2xl font-bold text-foreground">Follow-up Visit</h1>
+          <p className="text-muted-foreground">
+            {assessment.patients?.first_name} {assessment.patients?.last_name} · assessed{' '}
+            {format(new Date(assessment.created_at), 'dd MMM yyyy')}
+          </p>
+        </div>
+        {dueDate && (
+          <Badge variant={isPast(dueDate) && !isToday(dueDate) ? 'destructive' : 'outline'}>
+            <CalendarClock className="h-3 w-3 mr-1" />
+            Due {format(dueDate, 'dd MMM yyyy')}
+          </Badge>
+        )}
+      </div>
+
+      {guides.length === 0 ? (
+        <Card>
+          <CardContent className="py-8 text-center text-muted-foreground">
+            <Stethoscope className="h-12 w-12 mx-auto mb-3 opacity-50" />
+            <p>None of this assessment's classifications has a specific follow-up reassessment.</p>
+            <p className="text-sm">If the child is not improving, do a full IMNCI assessment.</p>
+            {assessment.case_id && (
+              <Button className="mt-3" size="sm" asChild>
+                <Link to={`/assessments/new?caseId=${assessment.case_id}&patientId=${assessment.patient_id}`}>
+                  Start Assessment
+                </Link>
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-6">
+          {guides.map((guide) => {
+            const { progress, signs } = getFindings(guide.condition);
+            const result = outcomes.find((o) => o.guide.condition === guide.condition);
+            const colorInfo = result ? getColorDisplay(FOLLOW_UP_DECISION_COLORS[result.outcome.decision]) : null;
+            return (
+              <Card key={guide.condition}>
+                <CardHeader>
+                  <CardTitle>{guide.label}</CardTitle>
+                  <CardDescription>{guide.reassess}</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="space-y-2">
+                    <Label>Since the last visit the child is</Label>
+                    <RadioGroup
+                      value={progress}
+                      onValueChange={(value) => updateFindings(guide.condition, { progress: value as FollowUpProgress })}
+                      className="flex gap-4"
+                    >
+                      {(['improved', 'same', 'worse'] as FollowUpProgress[]).map((value) => (
+                        <div key={value} className="flex items-center gap-2">
+                          <RadioGroupItem value={value} id={`${guide.condition}-${value}`} />
+                          <Label htmlFor={`${guide.condition}-${value}`} className="capitalize">
+                            {value}
+                          </Label>
+                        </div>
+                      ))}
+                    </RadioGroup>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label>Signs found today</Label>
+                    {[...guide.referSigns, ...guide.escalateSigns].map((sign) => (
+                      <div key={sign.id} className="flex items-center gap-3">
+                        <Checkbox
+                          id={`${guide.condition}-${sign.id}`}
+                          checked={signs.includes(sign.id)}
+                          onCheckedChange={(checked) =>
+                            updateFindings(guide.condition, {
+                              signs: checked ? [...signs, sign.id] : signs.filter((s) => s !== sign.id),
+                            })
+                          }
+                        />
+                        <Label htmlFor={`${guide.condition}-${sign.id}`} className="cursor-pointer font-normal">
+                          {sign.label}
+                        </Label>
+                      </div>
+                    ))}
+                  </div>
+
+                  {result && colorInfo && (
+                    <div className={`p-3 rounded-md border ${colorInfo.borderClass} ${colorInfo.bgClass}`}>
+                      <Badge className={`${colorInfo.bgClass} ${colorInfo.textClass} border-0`}>
+                        {FOLLOW_UP_DECISION_LABELS[result.outcome.decision]}
+                      </Badge>
+                      <p className="text-sm mt-1">{result.outcome.action}</p>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })}
+
+          <Card>
+            <CardContent className="pt-6 space-y-2">
+              <Label htmlFor="notes">Notes</Label>
+              <Textarea
+                id="notes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="Other findings and treatment given..."
+                rows={3}
+              />
+            </CardContent>
+          </Card>
+
+          {previousFollowUps && previousFollowUps.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Previous Follow-ups</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {previousFollowUps.map((followUp) => (
+                  <div key={followUp.id} className="text-sm flex items-start justify-between gap-4">
+                    <div>
+                      <span className="font-medium">
+                        {guides.find((g) => g.condition === followUp.condition)?.label || followUp.condition}
+                      </span>
+                      <span className="text-muted-foreground"> · {followUp.progress} · {followUp.action}</span>
+                    </div>
+                    <span className="text-muted-foreground whitespace-nowrap">
+                      {format(new Date(followUp.created_at), 'dd MMM yyyy')}
+                    </span>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+
+          <div className="flex justify-end gap-4">
+            <Button type="button" variant="outline" onClick={() => navigate(-1)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saveFollowUp.isPending}>
+              <Save className="h-4 w-4 mr-2" />
+              {saveFollowUp.isPending ? 'Saving...' : 'Save Follow-up'}
+            </Button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Calendar } from '@/components/ui/calendar';
+import { Badge } from '@/components/ui/badge';
+import { AppointmentList, type FollowUpAppointment } from '@/components/followup/AppointmentList';
+import { endOfMonth, format, isSameDay, parseISO, startOfMonth } from 'date-fns';
+
+export default function FollowUps() {
+  const [month, setMonth] = useState(new Date());
+  const [selectedDate, setSelectedDate] = useState<Date | undefined>(new Date());
+
+  const { data: appointments, isLoading } = useQuery({
+    queryKey: ['follow-up-appointments', 'month', format(month, 'yyyy-MM')],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('follow_up_appointments')
+        .select('*, patients (first_name, last_name, registration_number, guardian_phone)')
+        .gte('due_date', format(startOfMonth(month), 'yyyy-MM-dd'))
+        .lte('due_date', format(endOfMonth(month), 'yyyy-MM-dd'))
+        .order('due_date');
+      if (error) throw error;
+      return data as FollowUpAppointment[];
+    },
+  });
+
+  const dueDates = (appointments || []).map((a) => parseISO(a.due_date));
+  const pendingDates = (appointments || [])
+    .filter((a) => a.status === 'scheduled' || a.status === 'missed')
+    .map((a) => parseISO(a.due_date));
+  const selectedAppointments = (appointments || []).filter(
+    (a) => selectedDate && isSameDay(parseISO(a.due_date), selectedDate)
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-foreground">Follow-ups</h1>
+        <p className="text-muted-foreground">Children due back for follow-up visits</p>
+      </div>
+
+      <div className="grid gap-6 md:grid-cols-3">
+        <Card className="md:col-span-1">
+          <CardContent className="pt-6 flex flex-col items-center">
+            <Calendar
+              mode="single"
+              selected={selectedDate}
+              onSelect={setSelectedDate}
+              month={month}
+              onMonthChange={setMonth}
+              modifiers={{ due: dueDates, pending: pendingDates }}
+              modifiersClassNames={{
+                due: 'font-bold underline',
+                pending: 'text-warning',
+              }}
+            />
+            <div className="flex gap-3 text-xs text-muted-foreground">
+              <span className="font-bold underline">Appointments</span>
+              <span className="text-warning">Not yet attended</span>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="md:col-span-2">
+          <CardHeader className="flex flex-row items-center justify-between">
+            <div>
+              <CardTitle className="text-lg">
+                {selectedDate ? format(selectedDate, 'EEEE dd MMMM yyyy') : 'Select a date'}
+              </CardTitle>
+              <CardDescription>Follow-up appointments due on this day</CardDescription>
+            </div>
+            <Badge variant="outline">{selectedAppointments.length}</Badge>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex items-center justify-center py-12">
+                <div className="animate-pulse-subtle text-muted-foreground">Loading...</div>
+              </div>
+            ) : (
+              <AppointmentList
+                appointments={selectedAppointments}
+                emptyMessage="No follow-ups due on this day"
+                showDueDate={false}
+              />
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -1,12 +1,15 @@
 import React, { useState, useEffect } from 'react';
-import { useNavigate, useSearchParams } from 'react-router-dom';
+import { useMatch, useNavigate, useParams, useSearchParams } from 'react-router-dom';
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables } from '@/integrations/supabase/types';
 import { useAuth } from '@/contexts/AuthContext';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Checkbox } from '@/components/ui/checkbox';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Badge } from '@/components/ui/badge';
@@ -25,44 +28,154 @@ import {
   CheckCircle,
   XCircle,
   AlertCircle,
+  Baby,
+  Sun,
+  Milk,
+  Ribbon,
+  Pill,
+  Utensils,
+  CalendarClock,
+  FilePen,
+  Siren,
+  Send,
+  Zap,
 } from 'lucide-react';
-import { differenceInMonths } from 'date-fns';
+import { differenceInDays, differenceInMonths, format } from 'date-fns';
 import {
   assessDangerSigns,
   assessCoughBreathing,
   assessDiarrhea,
   assessFever,
+  isMalariaTestRequired,
   assessEarProblem,
   assessNutrition,
+  assessHIV,
+  assessFeeding,
+  getRecommendedMealsPerDay,
+  FeedingAssessmentInput,
+  assessYoungInfantInfection,
+  assessYoungInfantJaundice,
+  assessYoungInfantFeeding,
+  isYoungInfant,
+  getFastBreathingThreshold,
   calculateOverallAssessment,
   getColorDisplay,
+  getHighestPriorityColor,
+  summarizeClassifications,
   ClassificationResult,
 } from '@/lib/imnci-classification';
+import { PROTOCOL_COUNTRY, resolveProtocol, resolveRecordedProtocol, type ProtocolOverride } from '@/lib/imnci-protocol';
+import {
+  MALARIA_RISK_LABELS,
+  getEffectiveMalariaRisk,
+  resolveMalariaRisk,
+  type MalariaRisk,
+  type MalariaRiskArea,
+} from '@/lib/malaria-risk';
+import { getPreReferralChecklist, type PreReferralRecord } from '@/lib/imnci-prereferral';
+import { FOLLOW_UP_DAYS, getFollowUpSchedule } from '@/lib/imnci-followup';
+import { formatChangeValue, getAssessmentChanges, getOutcomeChange } from '@/lib/imnci-amendments';
+import { calculateDosing, formatRegimen, type DosingRegimen } from '@/lib/imnci-dosing';
+import { ASSESSMENT_RANGES, setQuestion, validateAssessmentSteps } from '@/lib/imnci-validation';
+import { REFERRAL_FACILITIES, formatReferralNotes, generateReferralNumber } from '@/lib/referrals';
+import { prescriptionLinesFromRegimens } from '@/lib/prescriptions';
+import { calculateGrowthZScores } from '@/lib/growth-zscores';
+import { getFeedingCounsellingPoints } from '@/lib/imnci-counselling';
+import { calculatePlanC, getRehydrationPlan, RehydrationPlan } from '@/lib/imnci-rehydration';
+import { PlanCTimer, RehydrationTool } from '@/components/imnci/RehydrationTool';
+import { BreathingCounter } from '@/components/imnci/BreathingCounter';
 
-const STEPS = [
+const CHILD_STEPS = [
   { id: 'danger', label: 'Danger Signs', icon: AlertTriangle },
   { id: 'cough', label: 'Cough/Breathing', icon: Wind },
   { id: 'diarrhea', label: 'Diarrhea', icon: Droplets },
   { id: 'fever', label: 'Fever', icon: Thermometer },
   { id: 'ear', label: 'Ear Problem', icon: Ear },
   { id: 'nutrition', label: 'Nutrition', icon: Apple },
+  { id: 'feeding', label: 'Feeding', icon: Utensils },
+  { id: 'hiv', label: 'HIV', icon: Ribbon },
+  { id: 'immunization', label: 'Immunization', icon: Shield },
+  { id: 'summary', label: 'Summary', icon: CheckCircle },
+];
+
+const YOUNG_INFANT_STEPS = [
+  { id: 'infant_infection', label: 'Bacterial Infection', icon: Baby },
+  { id: 'jaundice', label: 'Jaundice', icon: Sun },
+  { id: 'diarrhea', label: 'Diarrhea', icon: Droplets },
+  { id: 'infant_feeding', label: 'Feeding', icon: Milk },
+  { id: 'hiv', label: 'HIV', icon: Ribbon },
   { id: 'immunization', label: 'Immunization', icon: Shield },
   { id: 'summary', label: 'Summary', icon: CheckCircle },
 ];
 
+// After a general danger sign the remaining modules are shortened to one quick step
+const EMERGENCY_STEPS = [
+  { id: 'danger', label: 'Danger Signs', icon: AlertTriangle },
+  { id: 'quick', label: 'Quick Assessment', icon: Zap },
+  { id: 'summary', label: 'Summary', icon: CheckCircle },
+];
+
+// Steps classified from the quick assessment
+const QUICK_STEP_IDS = ['cough', 'diarrhea', 'fever', 'ear', 'nutrition'];
+
+const expandStepIds = (stepIds: string[]) =>
+  stepIds.flatMap((stepId) => (stepId === 'quick' ? QUICK_STEP_IDS : [stepId]));
+
+const hasEmergencyDangerSign = (results: Record<string, ClassificationResult[]>) =>
+  !!results.danger?.some((c) => c.color === 'red');
+
+// Column that records each step as done, used to resume a saved assessment
+const STEP_COMPLETED_COLUMNS: Record<string, keyof Tables<'imnci_assessments'>> = {
+  danger: 'danger_signs_completed',
+  quick: 'cough_breathing_completed',
+  cough: 'cough_breathing_completed',
+  diarrhea: 'diarrhea_completed',
+  fever: 'fever_completed',
+  ear: 'ear_completed',
+  nutrition: 'nutrition_completed',
+  feeding: 'feeding_completed',
+  hiv: 'hiv_completed',
+  immunization: 'immunization_completed',
+  infant_infection: 'infant_infection_completed',
+  jaundice: 'jaundice_completed',
+  infant_feeding: 'infant_feeding_completed',
+};
+
 export default function IMNCIAssessment() {
+  const { id } = useParams<{ id: string }>();
+  const isAmending = !!useMatch('/assessments/:id/amend');
   const navigate = useNavigate();
   const [searchParams] = useSearchParams();
   const { toast } = useToast();
-  const { user } = useAuth();
+  const { user, profile } = useAuth();
   const queryClient = useQueryClient();
-  
-  const caseId = searchParams.get('caseId');
-  const patientId = searchParams.get('patientId');
+
+  // An existing assessment opened at /assessments/:id
+  const { data: existingAssessment, isLoading: loadingAssessment } = useQuery({
+    queryKey: ['assessment', id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('imnci_assessments')
+        .select('*, patients (first_name, last_name, registration_number)')
+        .eq('id', id)
+        .maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!id,
+  });
+
+  const caseId = searchParams.get('caseId') || existingAssessment?.case_id;
+  const patientId = searchParams.get('patientId') || existingAssessment?.patient_id;
 
   const [currentStep, setCurrentStep] = useState(0);
   const [assessmentId, setAssessmentId] = useState<string | null>(null);
-  const [classifications, setClassifications] = useState<ClassificationResult[]>([]);
+  const [classifications, setClassifications] = useState<Record<string, ClassificationResult[]>>({});
+  const [amendmentReason, setAmendmentReason] = useState('');
+  // Revision already saved by an amendment whose follow-up or prescription step then failed
+  const [savedRevision, setSavedRevision] = useState<number | null>(null);
+  const [fullAssessment, setFullAssessment] = useState(false);
+  const [referralFacility, setReferralFacility] = useState('');
 
   // Form state for all steps
   const [formData, setFormData] = useState({
@@ -80,6 +193,7 @@ export default function IMNCIAssessment() {
     chestIndrawing: false,
     stridor: false,
     wheezing: false,
+    breathsPerMinuteAfterBronchodilator: '',
     
     // Diarrhea
     hasDiarrhea: false,
@@ -98,9 +212,13 @@ export default function IMNCIAssessment() {
     temperature: '',
     stiffNeck: false,
     malariaRdtResult: '',
+    travelledToMalariaArea: false,
+    otherFeverCause: false,
+    measlesLast3Months: false,
     generalizedRash: false,
     runnyNose: false,
     mouthUlcers: false,
+    deepMouthUlcers: false,
     pusDrainingEye: false,
     cloudingCornea: false,
     
@@ -114,23 +232,58 @@ export default function IMNCIAssessment() {
     // Nutrition
     visibleSevereWasting: false,
     edemaBothFeet: false,
-    weightForAge: '',
+    weightKg: '',
+    rehydrationPlan: '',
+    planCStartedAt: null as string | null,
+    planCReassessedAt: null as string | null,
+    lengthHeightCm: '',
+    measurementPosition: '',
     muacMeasurement: '',
     palmarPallor: false,
     severePalmarPallor: false,
     
+    // Young Infant: Bacterial Infection
+    notFeedingWell: false,
+    severeChestIndrawing: false,
+    movementOnlyWhenStimulated: false,
+    umbilicusRedOrPus: false,
+    skinPustules: false,
+    
+    // Young Infant: Jaundice
+    hasJaundice: false,
+    jaundicePalmsSoles: false,
+    
+    // Young Infant: Feeding
+    breastfed: '',
+    breastfeedsPerDay: '',
+    receivesOtherFoods: false,
+    breastfeedingAttachment: '',
+    breastfeedingSuckling: '',
+    oralThrush: false,
+    notBreastfedAtNight: false,
+    mealsPerDay: '',
+    foodThinOrWatery: false,
+    usesFeedingBottle: false,
+    noOwnServing: false,
+    notActivelyFed: false,
+    feedingReducedDuringIllness: false,
+    
     // HIV
     motherHivPositive: '',
     childHivTested: false,
+    childHivTestType: '',
     childHivResult: '',
     
     // Immunization
     immunizationUpToDate: false,
     vitaminAGiven: false,
     dewormingGiven: false,
+
+    // Pre-referral treatments given
+    preReferralGiven: [] as string[],
   });
 
-  const { data: patient } = useQuery({
+  const { data: patient, isLoading: loadingPatient } = useQuery({
     queryKey: ['patient', patientId],
     queryFn: async () => {
       const { data, error } = await supabase
@@ -158,7 +311,118 @@ export default function IMNCIAssessment() {
     enabled: !!caseId,
   });
 
-  const ageInMonths = patient ? differenceInMonths(new Date(), new Date(patient.date_of_birth)) : 0;
+  const { data: protocolOverrides, isLoading: loadingProtocol } = useQuery({
+    queryKey: ['imnci-protocol-overrides', PROTOCOL_COUNTRY],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('imnci_protocol_overrides')
+        .select('*')
+        .eq('country', PROTOCOL_COUNTRY)
+        .eq('is_active', true);
+      if (error) throw error;
+      return data as unknown as ProtocolOverride[];
+    },
+  });
+
+  // An amendment is classified again under the protocol it was recorded with, which may since
+  // have been retired
+  const { data: recordedOverrides, isLoading: loadingRecordedProtocol } = useQuery({
+    queryKey: ['imnci-protocol-overrides', 'all'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('imnci_protocol_overrides')
+        .select('*');
+      if (error) throw error;
+      return data as unknown as ProtocolOverride[];
+    },
+    enabled: isAmending,
+  });
+
+  const { data: malariaRiskAreas, isLoading: loadingMalariaRisk } = useQuery({
+    queryKey: ['malaria-risk-areas'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('malaria_risk_areas')
+        .select('district, facility_name, risk_level');
+      if (error) throw error;
+      return data as MalariaRiskArea[];
+    },
+  });
+
+  const { data: medicationCatalog } = useQuery({
+    queryKey: ['medications'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('medications')
+        .select('id, name')
+        .order('name');
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const recordedProtocol = isAmending && existingAssessment?.protocol_version
+    ? resolveRecordedProtocol(recordedOverrides || [], existingAssessment.protocol_version)
+    : null;
+  const protocol = recordedProtocol || resolveProtocol(protocolOverrides || [], {
+    country: PROTOCOL_COUNTRY,
+    district: patient?.district,
+  });
+
+  const malariaRisk = isAmending && existingAssessment?.malaria_risk
+    ? existingAssessment.malaria_risk as MalariaRisk
+    : resolveMalariaRisk(malariaRiskAreas || [], {
+        district: patient?.district,
+        facilityName: profile?.facility_name,
+      });
+
+  // Classifying before the local protocol and malaria risk load would fall back to the generic chart
+  const protocolReady = !loadingProtocol && !loadingRecordedProtocol && !loadingMalariaRisk;
+
+  // A saved assessment is classified at the child's age on the day it was started
+  const assessedAt = existingAssessment ? new Date(existingAssessment.created_at) : new Date();
+  const ageInMonths = patient ? differenceInMonths(assessedAt, new Date(patient.date_of_birth)) : 0;
+  const ageInDays = patient ? differenceInDays(assessedAt, new Date(patient.date_of_birth)) : 0;
+  const youngInfant = !!patient && isYoungInfant(ageInDays);
+  const emergencyMode = !youngInfant && !fullAssessment && hasEmergencyDangerSign(classifications);
+  const STEPS = youngInfant ? YOUNG_INFANT_STEPS : emergencyMode ? EMERGENCY_STEPS : CHILD_STEPS;
+
+  // An amendment edits a completed assessment, so every step has been reached
+  const isStepReached = (stepId: string) => {
+    const progressStepId = emergencyMode && QUICK_STEP_IDS.includes(stepId) ? 'quick' : stepId;
+    const index = STEPS.findIndex((step) => step.id === progressStepId);
+    return index >= 0 && (isAmending || index <= currentStep);
+  };
+
+  // Rebuild the wizard from a saved assessment and resume at the first step not yet completed
+  useEffect(() => {
+    if (!existingAssessment || !patient || assessmentId === existingAssessment.id) return;
+    if (existingAssessment.status === 'completed' && !isAmending) {
+      toast({
+        title: 'Assessment already completed',
+        description: 'Use Amend on the patient record to correct a completed assessment.',
+      });
+      navigate(`/patients/${existingAssessment.patient_id}`, { replace: true });
+      return;
+    }
+    if (existingAssessment.status !== 'completed' && isAmending) {
+      navigate(`/assessments/${existingAssessment.id}`, { replace: true });
+      return;
+    }
+
+    const restored = (existingAssessment.classification_results || {}) as unknown as Record<string, ClassificationResult[]>;
+    const fastTracked = hasEmergencyDangerSign(restored) && existingAssessment.emergency_fast_track;
+    const steps = youngInfant ? YOUNG_INFANT_STEPS : fastTracked ? EMERGENCY_STEPS : CHILD_STEPS;
+
+    setAssessmentId(existingAssessment.id);
+    setFormData((prev) => ({ ...prev, ...formDataFromAssessment(existingAssessment) }));
+    setClassifications(restored);
+    setFullAssessment(hasEmergencyDangerSign(restored) && !fastTracked);
+    const resumeStep = steps.findIndex(
+      (step) => step.id !== 'summary' && !existingAssessment[STEP_COMPLETED_COLUMNS[step.id]]
+    );
+    setCurrentStep(resumeStep >= 0 && !isAmending ? resumeStep : steps.length - 1);
+  }, [existingAssessment, patient, assessmentId, isAmending, youngInfant, navigate, toast]);
 
   // Create or update assessment
   const saveAssessment = useMutation({
@@ -204,91 +468,288 @@ export default function IMNCIAssessment() {
     formData.lethargicUnconscious ||
     formData.convulsingNow;
 
-  const handleNext = () => {
-    // Calculate classification for current step
-    let classification: ClassificationResult | null = null;
-    
-    switch (STEPS[currentStep].id) {
+  const fastBreathingThreshold = getFastBreathingThreshold(ageInMonths, protocol);
+  const hasFeverByTemperature = (parseFloat(formData.temperature) || 0) >= protocol.thresholds.feverTemperature;
+
+  const measurementPosition = formData.measurementPosition || (ageInMonths < 24 ? 'lying' : 'standing');
+  const growthZScores = patient
+    ? calculateGrowthZScores({
+        sex: patient.gender,
+        ageInDays,
+        weightKg: parseFloat(formData.weightKg) || undefined,
+        lengthHeightCm: parseFloat(formData.lengthHeightCm) || undefined,
+        measuredLying: measurementPosition === 'lying',
+      })
+    : {};
+
+  const runningPlanC = formData.planCStartedAt && parseFloat(formData.weightKg)
+    ? calculatePlanC(ageInMonths, parseFloat(formData.weightKg))
+    : null;
+
+  const diarrheaInput = {
+      hasDiarrhea: formData.hasDiarrhea,
+      diarrheaDurationDays: parseInt(formData.diarrheaDurationDays) || undefined,
+      bloodInStool: formData.bloodInStool,
+      sunkenEyes: formData.sunkenEyes,
+      skinPinchSlow: formData.skinPinchSlow,
+      skinPinchVerySlow: formData.skinPinchVerySlow,
+      restlessIrritable: formData.restlessIrritable,
+      drinksEagerly: formData.drinksEagerly,
+      notAbleToDrink: formData.notAbleToDrinkDiarrhea,
+      lethargicUnconscious: youngInfant
+        ? formData.movementOnlyWhenStimulated
+        : formData.lethargicUnconscious,
+    };
+  const suggestedRehydrationPlan = getRehydrationPlan(assessDiarrhea(diarrheaInput, protocol)[0].classification);
+
+  const feverInput = {
+    hasFever: formData.hasFever,
+    feverDurationDays: parseInt(formData.feverDurationDays) || undefined,
+    temperature: parseFloat(formData.temperature) || undefined,
+    stiffNeck: formData.stiffNeck,
+    malariaRdtResult: formData.malariaRdtResult || undefined,
+    malariaRisk,
+    travelledToMalariaArea: malariaRisk !== 'high' && formData.travelledToMalariaArea,
+    otherFeverCause: formData.otherFeverCause,
+    measlesLast3Months: formData.measlesLast3Months,
+    generalizedRash: formData.generalizedRash,
+    runnyNose: formData.runnyNose,
+    mouthUlcers: formData.mouthUlcers,
+    deepMouthUlcers: formData.deepMouthUlcers,
+    pusDrainingEye: formData.pusDrainingEye,
+    cloudingCornea: formData.cloudingCornea,
+    hasDangerSigns,
+  };
+  const malariaTestRequired = isMalariaTestRequired(feverInput);
+  const malariaTestMissing = malariaTestRequired &&
+    formData.malariaRdtResult !== 'positive' && formData.malariaRdtResult !== 'negative';
+
+  // Feeding is assessed under 2 years, or with anemia or moderate acute malnutrition
+  const isFeedingRequired = (results: Record<string, ClassificationResult[]>) => {
+    const names = (results.nutrition || []).map((c) => c.classification);
+    return ageInMonths < 24 || names.includes('Anemia') || names.includes('Moderate Acute Malnutrition');
+  };
+  const nutritionClassifications = (classifications.nutrition || []).map((c) => c.classification);
+  const hasAnemia = nutritionClassifications.includes('Anemia');
+  const hasModerateMalnutrition = nutritionClassifications.includes('Moderate Acute Malnutrition');
+  const feedingRequired = isFeedingRequired(classifications);
+  const feedingInput: FeedingAssessmentInput = {
+    ageInMonths,
+    breastfed: formData.breastfed !== 'no',
+    breastfeedsPerDay: parseInt(formData.breastfeedsPerDay) || undefined,
+    notBreastfedAtNight: formData.notBreastfedAtNight,
+    receivesOtherFoods: formData.receivesOtherFoods,
+    mealsPerDay: parseInt(formData.mealsPerDay) || undefined,
+    foodThinOrWatery: formData.foodThinOrWatery,
+    usesFeedingBottle: formData.usesFeedingBottle,
+    noOwnServing: formData.noOwnServing,
+    notActivelyFed: formData.notActivelyFed,
+    feedingReducedDuringIllness: formData.feedingReducedDuringIllness,
+  };
+  const counsellingPoints = youngInfant || feedingRequired
+    ? getFeedingCounsellingPoints({
+        ...feedingInput,
+        attachment: youngInfant ? formData.breastfeedingAttachment : undefined,
+        suckling: youngInfant ? formData.breastfeedingSuckling : undefined,
+        oralThrush: youngInfant && formData.oralThrush,
+        hasAnemia,
+        hasModerateMalnutrition,
+      }, protocol)
+    : [];
+
+  // What a set of classifications calls for: the overall result, pre-referral treatment, doses
+  // and follow-up
+  const deriveOutcome = (results: Record<string, ClassificationResult[]>) => {
+    const all = Object.values(results).flat();
+    const preReferralChecklist = getPreReferralChecklist(all, {
+      malariaRisk: getEffectiveMalariaRisk(malariaRisk, feverInput.travelledToMalariaArea),
+    });
+
+    return {
+      all,
+      overall: calculateOverallAssessment(all),
+      preReferralChecklist,
+      preReferralRecords: preReferralChecklist.map((item) => ({
+        id: item.id,
+        label: item.label,
+        given: formData.preReferralGiven.includes(item.id),
+      })),
+      dosingRegimens: calculateDosing({
+        classifications: all,
+        ageInMonths,
+        weightKg: parseFloat(formData.weightKg) || undefined,
+        vitaminAGiven: formData.vitaminAGiven,
+        catalog: medicationCatalog,
+      }),
+      followUpSchedule: getFollowUpSchedule(all, assessedAt),
+      followUpInstructions: all
+        .filter((c) => FOLLOW_UP_DAYS[c.classification] !== undefined)
+        .map((c) => {
+          const days = FOLLOW_UP_DAYS[c.classification];
+          return `${c.classification}: follow up in ${days} ${days === 1 ? 'day' : 'days'}`;
+        }),
+    };
+  };
+
+  const {
+    overall,
+    preReferralChecklist,
+    preReferralRecords,
+    dosingRegimens,
+    followUpSchedule,
+    followUpInstructions,
+  } = deriveOutcome(classifications);
+  const followUpDueDate = followUpSchedule[0]?.dueDate;
+
+  // Classify one step from the form; feeding depends on the nutrition results so far
+  const classifyStep = (
+    stepId: string,
+    results: Record<string, ClassificationResult[]>
+  ): ClassificationResult[] | null => {
+    switch (stepId) {
       case 'danger':
-        classification = assessDangerSigns({
+        return assessDangerSigns({
           notAbleToDrink: formData.notAbleToDrink,
           vomitsEverything: formData.vomitsEverything,
           hasConvulsions: formData.hasConvulsions,
           lethargicUnconscious: formData.lethargicUnconscious,
           convulsingNow: formData.convulsingNow,
-        });
-        break;
+        }, protocol);
       case 'cough':
-        classification = assessCoughBreathing({
+        return assessCoughBreathing({
           hasCoughDifficultyBreathing: formData.hasCoughDifficultyBreathing,
           coughDurationDays: parseInt(formData.coughDurationDays) || undefined,
           breathsPerMinute: parseInt(formData.breathsPerMinute) || undefined,
           ageInMonths,
           chestIndrawing: formData.chestIndrawing,
           stridor: formData.stridor,
+          wheezing: formData.wheezing,
+          breathsPerMinuteAfterBronchodilator: parseInt(formData.breathsPerMinuteAfterBronchodilator) || undefined,
           hasDangerSigns,
-        });
-        break;
+        }, protocol);
       case 'diarrhea':
-        classification = assessDiarrhea({
-          hasDiarrhea: formData.hasDiarrhea,
-          diarrheaDurationDays: parseInt(formData.diarrheaDurationDays) || undefined,
-          bloodInStool: formData.bloodInStool,
-          sunkenEyes: formData.sunkenEyes,
-          skinPinchSlow: formData.skinPinchSlow,
-          skinPinchVerySlow: formData.skinPinchVerySlow,
-          restlessIrritable: formData.restlessIrritable,
-          drinksEagerly: formData.drinksEagerly,
-          notAbleToDrink: formData.notAbleToDrinkDiarrhea,
-          lethargicUnconscious: formData.lethargicUnconscious,
-        });
-        break;
+        return assessDiarrhea(diarrheaInput, protocol);
       case 'fever':
-        classification = assessFever({
-          hasFever: formData.hasFever,
-          feverDurationDays: parseInt(formData.feverDurationDays) || undefined,
-          temperature: parseFloat(formData.temperature) || undefined,
-          stiffNeck: formData.stiffNeck,
-          malariaRdtResult: formData.malariaRdtResult || undefined,
-          generalizedRash: formData.generalizedRash,
-          runnyNose: formData.runnyNose,
-          mouthUlcers: formData.mouthUlcers,
-          pusDrainingEye: formData.pusDrainingEye,
-          cloudingCornea: formData.cloudingCornea,
-          hasDangerSigns,
-        });
-        break;
+        return assessFever(feverInput, protocol);
       case 'ear':
-        classification = assessEarProblem({
+        return assessEarProblem({
           hasEarProblem: formData.hasEarProblem,
           earPain: formData.earPain,
           earDischarge: formData.earDischarge,
           earDischargeDurationDays: parseInt(formData.earDischargeDurationDays) || undefined,
           tenderSwellingBehindEar: formData.tenderSwellingBehindEar,
-        });
-        break;
+        }, protocol);
       case 'nutrition':
-        classification = assessNutrition({
+        return assessNutrition({
           visibleSevereWasting: formData.visibleSevereWasting,
           edemaBothFeet: formData.edemaBothFeet,
-          weightForAge: parseFloat(formData.weightForAge) || undefined,
+          weightForAge: growthZScores.weightForAge,
+          weightForHeight: growthZScores.weightForHeight,
           muacMeasurement: parseFloat(formData.muacMeasurement) || undefined,
           palmarPallor: formData.palmarPallor,
           severePalmarPallor: formData.severePalmarPallor,
-        });
-        break;
+        }, protocol);
+      case 'feeding':
+        return isFeedingRequired(results) ? assessFeeding(feedingInput, protocol) : [];
+      case 'hiv':
+        return assessHIV({
+          motherHivPositive: formData.motherHivPositive === 'yes' ? true : formData.motherHivPositive === 'no' ? false : undefined,
+          childHivTested: formData.childHivTested,
+          childHivTestType: formData.childHivTestType || undefined,
+          childHivResult: formData.childHivResult || undefined,
+          ageInMonths,
+          breastfeeding: formData.breastfed === 'yes',
+        }, protocol);
+      case 'infant_infection':
+        return assessYoungInfantInfection({
+          notFeedingWell: formData.notFeedingWell,
+          hasConvulsions: formData.hasConvulsions,
+          breathsPerMinute: parseInt(formData.breathsPerMinute) || undefined,
+          severeChestIndrawing: formData.severeChestIndrawing,
+          temperature: parseFloat(formData.temperature) || undefined,
+          movementOnlyWhenStimulated: formData.movementOnlyWhenStimulated,
+          umbilicusRedOrPus: formData.umbilicusRedOrPus,
+          skinPustules: formData.skinPustules,
+        }, protocol);
+      case 'jaundice':
+        return assessYoungInfantJaundice({
+          hasJaundice: formData.hasJaundice,
+          ageInDays,
+          palmsSolesYellow: formData.jaundicePalmsSoles,
+        }, protocol);
+      case 'infant_feeding':
+        return assessYoungInfantFeeding({
+          breastfed: formData.breastfed !== 'no',
+          breastfeedsPerDay: parseInt(formData.breastfeedsPerDay) || undefined,
+          receivesOtherFoods: formData.receivesOtherFoods,
+          attachment: formData.breastfeedingAttachment || undefined,
+          suckling: formData.breastfeedingSuckling || undefined,
+          oralThrush: formData.oralThrush,
+          weightForAge: growthZScores.weightForAge,
+        }, protocol);
+      default:
+        return null;
     }
+  };
 
-    if (classification) {
-      setClassifications((prev) => {
-        const newClassifications = [...prev];
-        newClassifications[currentStep] = classification!;
-        return newClassifications;
+  // The quick assessment classifies each module it covers
+  const classifySteps = (stepIds: string[], results: Record<string, ClassificationResult[]>) =>
+    expandStepIds(stepIds).reduce((next, stepId) => {
+      const stepClassifications = classifyStep(stepId, next);
+      return stepClassifications ? { ...next, [stepId]: stepClassifications } : next;
+    }, results);
+
+  // Every step classified again in order, for an amendment
+  const recomputeClassifications = () => classifySteps(STEPS.map((step) => step.id), {});
+
+  const stepErrors = validateAssessmentSteps(expandStepIds([STEPS[currentStep].id]), formData);
+
+  // Block saving while any entered value is out of range or contradicts another
+  const showValidationErrors = (errors: Record<string, string>) => {
+    const messages = Object.values(errors);
+    if (messages.length === 0) return false;
+    toast({
+      title: 'Check the highlighted fields',
+      description: messages.length > 1 ? `${messages[0]} (and ${messages.length - 1} more)` : messages[0],
+      variant: 'destructive',
+    });
+    return true;
+  };
+
+  const handleNext = () => {
+    if (!protocolReady) return;
+    if (showValidationErrors(stepErrors)) return;
+
+    if (
+      STEPS[currentStep].id === 'cough' &&
+      formData.hasCoughDifficultyBreathing &&
+      formData.wheezing &&
+      (parseInt(formData.breathsPerMinute) || 0) >= fastBreathingThreshold &&
+      !formData.breathsPerMinuteAfterBronchodilator
+    ) {
+      toast({
+        title: 'Bronchodilator trial required',
+        description: 'Give a rapid-acting bronchodilator and re-count the breathing before classifying pneumonia.',
+        variant: 'destructive',
       });
+      return;
+    }
+
+    // Amendments are only saved once a reason is given on the summary
+    if (isAmending) {
+      setClassifications(recomputeClassifications());
+      if (currentStep < STEPS.length - 1) {
+        setCurrentStep(currentStep + 1);
+      }
+      return;
     }
 
+    // Calculate classifications for current step
+    const nextClassifications = classifySteps([STEPS[currentStep].id], classifications);
+    setClassifications(nextClassifications);
+
     // Save progress
-    saveAssessment.mutate(buildAssessmentData());
+    saveAssessment.mutate(buildAssessmentData(nextClassifications));
 
     if (currentStep < STEPS.length - 1) {
       setCurrentStep(currentStep + 1);
@@ -301,111 +762,265 @@ export default function IMNCIAssessment() {
     }
   };
 
-  const buildAssessmentData = () => {
+  // Any step can be reopened during an amendment, reclassifying what has changed
+  const canOpenStep = (index: number) => isAmending || index <= currentStep;
+  const goToStep = (index: number) => {
+    if (!canOpenStep(index)) return;
+    if (isAmending) setClassifications(recomputeClassifications());
+    setCurrentStep(index);
+  };
+
+  const buildAssessmentData = (results: Record<string, ClassificationResult[]> = classifications) => {
+    const summaries = Object.fromEntries(
+      Object.entries(results).map(([stepId, stepResults]) => [stepId, summarizeClassifications(stepResults)])
+    );
+    const outcome = deriveOutcome(results);
+
     return {
-      danger_signs_completed: currentStep >= 0,
+      is_young_infant: youngInfant,
+      emergency_fast_track: !youngInfant && !fullAssessment && hasEmergencyDangerSign(results),
+      protocol_version: protocol.version,
+      classification_results: results as unknown as Json,
+      danger_signs_completed: isStepReached('danger'),
       not_able_to_drink: formData.notAbleToDrink,
       vomits_everything: formData.vomitsEverything,
       has_convulsions: formData.hasConvulsions,
       lethargic_unconscious: formData.lethargicUnconscious,
       convulsing_now: formData.convulsingNow,
       
-      cough_breathing_completed: currentStep >= 1,
+      cough_breathing_completed: isStepReached('cough'),
       has_cough_difficulty_breathing: formData.hasCoughDifficultyBreathing,
       cough_duration_days: parseInt(formData.coughDurationDays) || null,
       breaths_per_minute: parseInt(formData.breathsPerMinute) || null,
       chest_indrawing: formData.chestIndrawing,
       stridor: formData.stridor,
       wheezing: formData.wheezing,
-      cough_classification: classifications[1]?.classification || null,
-      cough_classification_color: classifications[1]?.color || null,
+      breaths_per_minute_after_bronchodilator: formData.wheezing
+        ? parseInt(formData.breathsPerMinuteAfterBronchodilator) || null
+        : null,
+      cough_classification: summaries.cough?.classification || null,
+      cough_classification_color: summaries.cough?.color || null,
       
-      diarrhea_completed: currentStep >= 2,
+      diarrhea_completed: isStepReached('diarrhea'),
       has_diarrhea: formData.hasDiarrhea,
       diarrhea_duration_days: parseInt(formData.diarrheaDurationDays) || null,
       blood_in_stool: formData.bloodInStool,
+      rehydration_plan: formData.hasDiarrhea ? formData.rehydrationPlan || suggestedRehydrationPlan : null,
+      plan_c_started_at: formData.planCStartedAt,
+      plan_c_reassessed_at: formData.planCReassessedAt,
       sunken_eyes: formData.sunkenEyes,
       skin_pinch_slow: formData.skinPinchSlow,
       skin_pinch_very_slow: formData.skinPinchVerySlow,
       restless_irritable: formData.restlessIrritable,
       drinks_eagerly: formData.drinksEagerly,
       not_able_to_drink_diarrhea: formData.notAbleToDrinkDiarrhea,
-      diarrhea_classification: classifications[2]?.classification || null,
-      diarrhea_classification_color: classifications[2]?.color || null,
+      diarrhea_classification: summaries.diarrhea?.classification || null,
+      diarrhea_classification_color: summaries.diarrhea?.color || null,
       
-      fever_completed: currentStep >= 3,
+      fever_completed: isStepReached('fever'),
       has_fever: formData.hasFever,
       fever_duration_days: parseInt(formData.feverDurationDays) || null,
       temperature: parseFloat(formData.temperature) || null,
       stiff_neck: formData.stiffNeck,
       malaria_rdt_result: formData.malariaRdtResult || null,
+      malaria_risk: malariaRisk,
+      travelled_to_malaria_area: feverInput.travelledToMalariaArea,
+      other_fever_cause: formData.otherFeverCause,
+      malaria_rdt_required: isStepReached('fever') && malariaTestRequired,
+      measles_last_3_months: formData.measlesLast3Months,
       generalized_rash: formData.generalizedRash,
       runny_nose: formData.runnyNose,
       mouth_ulcers: formData.mouthUlcers,
+      deep_mouth_ulcers: formData.deepMouthUlcers,
       pus_draining_eye: formData.pusDrainingEye,
       clouding_cornea: formData.cloudingCornea,
-      fever_classification: classifications[3]?.classification || null,
-      fever_classification_color: classifications[3]?.color || null,
+      fever_classification: summaries.fever?.classification || null,
+      fever_classification_color: summaries.fever?.color || null,
       
-      ear_completed: currentStep >= 4,
+      ear_completed: isStepReached('ear'),
       has_ear_problem: formData.hasEarProblem,
       ear_pain: formData.earPain,
       ear_discharge: formData.earDischarge,
       ear_discharge_duration_days: parseInt(formData.earDischargeDurationDays) || null,
       tender_swelling_behind_ear: formData.tenderSwellingBehindEar,
-      ear_classification: classifications[4]?.classification || null,
-      ear_classification_color: classifications[4]?.color || null,
+      ear_classification: summaries.ear?.classification || null,
+      ear_classification_color: summaries.ear?.color || null,
       
-      nutrition_completed: currentStep >= 5,
+      nutrition_completed: isStepReached('nutrition'),
       visible_severe_wasting: formData.visibleSevereWasting,
       edema_both_feet: formData.edemaBothFeet,
-      weight_for_age: parseFloat(formData.weightForAge) || null,
+      weight_for_age: growthZScores.weightForAge ?? null,
+      weight_for_height: growthZScores.weightForHeight ?? null,
+      height_for_age: growthZScores.heightForAge ?? null,
+      length_height_cm: parseFloat(formData.lengthHeightCm) || null,
+      measured_lying: formData.lengthHeightCm ? measurementPosition === 'lying' : null,
       muac_measurement: parseFloat(formData.muacMeasurement) || null,
+      weight_kg: parseFloat(formData.weightKg) || null,
       palmar_pallor: formData.palmarPallor,
       severe_palmar_pallor: formData.severePalmarPallor,
-      nutrition_classification: classifications[5]?.classification || null,
-      nutrition_classification_color: classifications[5]?.color || null,
+      nutrition_classification: summaries.nutrition?.classification || null,
+      nutrition_classification_color: summaries.nutrition?.color || null,
+      
+      infant_infection_completed: isStepReached('infant_infection'),
+      not_feeding_well: formData.notFeedingWell,
+      severe_chest_indrawing: formData.severeChestIndrawing,
+      movement_only_when_stimulated: formData.movementOnlyWhenStimulated,
+      umbilicus_red_or_pus: formData.umbilicusRedOrPus,
+      skin_pustules: formData.skinPustules,
+      infant_infection_classification: summaries.infant_infection?.classification || null,
+      infant_infection_classification_color: summaries.infant_infection?.color || null,
+      
+      jaundice_completed: isStepReached('jaundice'),
+      has_jaundice: formData.hasJaundice,
+      jaundice_palms_soles: formData.jaundicePalmsSoles,
+      jaundice_classification: summaries.jaundice?.classification || null,
+      jaundice_classification_color: summaries.jaundice?.color || null,
+      
+      infant_feeding_completed: isStepReached('infant_feeding'),
+      breastfed: formData.breastfed === 'yes' ? true : formData.breastfed === 'no' ? false : null,
+      breastfeeds_per_day: parseInt(formData.breastfeedsPerDay) || null,
+      receives_other_foods: formData.receivesOtherFoods,
+      breastfeeding_attachment: formData.breastfeedingAttachment || null,
+      breastfeeding_suckling: formData.breastfeedingSuckling || null,
+      oral_thrush: formData.oralThrush,
+      infant_feeding_classification: summaries.infant_feeding?.classification || null,
+      infant_feeding_classification_color: summaries.infant_feeding?.color || null,
       
-      immunization_completed: currentStep >= 6,
+      immunization_completed: isStepReached('immunization'),
       immunization_up_to_date: formData.immunizationUpToDate,
       vitamin_a_given: formData.vitaminAGiven,
       deworming_given: formData.dewormingGiven,
       
-      hiv_completed: true,
+      hiv_completed: isStepReached('hiv'),
       mother_hiv_positive: formData.motherHivPositive === 'yes' ? true : formData.motherHivPositive === 'no' ? false : null,
       child_hiv_tested: formData.childHivTested,
-      child_hiv_result: formData.childHivResult || null,
+      child_hiv_test_type: formData.childHivTested ? formData.childHivTestType || null : null,
+      child_hiv_result: formData.childHivTested ? formData.childHivResult || null : null,
+      hiv_classification: summaries.hiv?.classification || null,
+      hiv_classification_color: summaries.hiv?.color || null,
+
+      feeding_completed: isStepReached('feeding'),
+      not_breastfed_at_night: formData.notBreastfedAtNight,
+      meals_per_day: parseInt(formData.mealsPerDay) || null,
+      food_thin_or_watery: formData.foodThinOrWatery,
+      uses_feeding_bottle: formData.usesFeedingBottle,
+      no_own_serving: formData.noOwnServing,
+      not_actively_fed: formData.notActivelyFed,
+      feeding_reduced_during_illness: formData.feedingReducedDuringIllness,
+      feeding_classification: summaries.feeding?.classification || null,
+      feeding_classification_color: summaries.feeding?.color || null,
+      counselling_points: counsellingPoints.length > 0 ? counsellingPoints : null,
+      pre_referral_treatments: outcome.preReferralRecords.length > 0 ? outcome.preReferralRecords as unknown as Json : null,
+    };
+  };
+
+  // Everything stored when the assessment is completed or amended
+  const buildCompletionData = (results: Record<string, ClassificationResult[]> = classifications) => {
+    const { all, overall, dosingRegimens, followUpSchedule, followUpInstructions } = deriveOutcome(results);
+    const followUpDueDate = followUpSchedule[0]?.dueDate;
+
+    return {
+      ...buildAssessmentData(results),
+      status: 'completed' as const,
+      overall_classification: overall.overallClassification,
+      overall_classification_color: overall.overallColor,
+      requires_referral: overall.requiresReferral,
+      referral_urgency: overall.referralUrgency !== 'none' ? overall.referralUrgency : null,
+      treatment_recommendations: all
+        .map((c) => c.treatment)
+        .filter(Boolean)
+        .join('\n\n'),
+      dosing_regimens: dosingRegimens as unknown as Json,
+      follow_up_due_date: followUpDueDate ? format(followUpDueDate, 'yyyy-MM-dd') : null,
+      follow_up_instructions: followUpInstructions.length > 0 ? followUpInstructions.join('\n') : null,
     };
   };
 
+  // Schedule the follow-up appointments, replacing any from an earlier completion
+  const scheduleFollowUps = async () => {
+    const { error: deleteError } = await supabase
+      .from('follow_up_appointments')
+      .delete()
+      .eq('assessment_id', assessmentId)
+      .eq('status', 'scheduled');
+    if (deleteError) throw deleteError;
+    if (followUpSchedule.length > 0) {
+      const { error: appointmentError } = await supabase.from('follow_up_appointments').insert(
+        followUpSchedule.map((appointment) => ({
+          assessment_id: assessmentId,
+          patient_id: patientId,
+          case_id: caseId,
+          due_date: format(appointment.dueDate, 'yyyy-MM-dd'),
+          reasons: appointment.reasons,
+        }))
+      );
+      if (appointmentError) throw appointmentError;
+    }
+  };
+
+  // Raise the prescription order with its lines in one transaction, replacing lines not yet dispensed
+  const savePrescriptionOrder = async () => {
+    const { error } = await supabase.rpc('save_prescription_order', {
+      _assessment_id: assessmentId,
+      _patient_id: patientId,
+      _case_id: caseId,
+      _items: prescriptionLinesFromRegimens(dosingRegimens) as unknown as Json,
+    });
+    if (error) throw error;
+  };
+
+  // Carry the calculated doses into the case's medications, in place of the doses calculated before
+  const updateCaseMedications = async (previousRegimens: DosingRegimen[]) => {
+    const previousLines = previousRegimens.map(formatRegimen);
+    const existingMedications = caseData?.medications ? caseData.medications.split('\n') : [];
+    const keptMedications = existingMedications.filter((line) => !previousLines.includes(line));
+    const newMedications = dosingRegimens
+      .map(formatRegimen)
+      .filter((line) => !keptMedications.includes(line));
+    const medications = [...keptMedications, ...newMedications];
+    if (medications.join('\n') === existingMedications.join('\n')) return;
+
+    const { error: caseError } = await supabase
+      .from('cases')
+      .update({ medications: medications.length > 0 ? medications.join('\n') : null })
+      .eq('id', caseId);
+    if (caseError) throw caseError;
+  };
+
+  // A completed assessment only changes by amendment, so a retry after a later step failed
+  // leaves the completion from the first attempt in place
+  const markCompleted = async (results: Record<string, ClassificationResult[]> = classifications) => {
+    const { error } = await supabase
+      .from('imnci_assessments')
+      .update(buildCompletionData(results))
+      .eq('id', assessmentId)
+      .neq('status', 'completed');
+    if (error) throw error;
+  };
+
+  // Complete the assessment, schedule its follow-ups and add the doses to the case. Every step
+  // can run again, so a failed completion can be retried
+  const saveCompletion = async () => {
+    await markCompleted();
+    await scheduleFollowUps();
+
+    await updateCaseMedications([]);
+
+    // Send the doses to the pharmacy queue
+    if (dosingRegimens.length > 0) await savePrescriptionOrder();
+  };
+
   const completeAssessment = useMutation({
     mutationFn: async () => {
-      const overall = calculateOverallAssessment(classifications.filter(Boolean));
-      
-      const finalData = {
-        ...buildAssessmentData(),
-        status: 'completed' as const,
-        overall_classification: overall.overallClassification,
-        overall_classification_color: overall.overallColor,
-        requires_referral: overall.requiresReferral,
-        referral_urgency: overall.referralUrgency !== 'none' ? overall.referralUrgency : null,
-        treatment_recommendations: classifications
-          .filter(Boolean)
-          .map((c) => c.treatment)
-          .filter(Boolean)
-          .join('\n\n'),
-      };
-
-      const { error } = await supabase
-        .from('imnci_assessments')
-        .update(finalData)
-        .eq('id', assessmentId);
-
-      if (error) throw error;
+      await saveCompletion();
       return overall;
     },
     onSuccess: (overall) => {
       queryClient.invalidateQueries({ queryKey: ['patient-assessments', patientId] });
+      queryClient.invalidateQueries({ queryKey: ['case', caseId] });
+      queryClient.invalidateQueries({ queryKey: ['follow-up-appointments'] });
+      queryClient.invalidateQueries({ queryKey: ['assessment', assessmentId] });
+      queryClient.invalidateQueries({ queryKey: ['prescription-orders'] });
       toast({
         title: 'Assessment Complete',
         description: overall.requiresReferral
@@ -423,8 +1038,256 @@ export default function IMNCIAssessment() {
     },
   });
 
+  // The stored assessment before amending, the values that differ and any change in outcome
+  const originalValues: Record<string, unknown> | null = existingAssessment
+    ? Object.fromEntries(Object.entries(existingAssessment).filter(([key]) => key !== 'patients'))
+    : null;
+  const amendedValues = isAmending && originalValues ? buildCompletionData() : null;
+  const amendmentChanges = amendedValues ? getAssessmentChanges(originalValues, amendedValues) : [];
+  const outcomeChange = amendedValues ? getOutcomeChange(existingAssessment, amendedValues) : null;
+
+  const amendAssessment = useMutation({
+    mutationFn: async () => {
+      // The revision keeping the values as they were and the amended values are saved together.
+      // A retry after a later step failed goes straight on to that step
+      if (savedRevision === null) {
+        const { data: revisionNumber, error } = await supabase.rpc('amend_assessment', {
+          _assessment_id: existingAssessment.id,
+          _values: amendedValues as unknown as Json,
+          _changes: amendmentChanges as unknown as Json,
+          _reason: amendmentReason.trim(),
+        });
+        if (error) throw error;
+        setSavedRevision(revisionNumber);
+      }
+
+      // Both steps replace what they saved before, so they can run again
+      if (
+        amendedValues.follow_up_due_date !== existingAssessment.follow_up_due_date ||
+        amendedValues.follow_up_instructions !== existingAssessment.follow_up_instructions
+      ) {
+        await scheduleFollowUps();
+      }
+
+      // Replace the doses not yet dispensed, even when none are needed now
+      const previousRegimens = (existingAssessment.dosing_regimens || []) as unknown as DosingRegimen[];
+      if (JSON.stringify(amendedValues.dosing_regimens) !== JSON.stringify(previousRegimens)) {
+        await updateCaseMedications(previousRegimens);
+        await savePrescriptionOrder();
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['patient-assessments', patientId] });
+      queryClient.invalidateQueries({ queryKey: ['assessment', existingAssessment?.id] });
+      queryClient.invalidateQueries({ queryKey: ['assessment-revisions'] });
+      queryClient.invalidateQueries({ queryKey: ['follow-up-appointments'] });
+      queryClient.invalidateQueries({ queryKey: ['prescription-orders'] });
+      queryClient.invalidateQueries({ queryKey: ['case', caseId] });
+      toast({
+        title: 'Amendment Saved',
+        description: outcomeChange
+          ? 'The classification of this assessment has changed. Review the treatment plan.'
+          : 'The original values are kept in the revision history.',
+      });
+      navigate(`/patients/${patientId}`);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error saving amendment',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  // Refer to the chosen facility with the findings and pre-referral treatment, and mark the case referred
+  const sendReferral = async (results: Record<string, ClassificationResult[]>, urgency: string, intro?: string) => {
+    const { all, overall, preReferralRecords } = deriveOutcome(results);
+
+    // A retry after the case update failed must not refer the child twice
+    const { data: sentReferrals, error: sentError } = await supabase
+      .from('referrals')
+      .select('id')
+      .eq('assessment_id', assessmentId)
+      .limit(1);
+    if (sentError) throw sentError;
+
+    if (sentReferrals.length === 0) {
+      const { error: referralError } = await supabase.from('referrals').insert({
+        referral_number: generateReferralNumber(),
+        case_id: caseId,
+        assessment_id: assessmentId,
+        from_facility: profile?.facility_name || 'Unknown PHU',
+        to_facility: referralFacility,
+        referred_by: user?.id,
+        reason: overall.criticalFindings.join('; ') || overall.overallClassification,
+        urgency,
+        notes: formatReferralNotes(all, preReferralRecords, intro),
+        status: 'pending',
+        pre_referral_treatments: preReferralRecords.length > 0 ? preReferralRecords as unknown as Json : null,
+      });
+      if (referralError) throw referralError;
+    }
+
+    const { error: caseError } = await supabase
+      .from('cases')
+      .update({ status: 'referred' })
+      .eq('id', caseId);
+    if (caseError) throw caseError;
+  };
+
+  // Complete the assessment and send the referral it calls for in one step
+  const completeWithReferral = useMutation({
+    mutationFn: async () => {
+      await saveCompletion();
+      await sendReferral(classifications, overall.referralUrgency !== 'none' ? overall.referralUrgency : 'urgent');
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['patient-assessments', patientId] });
+      queryClient.invalidateQueries({ queryKey: ['assessment', assessmentId] });
+      queryClient.invalidateQueries({ queryKey: ['follow-up-appointments'] });
+      queryClient.invalidateQueries({ queryKey: ['prescription-orders'] });
+      queryClient.invalidateQueries({ queryKey: ['referrals'] });
+      queryClient.invalidateQueries({ queryKey: ['cases'] });
+      queryClient.invalidateQueries({ queryKey: ['case', caseId] });
+      toast({
+        title: 'Referral Sent',
+        description: `Assessment completed and referred to ${referralFacility}.`,
+      });
+      navigate('/referrals');
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error sending referral',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  // Complete the assessment with what has been recorded so far and refer at once, classifying
+  // the step in progress first so its findings go with the child
+  const emergencyReferral = useMutation({
+    mutationFn: async () => {
+      const results = classifySteps([STEPS[currentStep].id], classifications);
+      setClassifications(results);
+      await markCompleted(results);
+      await sendReferral(results, 'emergency', 'Emergency referral after a general danger sign.');
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['patient-assessments', patientId] });
+      queryClient.invalidateQueries({ queryKey: ['assessment', assessmentId] });
+      queryClient.invalidateQueries({ queryKey: ['referrals'] });
+      queryClient.invalidateQueries({ queryKey: ['cases'] });
+      queryClient.invalidateQueries({ queryKey: ['case', caseId] });
+      toast({
+        title: 'Emergency Referral Sent',
+        description: `Referred to ${referralFacility}.`,
+      });
+      navigate('/referrals');
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error sending referral',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
   const progress = ((currentStep + 1) / STEPS.length) * 100;
 
+  // Pre-referral treatments to tick off as they are given
+  const renderPreReferralChecklist = () => (
+    <div className="space-y-3">
+      <p className="font-medium">Give before the child leaves:</p>
+      {preReferralChecklist.map((item) => (
+        <div key={item.id}>
+          <CheckboxField
+            label={item.label}
+            checked={formData.preReferralGiven.includes(item.id)}
+            onChange={(checked) => setFormData({
+              ...formData,
+              preReferralGiven: checked
+                ? [...formData.preReferralGiven, item.id]
+                : formData.preReferralGiven.filter((id) => id !== item.id),
+            })}
+          />
+          <p className="ml-7 text-xs text-muted-foreground">
+            {item.detail && `${item.detail} `}For: {item.reasons.join(', ')}
+          </p>
+        </div>
+      ))}
+      <p className="text-xs text-muted-foreground">
+        {preReferralRecords.filter((r) => r.given).length} of {preReferralRecords.length} given.
+        This record is attached to the referral for this case.
+      </p>
+    </div>
+  );
+
+  // Weight and length/height, with the WHO z-scores computed from them
+  const renderAnthropometry = () => (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>Weight (kg)</Label>
+          <Input
+            type="number"
+            step="0.1"
+            min="0"
+            value={formData.weightKg}
+            onChange={(e) => setFormData({ ...formData, weightKg: e.target.value })}
+            placeholder="e.g., 9.5"
+          />
+          <FieldError message={stepErrors.weightKg} />
+        </div>
+        <div className="space-y-2">
+          <Label>Length/height (cm)</Label>
+          <Input
+            type="number"
+            step="0.1"
+            min="0"
+            value={formData.lengthHeightCm}
+            onChange={(e) => setFormData({ ...formData, lengthHeightCm: e.target.value })}
+            placeholder="e.g., 75.5"
+          />
+          <FieldError message={stepErrors.lengthHeightCm} />
+        </div>
+      </div>
+      <RadioGroup
+        value={measurementPosition}
+        onValueChange={(value) => setFormData({ ...formData, measurementPosition: value })}
+        className="flex gap-4"
+      >
+        <div className="flex items-center gap-2">
+          <RadioGroupItem value="lying" id="measured-lying" />
+          <Label htmlFor="measured-lying">Measured lying (length)</Label>
+        </div>
+        <div className="flex items-center gap-2">
+          <RadioGroupItem value="standing" id="measured-standing" />
+          <Label htmlFor="measured-standing">Measured standing (height)</Label>
+        </div>
+      </RadioGroup>
+      <div className="grid grid-cols-3 gap-2">
+        {[
+          { label: 'Weight for age', value: growthZScores.weightForAge },
+          { label: 'Weight for height', value: growthZScores.weightForHeight },
+          { label: 'Height for age', value: growthZScores.heightForAge },
+        ].map((score) => (
+          <div key={score.label} className="p-2 rounded-md border text-center">
+            <p className="text-xs text-muted-foreground">{score.label}</p>
+            <p className={`font-bold ${score.value !== undefined && score.value < -2 ? 'text-red-700 dark:text-red-400' : ''}`}>
+              {score.value !== undefined ? `${score.value > 0 ? '+' : ''}${score.value.toFixed(2)} z` : '—'}
+            </p>
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Z-scores against the WHO 2006 growth standards. Weight is also used to calculate drug doses.
+      </p>
+    </div>
+  );
+
   const renderStepContent = () => {
     switch (STEPS[currentStep].id) {
       case 'danger':
@@ -473,38 +1336,217 @@ export default function IMNCIAssessment() {
           </div>
         );
 
-      case 'cough':
+      case 'quick':
         return (
-          <div className="space-y-4">
-            <CheckboxField
-              label="Does the child have cough or difficult breathing?"
-              checked={formData.hasCoughDifficultyBreathing}
-              onChange={(checked) => setFormData({ ...formData, hasCoughDifficultyBreathing: checked })}
-            />
-            
-            {formData.hasCoughDifficultyBreathing && (
-              <>
-                <div className="grid grid-cols-2 gap-4">
-                  <div className="space-y-2">
-                    <Label>For how long? (days)</Label>
-                    <Input
-                      type="number"
-                      min="0"
-                      value={formData.coughDurationDays}
-                      onChange={(e) => setFormData({ ...formData, coughDurationDays: e.target.value })}
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label>Breaths per minute</Label>
+          <div className="space-y-6">
+            <p className="text-sm text-muted-foreground">
+              Record only the signs that change the referral and pre-referral treatment.
+            </p>
+
+            <div className="space-y-3">
+              <p className="font-medium flex items-center gap-2"><Wind className="h-4 w-4" /> Cough/Breathing</p>
+              <CheckboxField
+                label="Cough or difficult breathing"
+                checked={formData.hasCoughDifficultyBreathing}
+                onChange={(checked) => setFormData(setQuestion(formData, 'hasCoughDifficultyBreathing', checked))}
+              />
+              {formData.hasCoughDifficultyBreathing && (
+                <div className="ml-7 space-y-3">
+                  <div className="flex gap-2 max-w-xs">
                     <Input
                       type="number"
                       min="0"
+                      placeholder="Breaths per minute"
                       value={formData.breathsPerMinute}
                       onChange={(e) => setFormData({ ...formData, breathsPerMinute: e.target.value })}
                     />
-                    <p className="text-xs text-muted-foreground">
-                      Fast breathing: {ageInMonths < 2 ? '≥60' : ageInMonths < 12 ? '≥50' : '≥40'}/min for this age
-                    </p>
+                    <BreathingCounter
+                      threshold={fastBreathingThreshold}
+                      onCount={(count) => setFormData((prev) => ({ ...prev, breathsPerMinute: String(count) }))}
+                    />
+                  </div>
+                  <FieldError message={stepErrors.breathsPerMinute} />
+                  <CheckboxField
+                    label="Chest indrawing"
+                    checked={formData.chestIndrawing}
+                    onChange={(checked) => setFormData({ ...formData, chestIndrawing: checked })}
+                  />
+                  <CheckboxField
+                    label="Stridor in calm child"
+                    checked={formData.stridor}
+                    onChange={(checked) => setFormData({ ...formData, stridor: checked })}
+                  />
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-3">
+              <p className="font-medium flex items-center gap-2"><Droplets className="h-4 w-4" /> Diarrhea</p>
+              <CheckboxField
+                label="Diarrhea"
+                checked={formData.hasDiarrhea}
+                onChange={(checked) => setFormData(setQuestion(formData, 'hasDiarrhea', checked))}
+              />
+              {formData.hasDiarrhea && (
+                <div className="ml-7 space-y-3">
+                  <CheckboxField
+                    label="Sunken eyes"
+                    checked={formData.sunkenEyes}
+                    onChange={(checked) => setFormData({ ...formData, sunkenEyes: checked })}
+                  />
+                  <CheckboxField
+                    label="Skin pinch goes back very slowly (>2 seconds)"
+                    checked={formData.skinPinchVerySlow}
+                    onChange={(checked) => setFormData({ ...formData, skinPinchVerySlow: checked })}
+                  />
+                  <FieldError message={stepErrors.skinPinchVerySlow} />
+                  <CheckboxField
+                    label="Blood in stool"
+                    checked={formData.bloodInStool}
+                    onChange={(checked) => setFormData({ ...formData, bloodInStool: checked })}
+                  />
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-3">
+              <p className="font-medium flex items-center gap-2"><Thermometer className="h-4 w-4" /> Fever</p>
+              <CheckboxField
+                label="Fever (by history, feels hot, or temperature 37.5°C or above)"
+                checked={formData.hasFever}
+                onChange={(checked) => setFormData({ ...formData, hasFever: checked })}
+              />
+              {formData.hasFever && (
+                <div className="ml-7 space-y-3">
+                  <Input
+                    type="number"
+                    step="0.1"
+                    placeholder="Temperature (°C)"
+                    className="max-w-xs"
+                    value={formData.temperature}
+                    onChange={(e) => setFormData({ ...formData, temperature: e.target.value })}
+                  />
+                  <FieldError message={stepErrors.temperature} />
+                  <CheckboxField
+                    label="Stiff neck"
+                    checked={formData.stiffNeck}
+                    onChange={(checked) => setFormData({ ...formData, stiffNeck: checked })}
+                  />
+                  <RadioGroup
+                    value={formData.malariaRdtResult}
+                    onValueChange={(value) => setFormData({ ...formData, malariaRdtResult: value })}
+                    className="flex gap-4"
+                  >
+                    <div className="flex items-center gap-2">
+                      <RadioGroupItem value="positive" id="quick-rdt-pos" />
+                      <Label htmlFor="quick-rdt-pos">RDT positive</Label>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <RadioGroupItem value="negative" id="quick-rdt-neg" />
+                      <Label htmlFor="quick-rdt-neg">RDT negative</Label>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <RadioGroupItem value="not_done" id="quick-rdt-nd" />
+                      <Label htmlFor="quick-rdt-nd">Not done</Label>
+                    </div>
+                  </RadioGroup>
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-3">
+              <p className="font-medium flex items-center gap-2"><Ear className="h-4 w-4" /> Ear</p>
+              <CheckboxField
+                label="Tender swelling behind the ear"
+                checked={formData.tenderSwellingBehindEar}
+                onChange={(checked) => setFormData({
+                  ...formData,
+                  hasEarProblem: checked || formData.hasEarProblem,
+                  tenderSwellingBehindEar: checked,
+                })}
+              />
+            </div>
+
+            <div className="space-y-3">
+              <p className="font-medium flex items-center gap-2"><Apple className="h-4 w-4" /> Nutrition</p>
+              <div className="grid grid-cols-2 gap-4 max-w-md">
+                <div className="space-y-2">
+                  <Label>Weight (kg)</Label>
+                  <Input
+                    type="number"
+                    step="0.1"
+                    min="0"
+                    value={formData.weightKg}
+                    onChange={(e) => setFormData({ ...formData, weightKg: e.target.value })}
+                  />
+                  <FieldError message={stepErrors.weightKg} />
+                </div>
+                <div className="space-y-2">
+                  <Label>MUAC (cm)</Label>
+                  <Input
+                    type="number"
+                    step="0.1"
+                    min="0"
+                    value={formData.muacMeasurement}
+                    onChange={(e) => setFormData({ ...formData, muacMeasurement: e.target.value })}
+                  />
+                  <FieldError message={stepErrors.muacMeasurement} />
+                </div>
+              </div>
+              <CheckboxField
+                label="Oedema of both feet"
+                checked={formData.edemaBothFeet}
+                onChange={(checked) => setFormData({ ...formData, edemaBothFeet: checked })}
+              />
+              <CheckboxField
+                label="Severe palmar pallor"
+                checked={formData.severePalmarPallor}
+                onChange={(checked) => setFormData({ ...formData, severePalmarPallor: checked })}
+              />
+            </div>
+          </div>
+        );
+
+      case 'cough':
+        return (
+          <div className="space-y-4">
+            <CheckboxField
+              label="Does the child have cough or difficult breathing?"
+              checked={formData.hasCoughDifficultyBreathing}
+              onChange={(checked) => setFormData(setQuestion(formData, 'hasCoughDifficultyBreathing', checked))}
+            />
+            
+            {formData.hasCoughDifficultyBreathing && (
+              <>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>For how long? (days)</Label>
+                    <Input
+                      type="number"
+                      min="0"
+                      value={formData.coughDurationDays}
+                      onChange={(e) => setFormData({ ...formData, coughDurationDays: e.target.value })}
+                    />
+                    <FieldError message={stepErrors.coughDurationDays} />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Breaths per minute</Label>
+                    <div className="flex gap-2">
+                      <Input
+                        type="number"
+                        min="0"
+                        value={formData.breathsPerMinute}
+                        onChange={(e) => setFormData({ ...formData, breathsPerMinute: e.target.value })}
+                      />
+                      <BreathingCounter
+                        threshold={fastBreathingThreshold}
+                        onCount={(count) => setFormData((prev) => ({ ...prev, breathsPerMinute: String(count) }))}
+                      />
+                    </div>
+                    <FieldError message={stepErrors.breathsPerMinute} />
+                    <p className="text-xs text-muted-foreground">
+                      Fast breathing: ≥{fastBreathingThreshold}/min for this age
+                    </p>
                   </div>
                 </div>
                 <CheckboxField
@@ -522,6 +1564,29 @@ export default function IMNCIAssessment() {
                   checked={formData.wheezing}
                   onChange={(checked) => setFormData({ ...formData, wheezing: checked })}
                 />
+                {formData.wheezing && (
+                  <div className="ml-6 space-y-2">
+                    <p className="text-sm text-muted-foreground">
+                      Give a rapid-acting inhaled bronchodilator (up to 3 times, 15-20 minutes apart),
+                      then re-count the breathing before classifying.
+                    </p>
+                    <Label>Breaths per minute after bronchodilator</Label>
+                    <div className="flex gap-2">
+                      <Input
+                        type="number"
+                        min="0"
+                        value={formData.breathsPerMinuteAfterBronchodilator}
+                        onChange={(e) => setFormData({ ...formData, breathsPerMinuteAfterBronchodilator: e.target.value })}
+                      />
+                      <BreathingCounter
+                        title="Recount"
+                        threshold={fastBreathingThreshold}
+                        onCount={(count) => setFormData((prev) => ({ ...prev, breathsPerMinuteAfterBronchodilator: String(count) }))}
+                      />
+                    </div>
+                    <FieldError message={stepErrors.breathsPerMinuteAfterBronchodilator} />
+                  </div>
+                )}
               </>
             )}
           </div>
@@ -533,7 +1598,7 @@ export default function IMNCIAssessment() {
             <CheckboxField
               label="Does the child have diarrhea?"
               checked={formData.hasDiarrhea}
-              onChange={(checked) => setFormData({ ...formData, hasDiarrhea: checked })}
+              onChange={(checked) => setFormData(setQuestion(formData, 'hasDiarrhea', checked))}
             />
             
             {formData.hasDiarrhea && (
@@ -546,6 +1611,7 @@ export default function IMNCIAssessment() {
                     value={formData.diarrheaDurationDays}
                     onChange={(e) => setFormData({ ...formData, diarrheaDurationDays: e.target.value })}
                   />
+                  <FieldError message={stepErrors.diarrheaDurationDays} />
                 </div>
                 <CheckboxField
                   label="Blood in stool"
@@ -570,6 +1636,7 @@ export default function IMNCIAssessment() {
                     checked={formData.skinPinchVerySlow}
                     onChange={(checked) => setFormData({ ...formData, skinPinchVerySlow: checked })}
                   />
+                  <FieldError message={stepErrors.skinPinchVerySlow} />
                   <CheckboxField
                     label="Restless or irritable"
                     checked={formData.restlessIrritable}
@@ -586,6 +1653,21 @@ export default function IMNCIAssessment() {
                     onChange={(checked) => setFormData({ ...formData, notAbleToDrinkDiarrhea: checked })}
                   />
                 </div>
+
+                <RehydrationTool
+                  patientId={patientId}
+                  caseId={caseId}
+                  ageInMonths={ageInMonths}
+                  weightKg={formData.weightKg}
+                  onWeightChange={(weightKg) => setFormData({ ...formData, weightKg })}
+                  plan={(formData.rehydrationPlan || suggestedRehydrationPlan) as RehydrationPlan}
+                  onPlanChange={(rehydrationPlan) => setFormData({ ...formData, rehydrationPlan })}
+                  planCStartedAt={formData.planCStartedAt}
+                  planCReassessedAt={formData.planCReassessedAt}
+                  onPlanCChange={({ startedAt, reassessedAt }) =>
+                    setFormData({ ...formData, planCStartedAt: startedAt, planCReassessedAt: reassessedAt })
+                  }
+                />
               </>
             )}
           </div>
@@ -600,39 +1682,72 @@ export default function IMNCIAssessment() {
               onChange={(checked) => setFormData({ ...formData, hasFever: checked })}
             />
             
-            {formData.hasFever && (
-              <>
-                <div className="grid grid-cols-2 gap-4">
-                  <div className="space-y-2">
-                    <Label>For how long? (days)</Label>
-                    <Input
-                      type="number"
-                      min="0"
-                      value={formData.feverDurationDays}
-                      onChange={(e) => setFormData({ ...formData, feverDurationDays: e.target.value })}
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label>Temperature (°C)</Label>
-                    <Input
-                      type="number"
-                      step="0.1"
-                      min="35"
-                      max="42"
-                      value={formData.temperature}
-                      onChange={(e) => setFormData({ ...formData, temperature: e.target.value })}
-                    />
-                  </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Temperature (°C)</Label>
+                <Input
+                  type="number"
+                  step="0.1"
+                  min={ASSESSMENT_RANGES.temperature.min}
+                  max={ASSESSMENT_RANGES.temperature.max}
+                  value={formData.temperature}
+                  onChange={(e) => setFormData({ ...formData, temperature: e.target.value })}
+                />
+                <FieldError message={stepErrors.temperature} />
+                {hasFeverByTemperature && !formData.hasFever && (
+                  <p className="text-xs text-yellow-700 dark:text-yellow-400">
+                    Temperature ≥{protocol.thresholds.feverTemperature}°C: the child will be assessed for fever.
+                  </p>
+                )}
+              </div>
+              {(formData.hasFever || hasFeverByTemperature) && (
+                <div className="space-y-2">
+                  <Label>For how long? (days)</Label>
+                  <Input
+                    type="number"
+                    min="0"
+                    value={formData.feverDurationDays}
+                    onChange={(e) => setFormData({ ...formData, feverDurationDays: e.target.value })}
+                  />
+                  <FieldError message={stepErrors.feverDurationDays} />
                 </div>
-                
+              )}
+            </div>
+            
+            {(formData.hasFever || hasFeverByTemperature) && (
+              <>
                 <CheckboxField
                   label="Stiff neck"
                   checked={formData.stiffNeck}
                   onChange={(checked) => setFormData({ ...formData, stiffNeck: checked })}
                 />
 
+                <div className="rounded-lg border p-3 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <p className="text-sm font-medium">Malaria risk</p>
+                    <Badge variant="outline">{MALARIA_RISK_LABELS[malariaRisk]}</Badge>
+                  </div>
+                  {malariaRisk !== 'high' && (
+                    <CheckboxField
+                      label="Has the child travelled to a malaria risk area in the last 2 weeks?"
+                      checked={formData.travelledToMalariaArea}
+                      onChange={(checked) => setFormData({ ...formData, travelledToMalariaArea: checked })}
+                    />
+                  )}
+                  {malariaRisk === 'low' && !formData.travelledToMalariaArea && (
+                    <CheckboxField
+                      label="Other obvious cause of fever (e.g. pneumonia, ear infection, abscess)"
+                      checked={formData.otherFeverCause}
+                      onChange={(checked) => setFormData({ ...formData, otherFeverCause: checked })}
+                    />
+                  )}
+                </div>
+
                 <div className="space-y-2">
-                  <Label>Malaria RDT Result</Label>
+                  <Label>
+                    Malaria RDT Result
+                    {malariaTestRequired && <span className="ml-2 text-xs text-muted-foreground">(required)</span>}
+                  </Label>
                   <RadioGroup
                     value={formData.malariaRdtResult}
                     onValueChange={(value) => setFormData({ ...formData, malariaRdtResult: value })}
@@ -651,10 +1766,22 @@ export default function IMNCIAssessment() {
                       <Label htmlFor="rdt-nd">Not Done</Label>
                     </div>
                   </RadioGroup>
+                  {malariaTestMissing && (
+                    <p className="text-xs text-yellow-700 dark:text-yellow-400">
+                      {feverInput.malariaRisk === 'high' || feverInput.travelledToMalariaArea
+                        ? 'A malaria RDT is required for every fever case in a high malaria risk area. Without a result this case will be flagged.'
+                        : 'No obvious cause of fever: do a malaria RDT.'}
+                    </p>
+                  )}
                 </div>
 
                 <div className="border-t pt-4 mt-4">
                   <p className="font-medium mb-3">Look for signs of measles:</p>
+                  <CheckboxField
+                    label="Measles within the last 3 months"
+                    checked={formData.measlesLast3Months}
+                    onChange={(checked) => setFormData({ ...formData, measlesLast3Months: checked })}
+                  />
                   <CheckboxField
                     label="Generalized rash"
                     checked={formData.generalizedRash}
@@ -668,8 +1795,15 @@ export default function IMNCIAssessment() {
                   <CheckboxField
                     label="Mouth ulcers"
                     checked={formData.mouthUlcers}
-                    onChange={(checked) => setFormData({ ...formData, mouthUlcers: checked })}
+                    onChange={(checked) => setFormData({ ...formData, mouthUlcers: checked, deepMouthUlcers: checked && formData.deepMouthUlcers })}
                   />
+                  {formData.mouthUlcers && (
+                    <CheckboxField
+                      label="Mouth ulcers deep or extensive"
+                      checked={formData.deepMouthUlcers}
+                      onChange={(checked) => setFormData({ ...formData, deepMouthUlcers: checked })}
+                    />
+                  )}
                   <CheckboxField
                     label="Pus draining from eye"
                     checked={formData.pusDrainingEye}
@@ -692,7 +1826,7 @@ export default function IMNCIAssessment() {
             <CheckboxField
               label="Does the child have an ear problem?"
               checked={formData.hasEarProblem}
-              onChange={(checked) => setFormData({ ...formData, hasEarProblem: checked })}
+              onChange={(checked) => setFormData(setQuestion(formData, 'hasEarProblem', checked))}
             />
             
             {formData.hasEarProblem && (
@@ -705,7 +1839,7 @@ export default function IMNCIAssessment() {
                 <CheckboxField
                   label="Ear discharge"
                   checked={formData.earDischarge}
-                  onChange={(checked) => setFormData({ ...formData, earDischarge: checked })}
+                  onChange={(checked) => setFormData(setQuestion(formData, 'earDischarge', checked))}
                 />
                 {formData.earDischarge && (
                   <div className="space-y-2 ml-6">
@@ -716,6 +1850,7 @@ export default function IMNCIAssessment() {
                       value={formData.earDischargeDurationDays}
                       onChange={(e) => setFormData({ ...formData, earDischargeDurationDays: e.target.value })}
                     />
+                    <FieldError message={stepErrors.earDischargeDurationDays} />
                   </div>
                 )}
                 <CheckboxField
@@ -746,30 +1881,23 @@ export default function IMNCIAssessment() {
               onChange={(checked) => setFormData({ ...formData, edemaBothFeet: checked })}
             />
             
+            {renderAnthropometry()}
+
             <div className="grid grid-cols-2 gap-4">
-              <div className="space-y-2">
-                <Label>Weight for age (Z-score)</Label>
-                <Input
-                  type="number"
-                  step="0.1"
-                  value={formData.weightForAge}
-                  onChange={(e) => setFormData({ ...formData, weightForAge: e.target.value })}
-                  placeholder="e.g., -2.5"
-                />
-              </div>
               <div className="space-y-2">
                 <Label>MUAC (cm)</Label>
                 <Input
                   type="number"
                   step="0.1"
-                  min="0"
-                  max="30"
+                  min={ASSESSMENT_RANGES.muac.min}
+                  max={ASSESSMENT_RANGES.muac.max}
                   value={formData.muacMeasurement}
                   onChange={(e) => setFormData({ ...formData, muacMeasurement: e.target.value })}
                   placeholder="e.g., 12.5"
                 />
+                <FieldError message={stepErrors.muacMeasurement} />
                 <p className="text-xs text-muted-foreground">
-                  Red: &lt;11.5cm | Yellow: 11.5-12.5cm | Green: &gt;12.5cm
+                  Red: &lt;{protocol.thresholds.muacSevere}cm | Yellow: {protocol.thresholds.muacSevere}-{protocol.thresholds.muacModerate}cm | Green: &gt;{protocol.thresholds.muacModerate}cm
                 </p>
               </div>
             </div>
@@ -790,6 +1918,213 @@ export default function IMNCIAssessment() {
           </div>
         );
 
+      case 'feeding':
+        if (!feedingRequired) {
+          return (
+            <div className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                A feeding assessment is needed for children under 2 years and for children with anemia or
+                moderate acute malnutrition. It is not required for this child.
+              </p>
+            </div>
+          );
+        }
+
+        return (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground mb-4">
+              Assess the child's feeding. Ask the mother:
+            </p>
+
+            {ageInMonths < 24 && (
+              <div className="space-y-2">
+                <Label>Do you breastfeed your child?</Label>
+                <RadioGroup
+                  value={formData.breastfed}
+                  onValueChange={(value) => setFormData({ ...formData, breastfed: value })}
+                  className="flex gap-4"
+                >
+                  <div className="flex items-center gap-2">
+                    <RadioGroupItem value="yes" id="feed-bf-yes" />
+                    <Label htmlFor="feed-bf-yes">Yes</Label>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <RadioGroupItem value="no" id="feed-bf-no" />
+                    <Label htmlFor="feed-bf-no">No</Label>
+                  </div>
+                </RadioGroup>
+              </div>
+            )}
+
+            {ageInMonths < 24 && formData.breastfed === 'yes' && (
+              <div className="ml-6 space-y-4">
+                <div className="space-y-2">
+                  <Label>How many times in 24 hours?</Label>
+                  <Input
+                    type="number"
+                    min="0"
+                    value={formData.breastfeedsPerDay}
+                    onChange={(e) => setFormData({ ...formData, breastfeedsPerDay: e.target.value })}
+                  />
+                  <FieldError message={stepErrors.breastfeedsPerDay} />
+                </div>
+                <CheckboxField
+                  label="Does not breastfeed during the night"
+                  checked={formData.notBreastfedAtNight}
+                  onChange={(checked) => setFormData({ ...formData, notBreastfedAtNight: checked })}
+                />
+              </div>
+            )}
+
+            {ageInMonths < 6 ? (
+              <CheckboxField
+                label="Receives any other foods or fluids"
+                checked={formData.receivesOtherFoods}
+                onChange={(checked) => setFormData({ ...formData, receivesOtherFoods: checked })}
+              />
+            ) : (
+              <>
+                <div className="space-y-2">
+                  <Label>Meals of other food per day</Label>
+                  <Input
+                    type="number"
+                    min="0"
+                    value={formData.mealsPerDay}
+                    onChange={(e) => setFormData({ ...formData, mealsPerDay: e.target.value })}
+                  />
+                  <FieldError message={stepErrors.mealsPerDay} />
+                  <p className="text-xs text-muted-foreground">
+                    At least {getRecommendedMealsPerDay(ageInMonths, formData.breastfed !== 'no')} meals a day for this age
+                  </p>
+                </div>
+                <CheckboxField
+                  label="Food is thin or watery"
+                  checked={formData.foodThinOrWatery}
+                  onChange={(checked) => setFormData({ ...formData, foodThinOrWatery: checked })}
+                />
+                <div className="border-t pt-4 mt-4">
+                  <p className="font-medium mb-3">Responsive feeding:</p>
+                  <CheckboxField
+                    label="Does not receive own serving"
+                    checked={formData.noOwnServing}
+                    onChange={(checked) => setFormData({ ...formData, noOwnServing: checked })}
+                  />
+                  <CheckboxField
+                    label="Nobody helps or encourages the child to eat"
+                    checked={formData.notActivelyFed}
+                    onChange={(checked) => setFormData({ ...formData, notActivelyFed: checked })}
+                  />
+                </div>
+              </>
+            )}
+
+            <CheckboxField
+              label="Uses a feeding bottle"
+              checked={formData.usesFeedingBottle}
+              onChange={(checked) => setFormData({ ...formData, usesFeedingBottle: checked })}
+            />
+            <CheckboxField
+              label="Feeding has reduced during this illness"
+              checked={formData.feedingReducedDuringIllness}
+              onChange={(checked) => setFormData({ ...formData, feedingReducedDuringIllness: checked })}
+            />
+          </div>
+        );
+
+      case 'hiv':
+        return (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground mb-4">
+              Check for HIV infection and exposure.
+            </p>
+            
+            <div className="space-y-2">
+              <Label>Is the mother HIV positive?</Label>
+              <RadioGroup
+                value={formData.motherHivPositive}
+                onValueChange={(value) => setFormData({ ...formData, motherHivPositive: value })}
+                className="flex gap-4"
+              >
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="yes" id="hiv-yes" />
+                  <Label htmlFor="hiv-yes">Yes</Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="no" id="hiv-no" />
+                  <Label htmlFor="hiv-no">No</Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="unknown" id="hiv-unk" />
+                  <Label htmlFor="hiv-unk">Unknown</Label>
+                </div>
+              </RadioGroup>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Is the child currently breastfeeding?</Label>
+              <RadioGroup
+                value={formData.breastfed}
+                onValueChange={(value) => setFormData({ ...formData, breastfed: value })}
+                className="flex gap-4"
+              >
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="yes" id="hiv-bf-yes" />
+                  <Label htmlFor="hiv-bf-yes">Yes</Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="no" id="hiv-bf-no" />
+                  <Label htmlFor="hiv-bf-no">No</Label>
+                </div>
+              </RadioGroup>
+            </div>
+
+            <CheckboxField
+              label="Has the child had an HIV test?"
+              checked={formData.childHivTested}
+              onChange={(checked) => setFormData({ ...formData, childHivTested: checked })}
+            />
+
+            {formData.childHivTested && (
+              <div className="ml-6 space-y-4">
+                <div className="space-y-2">
+                  <Label>Type of test</Label>
+                  <RadioGroup
+                    value={formData.childHivTestType}
+                    onValueChange={(value) => setFormData({ ...formData, childHivTestType: value })}
+                    className="flex gap-4"
+                  >
+                    <div className="flex items-center gap-2">
+                      <RadioGroupItem value="virological" id="hiv-test-pcr" />
+                      <Label htmlFor="hiv-test-pcr">Virological (DNA PCR)</Label>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <RadioGroupItem value="antibody" id="hiv-test-ab" />
+                      <Label htmlFor="hiv-test-ab">Antibody (rapid test)</Label>
+                    </div>
+                  </RadioGroup>
+                </div>
+                <div className="space-y-2">
+                  <Label>Result</Label>
+                  <RadioGroup
+                    value={formData.childHivResult}
+                    onValueChange={(value) => setFormData({ ...formData, childHivResult: value })}
+                    className="flex gap-4"
+                  >
+                    <div className="flex items-center gap-2">
+                      <RadioGroupItem value="positive" id="hiv-res-pos" />
+                      <Label htmlFor="hiv-res-pos">Positive</Label>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <RadioGroupItem value="negative" id="hiv-res-neg" />
+                      <Label htmlFor="hiv-res-neg">Negative</Label>
+                    </div>
+                  </RadioGroup>
+                </div>
+              </div>
+            )}
+          </div>
+        );
+
       case 'immunization':
         return (
           <div className="space-y-4">
@@ -812,36 +2147,206 @@ export default function IMNCIAssessment() {
               checked={formData.dewormingGiven}
               onChange={(checked) => setFormData({ ...formData, dewormingGiven: checked })}
             />
+          </div>
+        );
+
+      case 'infant_infection':
+        return (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground mb-4">
+              Check the young infant for very severe disease and local bacterial infection.
+            </p>
+            <CheckboxField
+              label="Not feeding well"
+              checked={formData.notFeedingWell}
+              onChange={(checked) => setFormData({ ...formData, notFeedingWell: checked })}
+            />
+            <CheckboxField
+              label="Convulsions"
+              checked={formData.hasConvulsions}
+              onChange={(checked) => setFormData({ ...formData, hasConvulsions: checked })}
+            />
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Breaths per minute</Label>
+                <div className="flex gap-2">
+                  <Input
+                    type="number"
+                    min="0"
+                    value={formData.breathsPerMinute}
+                    onChange={(e) => setFormData({ ...formData, breathsPerMinute: e.target.value })}
+                  />
+                  <BreathingCounter
+                    threshold={protocol.thresholds.fastBreathingUnder2Months}
+                    onCount={(count) => setFormData((prev) => ({ ...prev, breathsPerMinute: String(count) }))}
+                  />
+                </div>
+                <FieldError message={stepErrors.breathsPerMinute} />
+                <p className="text-xs text-muted-foreground">Fast breathing: ≥{protocol.thresholds.fastBreathingUnder2Months}/min</p>
+              </div>
+              <div className="space-y-2">
+                <Label>Temperature (°C)</Label>
+                <Input
+                  type="number"
+                  step="0.1"
+                  min={ASSESSMENT_RANGES.temperature.min}
+                  max={ASSESSMENT_RANGES.temperature.max}
+                  value={formData.temperature}
+                  onChange={(e) => setFormData({ ...formData, temperature: e.target.value })}
+                />
+                <FieldError message={stepErrors.temperature} />
+                <p className="text-xs text-muted-foreground">Fever ≥37.5°C | Low &lt;35.5°C</p>
+              </div>
+            </div>
+            <CheckboxField
+              label="Severe chest indrawing"
+              checked={formData.severeChestIndrawing}
+              onChange={(checked) => setFormData({ ...formData, severeChestIndrawing: checked })}
+            />
+            <CheckboxField
+              label="Movement only when stimulated or no movement at all"
+              checked={formData.movementOnlyWhenStimulated}
+              onChange={(checked) => setFormData({ ...formData, movementOnlyWhenStimulated: checked })}
+            />
 
             <div className="border-t pt-4 mt-4">
-              <p className="font-medium mb-3">HIV Assessment (if applicable):</p>
+              <p className="font-medium mb-3">Look for local bacterial infection:</p>
+              <CheckboxField
+                label="Umbilicus red or draining pus"
+                checked={formData.umbilicusRedOrPus}
+                onChange={(checked) => setFormData({ ...formData, umbilicusRedOrPus: checked })}
+              />
+              <CheckboxField
+                label="Skin pustules"
+                checked={formData.skinPustules}
+                onChange={(checked) => setFormData({ ...formData, skinPustules: checked })}
+              />
+            </div>
+          </div>
+        );
+
+      case 'jaundice':
+        return (
+          <div className="space-y-4">
+            <CheckboxField
+              label="Is the young infant jaundiced (yellow eyes or skin)?"
+              checked={formData.hasJaundice}
+              onChange={(checked) => setFormData({ ...formData, hasJaundice: checked })}
+            />
+            
+            {formData.hasJaundice && (
+              <>
+                <CheckboxField
+                  label="Yellow palms and soles"
+                  checked={formData.jaundicePalmsSoles}
+                  onChange={(checked) => setFormData({ ...formData, jaundicePalmsSoles: checked })}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Age: {ageInDays} days. Any jaundice in the first 24 hours of life is severe.
+                </p>
+              </>
+            )}
+          </div>
+        );
+
+      case 'infant_feeding':
+        return (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground mb-4">
+              Check for feeding problem or low weight for age.
+            </p>
+            
+            <div className="space-y-2">
+              <Label>Is the infant breastfed?</Label>
+              <RadioGroup
+                value={formData.breastfed}
+                onValueChange={(value) => setFormData({ ...formData, breastfed: value })}
+                className="flex gap-4"
+              >
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="yes" id="bf-yes" />
+                  <Label htmlFor="bf-yes">Yes</Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="no" id="bf-no" />
+                  <Label htmlFor="bf-no">No</Label>
+                </div>
+              </RadioGroup>
+            </div>
+
+            {renderAnthropometry()}
+
+            <div className="space-y-2">
+              <Label>Breastfeeds in 24 hours</Label>
+              <Input
+                type="number"
+                min="0"
+                value={formData.breastfeedsPerDay}
+                onChange={(e) => setFormData({ ...formData, breastfeedsPerDay: e.target.value })}
+              />
+              <FieldError message={stepErrors.breastfeedsPerDay} />
+            </div>
+
+            <CheckboxField
+              label="Receives any other foods or drinks"
+              checked={formData.receivesOtherFoods}
+              onChange={(checked) => setFormData({ ...formData, receivesOtherFoods: checked })}
+            />
+
+            <div className="border-t pt-4 mt-4 space-y-4">
+              <p className="font-medium">Assess breastfeeding:</p>
               <div className="space-y-2">
-                <Label>Is the mother HIV positive?</Label>
+                <Label>Attachment</Label>
                 <RadioGroup
-                  value={formData.motherHivPositive}
-                  onValueChange={(value) => setFormData({ ...formData, motherHivPositive: value })}
-                  className="flex gap-4"
+                  value={formData.breastfeedingAttachment}
+                  onValueChange={(value) => setFormData({ ...formData, breastfeedingAttachment: value })}
+                  className="flex flex-wrap gap-4"
+                >
+                  <div className="flex items-center gap-2">
+                    <RadioGroupItem value="good" id="att-good" />
+                    <Label htmlFor="att-good">Good attachment</Label>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <RadioGroupItem value="not_well" id="att-not-well" />
+                    <Label htmlFor="att-not-well">Not well attached</Label>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <RadioGroupItem value="not_at_all" id="att-none" />
+                    <Label htmlFor="att-none">Not at all attached</Label>
+                  </div>
+                </RadioGroup>
+              </div>
+              <div className="space-y-2">
+                <Label>Suckling</Label>
+                <RadioGroup
+                  value={formData.breastfeedingSuckling}
+                  onValueChange={(value) => setFormData({ ...formData, breastfeedingSuckling: value })}
+                  className="flex flex-wrap gap-4"
                 >
                   <div className="flex items-center gap-2">
-                    <RadioGroupItem value="yes" id="hiv-yes" />
-                    <Label htmlFor="hiv-yes">Yes</Label>
+                    <RadioGroupItem value="effective" id="suck-eff" />
+                    <Label htmlFor="suck-eff">Suckling effectively</Label>
                   </div>
                   <div className="flex items-center gap-2">
-                    <RadioGroupItem value="no" id="hiv-no" />
-                    <Label htmlFor="hiv-no">No</Label>
+                    <RadioGroupItem value="not_effective" id="suck-not-eff" />
+                    <Label htmlFor="suck-not-eff">Not suckling effectively</Label>
                   </div>
                   <div className="flex items-center gap-2">
-                    <RadioGroupItem value="unknown" id="hiv-unk" />
-                    <Label htmlFor="hiv-unk">Unknown</Label>
+                    <RadioGroupItem value="not_at_all" id="suck-none" />
+                    <Label htmlFor="suck-none">Not suckling at all</Label>
                   </div>
                 </RadioGroup>
               </div>
+              <CheckboxField
+                label="Ulcers or white patches in mouth (thrush)"
+                checked={formData.oralThrush}
+                onChange={(checked) => setFormData({ ...formData, oralThrush: checked })}
+              />
             </div>
           </div>
         );
 
       case 'summary':
-        const overall = calculateOverallAssessment(classifications.filter(Boolean));
         const overallColorInfo = getColorDisplay(overall.overallColor);
 
         return (
@@ -859,6 +2364,7 @@ export default function IMNCIAssessment() {
                     {overall.overallClassification}
                   </h3>
                   <p className="text-sm text-muted-foreground">{overallColorInfo.label}</p>
+                  <p className="text-xs text-muted-foreground">Protocol: {protocol.version}</p>
                 </div>
               </div>
 
@@ -873,6 +2379,38 @@ export default function IMNCIAssessment() {
                       <li key={i}>• {finding}</li>
                     ))}
                   </ul>
+                  {/* The emergency panel has its own referral button */}
+                  {!isAmending && !emergencyMode && (
+                    <div className="mt-3 flex flex-col sm:flex-row gap-2">
+                      <Select value={referralFacility} onValueChange={setReferralFacility}>
+                        <SelectTrigger className="sm:flex-1">
+                          <SelectValue placeholder="Select destination" />
+                        </SelectTrigger>
+                        <SelectContent className="bg-popover">
+                          {REFERRAL_FACILITIES.map((facility) => (
+                            <SelectItem key={facility} value={facility}>
+                              {facility}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Button
+                        variant="destructive"
+                        onClick={() => completeWithReferral.mutate()}
+                        disabled={!referralFacility || !assessmentId || completeWithReferral.isPending}
+                      >
+                        <Send className="h-4 w-4 mr-2" />
+                        {completeWithReferral.isPending ? 'Sending...' : 'Complete & Refer'}
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {/* In emergency mode the checklist stays in the emergency panel */}
+              {preReferralChecklist.length > 0 && !emergencyMode && (
+                <div className="mt-4 p-3 bg-background/80 rounded-md">
+                  {renderPreReferralChecklist()}
                 </div>
               )}
             </div>
@@ -881,34 +2419,175 @@ export default function IMNCIAssessment() {
             <div>
               <h4 className="font-medium mb-3">Assessment Summary by Category:</h4>
               <div className="space-y-2">
-                {STEPS.slice(0, -1).map((step, index) => {
-                  const classification = classifications[index];
-                  if (!classification) return null;
-                  const colorInfo = getColorDisplay(classification.color);
+                {(youngInfant ? YOUNG_INFANT_STEPS : CHILD_STEPS).slice(0, -1).map((step) => {
+                  const stepClassifications = classifications[step.id];
+                  if (!stepClassifications?.length) return null;
+                  const colorInfo = getColorDisplay(getHighestPriorityColor(stepClassifications));
                   return (
                     <div
                       key={step.id}
                       className={`p-3 rounded-md border ${colorInfo.borderClass} ${colorInfo.bgClass}`}
                     >
-                      <div className="flex items-center justify-between">
-                        <div className="flex items-center gap-2">
-                          <step.icon className="h-4 w-4" />
-                          <span className="font-medium">{step.label}</span>
-                        </div>
-                        <Badge className={`${colorInfo.bgClass} ${colorInfo.textClass} border-0`}>
-                          {classification.classification}
-                        </Badge>
+                      <div className="flex items-center gap-2">
+                        <step.icon className="h-4 w-4" />
+                        <span className="font-medium">{step.label}</span>
                       </div>
-                      {classification.treatment && (
-                        <p className="text-sm mt-2 text-muted-foreground">
-                          {classification.treatment}
-                        </p>
-                      )}
+                      {stepClassifications.map((classification) => {
+                        const classificationColorInfo = getColorDisplay(classification.color);
+                        return (
+                          <div key={classification.classification} className="mt-2">
+                            <Badge className={`${classificationColorInfo.bgClass} ${classificationColorInfo.textClass} border-0`}>
+                              {classification.classification}
+                            </Badge>
+                            {classification.evidence && classification.evidence.length > 0 && (
+                              <ul className="text-xs mt-1 space-y-0.5">
+                                {classification.evidence.map((item) => (
+                                  <li key={item.finding}>
+                                    • {item.finding}
+                                    {item.threshold && (
+                                      <span className="text-muted-foreground"> ({item.threshold})</span>
+                                    )}
+                                  </li>
+                                ))}
+                              </ul>
+                            )}
+                            {classification.treatment && (
+                              <p className="text-sm mt-1 text-muted-foreground">
+                                {classification.treatment}
+                              </p>
+                            )}
+                          </div>
+                        );
+                      })}
                     </div>
                   );
                 })}
               </div>
             </div>
+
+            {/* Medication Doses */}
+            {dosingRegimens.length > 0 && (
+              <div>
+                <h4 className="font-medium mb-3 flex items-center gap-2">
+                  <Pill className="h-4 w-4" />
+                  Medication Doses:
+                </h4>
+                {!formData.weightKg && (
+                  <p className="text-xs text-muted-foreground mb-2">
+                    Doses are by age band. Record the child's weight for weight-based dosing.
+                  </p>
+                )}
+                <div className="space-y-2">
+                  {dosingRegimens.map((regimen) => (
+                    <div key={regimen.drug} className="p-3 rounded-md border">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="font-medium">{regimen.formulation}</span>
+                        {!regimen.medicationId && <Badge variant="outline">Not in catalog</Badge>}
+                      </div>
+                      <p className="text-sm">
+                        {regimen.dose} · {regimen.frequency} · {regimen.duration}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        For {regimen.indications.join(', ')} (dosed by {regimen.basis})
+                      </p>
+                      {regimen.note && <p className="text-xs text-muted-foreground">{regimen.note}</p>}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Counselling Points */}
+            {counsellingPoints.length > 0 && (
+              <div>
+                <h4 className="font-medium mb-3 flex items-center gap-2">
+                  <Utensils className="h-4 w-4" />
+                  Counsel the Mother:
+                </h4>
+                <ul className="p-3 rounded-md border text-sm space-y-1">
+                  {counsellingPoints.map((point) => (
+                    <li key={point}>• {point}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {/* Follow-up */}
+            {followUpDueDate && (
+              <div>
+                <h4 className="font-medium mb-3 flex items-center gap-2">
+                  <CalendarClock className="h-4 w-4" />
+                  Follow-up: {format(followUpDueDate, 'EEE dd MMM yyyy')}
+                </h4>
+                <ul className="p-3 rounded-md border text-sm space-y-1">
+                  {followUpInstructions.map((line) => (
+                    <li key={line}>• {line}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {/* Amendment */}
+            {isAmending && (
+              <div className="space-y-3">
+                <h4 className="font-medium flex items-center gap-2">
+                  <FilePen className="h-4 w-4" />
+                  Amendment
+                </h4>
+                {outcomeChange && (
+                  <div className="p-3 rounded-md border-2 border-destructive bg-destructive/10 text-sm space-y-2">
+                    <p className="font-medium text-destructive">This amendment changes the outcome</p>
+                    {outcomeChange.previousColor !== outcomeChange.newColor && (
+                      <div className="flex items-center gap-2">
+                        <span>Overall:</span>
+                        {outcomeChange.previousColor && (
+                          <Badge className={`${getColorDisplay(outcomeChange.previousColor).bgClass} ${getColorDisplay(outcomeChange.previousColor).textClass}`}>
+                            {getColorDisplay(outcomeChange.previousColor).label}
+                          </Badge>
+                        )}
+                        <ArrowRight className="h-4 w-4" />
+                        {outcomeChange.newColor && (
+                          <Badge className={`${getColorDisplay(outcomeChange.newColor).bgClass} ${getColorDisplay(outcomeChange.newColor).textClass}`}>
+                            {getColorDisplay(outcomeChange.newColor).label}
+                          </Badge>
+                        )}
+                      </div>
+                    )}
+                    {outcomeChange.previousRequiresReferral !== outcomeChange.newRequiresReferral && (
+                      <p>
+                        Referral: {outcomeChange.previousRequiresReferral ? 'required' : 'not required'} →{' '}
+                        <span className="font-medium">
+                          {outcomeChange.newRequiresReferral ? 'required' : 'not required'}
+                        </span>
+                      </p>
+                    )}
+                  </div>
+                )}
+                {amendmentChanges.length > 0 ? (
+                  <ul className="p-3 rounded-md border text-sm space-y-1">
+                    {amendmentChanges.map((change) => (
+                      <li key={change.field}>
+                        • {change.label}: <span className="line-through text-muted-foreground">{formatChangeValue(change.from)}</span>{' '}
+                        → <span className="font-medium">{formatChangeValue(change.to)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="text-sm text-muted-foreground">
+                    No values have been changed. Open a step above to correct a finding.
+                  </p>
+                )}
+                <div className="space-y-2">
+                  <Label htmlFor="amendment-reason">Reason for amendment *</Label>
+                  <Textarea
+                    id="amendment-reason"
+                    value={amendmentReason}
+                    onChange={(e) => setAmendmentReason(e.target.value)}
+                    placeholder="e.g. MUAC re-measured, RDT result entered incorrectly"
+                  />
+                </div>
+              </div>
+            )}
           </div>
         );
 
@@ -917,7 +2596,17 @@ export default function IMNCIAssessment() {
     }
   };
 
-  if (!caseId || !patientId) {
+  if (id && !loadingAssessment && !existingAssessment) {
+    return (
+      <div className="text-center py-12">
+        <h2 className="text-xl font-semibold mb-2">Assessment Not Found</h2>
+        <p className="text-muted-foreground mb-4">This assessment does not exist or you do not have access to it.</p>
+        <Button onClick={() => navigate('/patients')}>Go to Patients</Button>
+      </div>
+    );
+  }
+
+  if (!loadingAssessment && (!caseId || !patientId)) {
     return (
       <div className="text-center py-12">
         <h2 className="text-xl font-semibold mb-2">Missing Parameters</h2>
@@ -927,6 +2616,14 @@ export default function IMNCIAssessment() {
     );
   }
 
+  if (loadingAssessment || loadingPatient) {
+    return (
+      <div className="flex items-center justify-center min-h-[50vh]">
+        <div className="animate-pulse-subtle text-muted-foreground">Loading patient...</div>
+      </div>
+    );
+  }
+
   return (
     <div className="space-y-6 max-w-4xl mx-auto">
       {/* Header */}
@@ -935,9 +2632,12 @@ export default function IMNCIAssessment() {
           <ArrowLeft className="h-5 w-5" />
         </Button>
         <div className="flex-1">
-          <h1 className="text-2xl font-bold text-foreground">IMNCI Assessment</h1>
+          <h1 className="text-2xl font-bold text-foreground">
+            {isAmending && 'Amend '}
+            {youngInfant ? 'IMNCI Young Infant Assessment' : 'IMNCI Assessment'}
+          </h1>
           <p className="text-muted-foreground">
-            {patient?.first_name} {patient?.last_name} • {patient ? `${differenceInMonths(new Date(), new Date(patient.date_of_birth))} months` : ''}
+            {patient?.first_name} {patient?.last_name} • {patient ? (youngInfant ? `${ageInDays} days` : `${ageInMonths} months`) : ''}
           </p>
         </div>
       </div>
@@ -954,16 +2654,18 @@ export default function IMNCIAssessment() {
             const StepIcon = step.icon;
             const isCompleted = index < currentStep;
             const isCurrent = index === currentStep;
-            const classification = classifications[index];
-            const colorInfo = classification ? getColorDisplay(classification.color) : null;
+            const stepClassifications = classifications[step.id];
+            const colorInfo = stepClassifications?.length
+              ? getColorDisplay(getHighestPriorityColor(stepClassifications))
+              : null;
 
             return (
               <button
                 key={step.id}
-                onClick={() => index <= currentStep && setCurrentStep(index)}
-                disabled={index > currentStep}
+                onClick={() => goToStep(index)}
+                disabled={!canOpenStep(index)}
                 className={`flex flex-col items-center gap-1 min-w-[60px] transition-colors ${
-                  index > currentStep ? 'opacity-40 cursor-not-allowed' : 'cursor-pointer hover:opacity-80'
+                  !canOpenStep(index) ? 'opacity-40 cursor-not-allowed' : 'cursor-pointer hover:opacity-80'
                 }`}
               >
                 <div
@@ -984,6 +2686,84 @@ export default function IMNCIAssessment() {
         </div>
       </div>
 
+      {/* Emergency */}
+      {emergencyMode && (
+        <Card className="border-2 border-destructive">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-destructive">
+              <Siren className="h-5 w-5" />
+              Emergency: refer urgently
+            </CardTitle>
+            <CardDescription>
+              {(classifications.danger || [])
+                .flatMap((c) => c.evidence || [])
+                .map((e) => e.finding)
+                .join(', ')}
+              . Give the urgent treatment and refer now. The remaining modules are shortened to a quick assessment.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {preReferralChecklist.length > 0 && renderPreReferralChecklist()}
+            {!isAmending && (
+              <div className="flex flex-col sm:flex-row gap-2">
+                <Select value={referralFacility} onValueChange={setReferralFacility}>
+                  <SelectTrigger className="sm:flex-1">
+                    <SelectValue placeholder="Select destination" />
+                  </SelectTrigger>
+                  <SelectContent className="bg-popover">
+                    {REFERRAL_FACILITIES.map((facility) => (
+                      <SelectItem key={facility} value={facility}>
+                        {facility}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="destructive"
+                  onClick={() => emergencyReferral.mutate()}
+                  disabled={!referralFacility || !assessmentId || emergencyReferral.isPending}
+                >
+                  <Send className="h-4 w-4 mr-2" />
+                  {emergencyReferral.isPending ? 'Sending...' : 'Emergency Referral'}
+                </Button>
+              </div>
+            )}
+            <Button
+              variant="link"
+              className="px-0 h-auto"
+              onClick={() => {
+                setFullAssessment(true);
+                setCurrentStep(Math.min(currentStep, 1));
+              }}
+            >
+              Continue with the full assessment instead
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Plan C keeps running while the other modules are assessed */}
+      {formData.planCStartedAt && runningPlanC && (
+        <Card className="border-red-300">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base flex items-center gap-2">
+              <Droplets className="h-4 w-4" />
+              Plan C IV fluids running
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <PlanCTimer
+              planC={runningPlanC}
+              weightKg={parseFloat(formData.weightKg)}
+              startedAt={formData.planCStartedAt}
+              reassessedAt={formData.planCReassessedAt}
+              onReassessed={() => setFormData({ ...formData, planCReassessedAt: new Date().toISOString() })}
+              onStop={() => setFormData({ ...formData, planCStartedAt: null, planCReassessedAt: null })}
+            />
+          </CardContent>
+        </Card>
+      )}
+
       {/* Step Content */}
       <Card>
         <CardHeader>
@@ -1007,16 +2787,27 @@ export default function IMNCIAssessment() {
           Previous
         </Button>
 
-        {currentStep === STEPS.length - 1 ? (
+        {currentStep === STEPS.length - 1 && isAmending ? (
+          <Button
+            onClick={() => {
+              if (showValidationErrors(validateAssessmentSteps(expandStepIds(STEPS.map((step) => step.id)), formData))) return;
+              amendAssessment.mutate();
+            }}
+            disabled={amendAssessment.isPending || amendmentChanges.length === 0 || !amendmentReason.trim()}
+          >
+            {amendAssessment.isPending ? 'Saving...' : 'Save Amendment'}
+            <CheckCircle className="h-4 w-4 ml-2" />
+          </Button>
+        ) : currentStep === STEPS.length - 1 ? (
           <Button
             onClick={() => completeAssessment.mutate()}
-            disabled={completeAssessment.isPending}
+            disabled={completeAssessment.isPending || !protocolReady}
           >
             {completeAssessment.isPending ? 'Saving...' : 'Complete Assessment'}
             <CheckCircle className="h-4 w-4 ml-2" />
           </Button>
         ) : (
-          <Button onClick={handleNext}>
+          <Button onClick={handleNext} disabled={!protocolReady}>
             Next
             <ArrowRight className="h-4 w-4 ml-2" />
           </Button>
@@ -1026,6 +2817,113 @@ export default function IMNCIAssessment() {
   );
 }
 
+// Form values for a saved assessment, the reverse of buildAssessmentData
+function formDataFromAssessment(row: Tables<'imnci_assessments'>) {
+  const text = (value: number | string | null) => (value === null ? '' : String(value));
+  const yesNo = (value: boolean | null) => (value === true ? 'yes' : value === false ? 'no' : '');
+  const preReferral = (row.pre_referral_treatments || []) as unknown as PreReferralRecord[];
+
+  return {
+    notAbleToDrink: !!row.not_able_to_drink,
+    vomitsEverything: !!row.vomits_everything,
+    hasConvulsions: !!row.has_convulsions,
+    lethargicUnconscious: !!row.lethargic_unconscious,
+    convulsingNow: !!row.convulsing_now,
+
+    hasCoughDifficultyBreathing: !!row.has_cough_difficulty_breathing,
+    coughDurationDays: text(row.cough_duration_days),
+    breathsPerMinute: text(row.breaths_per_minute),
+    chestIndrawing: !!row.chest_indrawing,
+    stridor: !!row.stridor,
+    wheezing: !!row.wheezing,
+    breathsPerMinuteAfterBronchodilator: text(row.breaths_per_minute_after_bronchodilator),
+
+    hasDiarrhea: !!row.has_diarrhea,
+    diarrheaDurationDays: text(row.diarrhea_duration_days),
+    bloodInStool: !!row.blood_in_stool,
+    sunkenEyes: !!row.sunken_eyes,
+    skinPinchSlow: !!row.skin_pinch_slow,
+    skinPinchVerySlow: !!row.skin_pinch_very_slow,
+    restlessIrritable: !!row.restless_irritable,
+    drinksEagerly: !!row.drinks_eagerly,
+    notAbleToDrinkDiarrhea: !!row.not_able_to_drink_diarrhea,
+    rehydrationPlan: text(row.rehydration_plan),
+    planCStartedAt: row.plan_c_started_at,
+    planCReassessedAt: row.plan_c_reassessed_at,
+
+    hasFever: !!row.has_fever,
+    feverDurationDays: text(row.fever_duration_days),
+    temperature: text(row.temperature),
+    stiffNeck: !!row.stiff_neck,
+    malariaRdtResult: text(row.malaria_rdt_result),
+    travelledToMalariaArea: !!row.travelled_to_malaria_area,
+    otherFeverCause: !!row.other_fever_cause,
+    measlesLast3Months: !!row.measles_last_3_months,
+    generalizedRash: !!row.generalized_rash,
+    runnyNose: !!row.runny_nose,
+    mouthUlcers: !!row.mouth_ulcers,
+    deepMouthUlcers: !!row.deep_mouth_ulcers,
+    pusDrainingEye: !!row.pus_draining_eye,
+    cloudingCornea: !!row.clouding_cornea,
+
+    hasEarProblem: !!row.has_ear_problem,
+    earPain: !!row.ear_pain,
+    earDischarge: !!row.ear_discharge,
+    earDischargeDurationDays: text(row.ear_discharge_duration_days),
+    tenderSwellingBehindEar: !!row.tender_swelling_behind_ear,
+
+    visibleSevereWasting: !!row.visible_severe_wasting,
+    edemaBothFeet: !!row.edema_both_feet,
+    weightKg: text(row.weight_kg),
+    lengthHeightCm: text(row.length_height_cm),
+    measurementPosition: row.measured_lying === null ? '' : row.measured_lying ? 'lying' : 'standing',
+    muacMeasurement: text(row.muac_measurement),
+    palmarPallor: !!row.palmar_pallor,
+    severePalmarPallor: !!row.severe_palmar_pallor,
+
+    notFeedingWell: !!row.not_feeding_well,
+    severeChestIndrawing: !!row.severe_chest_indrawing,
+    movementOnlyWhenStimulated: !!row.movement_only_when_stimulated,
+    umbilicusRedOrPus: !!row.umbilicus_red_or_pus,
+    skinPustules: !!row.skin_pustules,
+
+    hasJaundice: !!row.has_jaundice,
+    jaundicePalmsSoles: !!row.jaundice_palms_soles,
+
+    breastfed: yesNo(row.breastfed),
+    breastfeedsPerDay: text(row.breastfeeds_per_day),
+    receivesOtherFoods: !!row.receives_other_foods,
+    breastfeedingAttachment: text(row.breastfeeding_attachment),
+    breastfeedingSuckling: text(row.breastfeeding_suckling),
+    oralThrush: !!row.oral_thrush,
+    notBreastfedAtNight: !!row.not_breastfed_at_night,
+    mealsPerDay: text(row.meals_per_day),
+    foodThinOrWatery: !!row.food_thin_or_watery,
+    usesFeedingBottle: !!row.uses_feeding_bottle,
+    noOwnServing: !!row.no_own_serving,
+    notActivelyFed: !!row.not_actively_fed,
+    feedingReducedDuringIllness: !!row.feeding_reduced_during_illness,
+
+    // Unknown is saved as null, which is also a question not yet asked
+    motherHivPositive: row.hiv_completed && row.mother_hiv_positive === null ? 'unknown' : yesNo(row.mother_hiv_positive),
+    childHivTested: !!row.child_hiv_tested,
+    childHivTestType: text(row.child_hiv_test_type),
+    childHivResult: text(row.child_hiv_result),
+
+    immunizationUpToDate: !!row.immunization_up_to_date,
+    vitaminAGiven: !!row.vitamin_a_given,
+    dewormingGiven: !!row.deworming_given,
+
+    preReferralGiven: preReferral.filter((r) => r.given).map((r) => r.id),
+  };
+}
+
+// Inline validation message under a field
+function FieldError({ message }: { message?: string }) {
+  if (!message) return null;
+  return <p className="text-xs text-destructive">{message}</p>;
+}
+
 // Helper component for checkboxes
 function CheckboxField({
   label,
@@ -7,6 +7,8 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { PatientImageUpload } from '@/components/patient/PatientImageUpload';
+import { AssessmentComparison } from '@/components/patient/AssessmentComparison';
+import { TrendCharts } from '@/components/patient/TrendCharts';
 import {
   ArrowLeft,
   Calendar,
@@ -19,9 +21,17 @@ import {
   ClipboardList,
   Plus,
   Activity,
+  CalendarClock,
+  PlayCircle,
+  FilePen,
+  History,
+  Printer,
+  LineChart,
 } from 'lucide-react';
-import { format, differenceInMonths, differenceInYears } from 'date-fns';
+import { format, differenceInMonths, differenceInYears, isPast, isToday, parseISO } from 'date-fns';
 import { getColorDisplay } from '@/lib/imnci-classification';
+import { FOLLOW_UP_DECISION_COLORS, FOLLOW_UP_DECISION_LABELS, FOLLOW_UP_GUIDES } from '@/lib/imnci-followup';
+import { formatChangeValue, type AssessmentChange } from '@/lib/imnci-amendments';
 
 export default function PatientDetail() {
   const { id } = useParams<{ id: string }>();
@@ -70,6 +80,36 @@ export default function PatientDetail() {
     enabled: !!id,
   });
 
+  const { data: followUps } = useQuery({
+    queryKey: ['patient-follow-ups', id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('imnci_follow_ups')
+        .select('*')
+        .eq('patient_id', id)
+        .order('created_at', { ascending: true });
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!id,
+  });
+
+  const { data: revisions } = useQuery({
+    queryKey: ['assessment-revisions', id],
+    queryFn: async () => {
+      if (!assessments?.length) return [];
+      const assessmentIds = assessments.map((a) => a.id);
+      const { data, error } = await supabase
+        .from('imnci_assessment_revisions')
+        .select('*')
+        .in('assessment_id', assessmentIds)
+        .order('revision_number', { ascending: true });
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!assessments?.length,
+  });
+
   const { data: referrals } = useQuery({
     queryKey: ['patient-referrals', id],
     queryFn: async () => {
@@ -210,7 +250,7 @@ export default function PatientDetail() {
         <Card className="md:col-span-2">
           <Tabs defaultValue="cases">
             <CardHeader className="pb-0">
-              <TabsList className="grid w-full grid-cols-3">
+              <TabsList className="grid w-full grid-cols-4">
                 <TabsTrigger value="cases" className="flex items-center gap-2">
                   <FileText className="h-4 w-4" />
                   Cases ({cases?.length || 0})
@@ -223,6 +263,10 @@ export default function PatientDetail() {
                   <AlertTriangle className="h-4 w-4" />
                   Referrals ({referrals?.length || 0})
                 </TabsTrigger>
+                <TabsTrigger value="trends" className="flex items-center gap-2">
+                  <LineChart className="h-4 w-4" />
+                  Trends
+                </TabsTrigger>
               </TabsList>
             </CardHeader>
 
@@ -279,6 +323,9 @@ export default function PatientDetail() {
 
               {/* Assessments Tab */}
               <TabsContent value="assessments" className="mt-0 space-y-4">
+                {assessments && (
+                  <AssessmentComparison assessments={assessments.filter((a) => a.status === 'completed')} />
+                )}
                 {assessments && assessments.length > 0 ? (
                   assessments.map((assessment) => {
                     const colorInfo = assessment.overall_classification_color
@@ -293,6 +340,26 @@ export default function PatientDetail() {
                           <div>
                             <p className="font-medium">{assessment.overall_classification || 'In Progress'}</p>
                             <div className="flex gap-2 mt-2 flex-wrap">
+                              {assessment.is_young_infant && (
+                                <Badge variant="secondary">Young Infant</Badge>
+                              )}
+                              {assessment.emergency_fast_track && (
+                                <Badge variant="destructive">Emergency fast-track</Badge>
+                              )}
+                              {assessment.amendment_count > 0 && (
+                                <Badge variant="outline" className="border-info text-info">
+                                  Amended
+                                </Badge>
+                              )}
+                              {assessment.infant_infection_completed && (
+                                <Badge variant="outline">Bacterial Infection ✓</Badge>
+                              )}
+                              {assessment.jaundice_completed && (
+                                <Badge variant="outline">Jaundice ✓</Badge>
+                              )}
+                              {assessment.infant_feeding_completed && (
+                                <Badge variant="outline">Feeding ✓</Badge>
+                              )}
                               {assessment.danger_signs_completed && (
                                 <Badge variant="outline">Danger Signs ✓</Badge>
                               )}
@@ -305,9 +372,19 @@ export default function PatientDetail() {
                               {assessment.fever_completed && (
                                 <Badge variant="outline">Fever ✓</Badge>
                               )}
+                              {assessment.malaria_rdt_required &&
+                                assessment.malaria_rdt_result !== 'positive' &&
+                                assessment.malaria_rdt_result !== 'negative' && (
+                                <Badge variant="outline" className="border-yellow-500 text-yellow-700">
+                                  No malaria RDT result
+                                </Badge>
+                              )}
                               {assessment.nutrition_completed && (
                                 <Badge variant="outline">Nutrition ✓</Badge>
                               )}
+                              {assessment.feeding_completed && (
+                                <Badge variant="outline">Feeding ✓</Badge>
+                              )}
                             </div>
                           </div>
                           <div className="text-right">
@@ -326,6 +403,125 @@ export default function PatientDetail() {
                             </p>
                           </div>
                         </div>
+                        {followUps?.some((f) => f.assessment_id === assessment.id) && (
+                          <div className="mt-3 space-y-1">
+                            {followUps
+                              .filter((f) => f.assessment_id === assessment.id)
+                              .map((followUp) => {
+                                const decision = followUp.decision as keyof typeof FOLLOW_UP_DECISION_LABELS;
+                                const decisionColor = getColorDisplay(FOLLOW_UP_DECISION_COLORS[decision]);
+                                return (
+                                  <div key={followUp.id} className="flex items-center gap-2 text-sm">
+                                    <Badge className={`${decisionColor.bgClass} ${decisionColor.textClass} border-0`}>
+                                      {FOLLOW_UP_DECISION_LABELS[decision]}
+                                    </Badge>
+                                    <span>
+                                      {FOLLOW_UP_GUIDES.find((g) => g.condition === followUp.condition)?.label} follow-up:{' '}
+                                      {followUp.progress}
+                                    </span>
+                                    <span className="text-muted-foreground ml-auto">
+                                      {format(new Date(followUp.created_at), 'dd MMM yyyy')}
+                                    </span>
+                                  </div>
+                                );
+                              })}
+                          </div>
+                        )}
+                        {assessment.status === 'in_progress' && (
+                          <div className="mt-3">
+                            <Button size="sm" variant="outline" asChild>
+                              <Link to={`/assessments/${assessment.id}`}>
+                                <PlayCircle className="h-4 w-4 mr-1" />
+                                Continue
+                              </Link>
+                            </Button>
+                          </div>
+                        )}
+                        {assessment.status === 'completed' && (
+                          <div className="mt-3 space-y-2">
+                            {revisions?.some((r) => r.assessment_id === assessment.id) && (
+                              <div className="space-y-2">
+                                <p className="text-sm font-medium flex items-center gap-2">
+                                  <History className="h-4 w-4" />
+                                  Amendments
+                                </p>
+                                {revisions
+                                  .filter((r) => r.assessment_id === assessment.id)
+                                  .map((revision) => {
+                                    const changes = revision.changes as unknown as AssessmentChange[];
+                                    return (
+                                      <div key={revision.id} className="p-2 rounded-md bg-muted/50 text-sm space-y-1">
+                                        <div className="flex items-center justify-between gap-2">
+                                          <span className="font-medium">
+                                            Revision {revision.revision_number} by {revision.amended_by_name || 'Unknown'}
+                                          </span>
+                                          <span className="text-muted-foreground">
+                                            {format(new Date(revision.created_at), 'dd MMM yyyy HH:mm')}
+                                          </span>
+                                        </div>
+                                        <p>{revision.reason}</p>
+                                        {(revision.previous_overall_color !== revision.new_overall_color ||
+                                          revision.previous_requires_referral !== revision.new_requires_referral) && (
+                                          <p className="font-medium text-destructive">
+                                            Outcome changed:{' '}
+                                            {revision.previous_overall_color
+                                              ? getColorDisplay(revision.previous_overall_color).label
+                                              : '—'}{' '}
+                                            →{' '}
+                                            {revision.new_overall_color
+                                              ? getColorDisplay(revision.new_overall_color).label
+                                              : '—'}
+                                            {revision.previous_requires_referral !== revision.new_requires_referral &&
+                                              `, referral ${revision.new_requires_referral ? 'now required' : 'no longer required'}`}
+                                          </p>
+                                        )}
+                                        <p className="text-muted-foreground">
+                                          {changes
+                                            .map((c) => `${c.label}: ${formatChangeValue(c.from)} → ${formatChangeValue(c.to)}`)
+                                            .join('; ')}
+                                        </p>
+                                      </div>
+                                    );
+                                  })}
+                              </div>
+                            )}
+                            <div className="flex gap-2">
+                              <Button size="sm" variant="ghost" asChild>
+                                <Link to={`/assessments/${assessment.id}/amend`}>
+                                  <FilePen className="h-4 w-4 mr-1" />
+                                  Amend
+                                </Link>
+                              </Button>
+                              <Button size="sm" variant="ghost" asChild>
+                                <Link to={`/assessments/${assessment.id}/print`}>
+                                  <Printer className="h-4 w-4 mr-1" />
+                                  Print Form
+                                </Link>
+                              </Button>
+                            </div>
+                          </div>
+                        )}
+                        {assessment.follow_up_due_date && assessment.status === 'completed' && (
+                          <div className="mt-3 flex items-center gap-2">
+                            <Badge
+                              variant={
+                                isPast(parseISO(assessment.follow_up_due_date)) &&
+                                !isToday(parseISO(assessment.follow_up_due_date))
+                                  ? 'destructive'
+                                  : 'outline'
+                              }
+                            >
+                              <CalendarClock className="h-3 w-3 mr-1" />
+                              Follow-up due {format(parseISO(assessment.follow_up_due_date), 'dd MMM yyyy')}
+                            </Badge>
+                            <Button size="sm" variant="outline" asChild>
+                              <Link to={`/assessments/${assessment.id}/follow-up`}>
+                                <Stethoscope className="h-4 w-4 mr-1" />
+                                Follow-up Visit
+                              </Link>
+                            </Button>
+                          </div>
+                        )}
                       </div>
                     );
                   })
@@ -372,6 +568,15 @@ export default function PatientDetail() {
                   </div>
                 )}
               </TabsContent>
+
+              {/* Trends Tab */}
+              <TabsContent value="trends" className="mt-0">
+                <TrendCharts
+                  assessments={(assessments || []).filter((a) => a.status === 'completed')}
+                  dateOfBirth={patient.date_of_birth}
+                  district={patient.district}
+                />
+              </TabsContent>
             </CardContent>
           </Tabs>
         </Card>
@@ -9,8 +9,13 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/hooks/use-toast';
-import { ArrowLeft, Save, User } from 'lucide-react';
+import { ArrowLeft, Save, User, Users, ExternalLink } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { DOB_TOLERANCE_DAYS, findDuplicatePatients, normalizePhone, type PatientMatch } from '@/lib/patient-matching';
 import { z } from 'zod';
 
 const patientSchema = z.object({
@@ -45,6 +50,8 @@ export default function PatientForm() {
     facilityName: profile?.facility_name || '',
   });
 
+  const [duplicateMatches, setDuplicateMatches] = useState<PatientMatch[]>([]);
+
   // Update facility name when profile loads
   React.useEffect(() => {
     if (profile?.facility_name && !formData.facilityName) {
@@ -103,6 +110,40 @@ export default function PatientForm() {
     },
   });
 
+  // Look for the child among registered patients before creating a new record
+  const checkDuplicates = useMutation({
+    mutationFn: async (data: typeof formData) => {
+      // Only patients who could score as a duplicate, closest date of birth first; the fuzzy
+      // matching then scores them
+      const { data: candidates, error } = await supabase.rpc('find_patient_candidates', {
+        _first_name: data.firstName,
+        _last_name: data.lastName,
+        _date_of_birth: data.dateOfBirth,
+        _guardian_name: data.guardianName,
+        _guardian_phone: data.guardianPhone ? normalizePhone(data.guardianPhone) : '',
+        _dob_tolerance_days: DOB_TOLERANCE_DAYS,
+        _limit: 500,
+      });
+      if (error) throw error;
+
+      return findDuplicatePatients(candidates, data);
+    },
+    onSuccess: (matches, data) => {
+      if (matches.length > 0) {
+        setDuplicateMatches(matches);
+        return;
+      }
+      createPatient.mutate(data);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -116,7 +157,7 @@ export default function PatientForm() {
       return;
     }
 
-    createPatient.mutate(formData);
+    checkDuplicates.mutate(formData);
   };
 
   const sierraLeoneDistricts = [
@@ -303,12 +344,82 @@ export default function PatientForm() {
           <Button type="button" variant="outline" onClick={() => navigate(-1)}>
             Cancel
           </Button>
-          <Button type="submit" disabled={createPatient.isPending}>
+          <Button type="submit" disabled={checkDuplicates.isPending || createPatient.isPending}>
             <Save className="h-4 w-4 mr-2" />
-            {createPatient.isPending ? 'Registering...' : 'Register Patient'}
+            {checkDuplicates.isPending
+              ? 'Checking...'
+              : createPatient.isPending
+                ? 'Registering...'
+                : 'Register Patient'}
           </Button>
         </div>
       </form>
+
+      {/* Possible duplicates */}
+      <Dialog open={duplicateMatches.length > 0} onOpenChange={(open) => !open && setDuplicateMatches([])}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Users className="h-5 w-5" />
+              Possible Existing Patient
+            </DialogTitle>
+            <DialogDescription>
+              These registered patients look like the child you are registering. Open their record instead
+              of registering them again, so their history stays in one place.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3 max-h-[60vh] overflow-y-auto">
+            {duplicateMatches.map(({ patient, reasons }) => (
+              <div key={patient.id} className="flex items-start gap-3 p-3 rounded-lg border border-border">
+                <Avatar className="h-14 w-14 border-2 border-border">
+                  <AvatarImage src={patient.profile_picture_url || undefined} alt={`${patient.first_name} ${patient.last_name}`} />
+                  <AvatarFallback className="bg-primary/10 text-primary font-semibold">
+                    {patient.first_name.charAt(0)}
+                    {patient.last_name.charAt(0)}
+                  </AvatarFallback>
+                </Avatar>
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium">
+                    {patient.first_name} {patient.last_name}
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    {patient.registration_number} • Born {format(parseISO(patient.date_of_birth), 'dd MMM yyyy')}
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    Caregiver: {patient.guardian_name}
+                    {patient.guardian_phone && ` • ${patient.guardian_phone}`}
+                  </p>
+                  <div className="flex flex-wrap gap-1 mt-2">
+                    {reasons.map((reason) => (
+                      <Badge key={reason} variant="secondary" className="text-xs">
+                        {reason}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+                <Button size="sm" variant="outline" onClick={() => navigate(`/patients/${patient.id}`)}>
+                  <ExternalLink className="h-4 w-4 mr-1" />
+                  Open
+                </Button>
+              </div>
+            ))}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDuplicateMatches([])}>
+              Back to Form
+            </Button>
+            <Button
+              onClick={() => {
+                setDuplicateMatches([]);
+                createPatient.mutate(formData);
+              }}
+              disabled={createPatient.isPending}
+            >
+              Register as New Patient
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -10,8 +10,11 @@ import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
-import { ArrowLeft, Save, Send, Search, AlertTriangle } from 'lucide-react';
+import { ArrowLeft, Save, Send, Search, AlertTriangle, CheckCircle, XCircle } from 'lucide-react';
 import { z } from 'zod';
+import type { Json } from '@/integrations/supabase/types';
+import type { PreReferralRecord } from '@/lib/imnci-prereferral';
+import { REFERRAL_FACILITIES, generateReferralNumber } from '@/lib/referrals';
 
 const referralSchema = z.object({
   caseId: z.string().min(1, 'Please select a case'),
@@ -68,12 +71,23 @@ export default function ReferralForm() {
     },
   });
 
-  const generateReferralNumber = () => {
-    const prefix = 'REF';
-    const date = new Date().toISOString().slice(2, 10).replace(/-/g, '');
-    const random = Math.random().toString(36).substring(2, 6).toUpperCase();
-    return `${prefix}-${date}-${random}`;
-  };
+  // Pre-referral treatments recorded in the case's latest IMNCI assessment
+  const { data: preReferralTreatments } = useQuery({
+    queryKey: ['pre-referral-treatments', formData.caseId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('imnci_assessments')
+        .select('pre_referral_treatments')
+        .eq('case_id', formData.caseId)
+        .not('pre_referral_treatments', 'is', null)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+      if (error) throw error;
+      return (data?.pre_referral_treatments as unknown as PreReferralRecord[]) || [];
+    },
+    enabled: !!formData.caseId,
+  });
 
   const createReferral = useMutation({
     mutationFn: async (data: typeof formData) => {
@@ -90,6 +104,9 @@ export default function ReferralForm() {
           urgency: data.urgency,
           notes: data.notes || null,
           status: 'pending',
+          pre_referral_treatments: preReferralTreatments?.length
+            ? preReferralTreatments as unknown as Json
+            : null,
         })
         .select()
         .single();
@@ -140,19 +157,6 @@ export default function ReferralForm() {
     createReferral.mutate(formData);
   };
 
-  const facilities = [
-    'Bo Government Hospital',
-    'Connaught Hospital, Freetown',
-    'Princess Christian Maternity Hospital',
-    'Ola During Children\'s Hospital',
-    'Kenema Government Hospital',
-    'Makeni Government Hospital',
-    'Port Loko Government Hospital',
-    'Moyamba Government Hospital',
-    'Pujehun Government Hospital',
-    'Kailahun Government Hospital',
-  ];
-
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -203,6 +207,23 @@ export default function ReferralForm() {
                     ))}
                   </SelectContent>
                 </Select>
+                {preReferralTreatments && preReferralTreatments.length > 0 && (
+                  <div className="rounded-md border p-3 space-y-1">
+                    <p className="text-sm font-medium">Pre-referral treatment (attached to this referral)</p>
+                    {preReferralTreatments.map((item) => (
+                      <p key={item.id} className="text-sm flex items-center gap-2">
+                        {item.given ? (
+                          <CheckCircle className="h-4 w-4 text-success" />
+                        ) : (
+                          <XCircle className="h-4 w-4 text-muted-foreground" />
+                        )}
+                        <span className={item.given ? '' : 'text-muted-foreground'}>
+                          {item.label}{!item.given && ' (not given)'}
+                        </span>
+                      </p>
+                    ))}
+                  </div>
+                )}
               </div>
             </CardContent>
           </Card>
@@ -236,7 +257,7 @@ export default function ReferralForm() {
                     <SelectValue placeholder="Select destination" />
                   </SelectTrigger>
                   <SelectContent className="bg-popover">
-                    {facilities.map((facility) => (
+                    {REFERRAL_FACILITIES.map((facility) => (
                       <SelectItem key={facility} value={facility}>
                         {facility}
                       </SelectItem>
@@ -27,6 +27,7 @@ import { Plus, Search, Send, Eye, CheckCircle, XCircle, Clock } from 'lucide-rea
 import { Link } from 'react-router-dom';
 import { format } from 'date-fns';
 import { useToast } from '@/hooks/use-toast';
+import type { PreReferralRecord } from '@/lib/imnci-prereferral';
 
 type ReferralStatus = 'pending' | 'accepted' | 'in_progress' | 'completed' | 'cancelled';
 
@@ -320,6 +321,16 @@ export default function Referrals() {
               {actionDialog.action === 'cancel' && 'Are you sure you want to cancel this referral?'}
             </DialogDescription>
           </DialogHeader>
+          {actionDialog.action === 'accept' && selectedReferral?.pre_referral_treatments?.length > 0 && (
+            <div className="rounded-md border p-3 space-y-1">
+              <p className="text-sm font-medium">Pre-referral treatment</p>
+              {(selectedReferral.pre_referral_treatments as PreReferralRecord[]).map((item) => (
+                <p key={item.id} className={`text-sm ${item.given ? '' : 'text-muted-foreground'}`}>
+                  {item.given ? '✓' : '✗'} {item.label}{!item.given && ' (not given)'}
+                </p>
+              ))}
+            </div>
+          )}
           <DialogFooter>
             <Button variant="outline" onClick={() => setActionDialog({ open: false, action: null })}>
               Cancel
@@ -0,0 +1,5 @@
+import type { ClassificationResult } from '@/lib/imnci-classification';
+
+// Classification results with only their names, for the modules that act on names
+export const classified = (...names: string[]): ClassificationResult[] =>
+  names.map((classification) => ({ classification, color: 'yellow', requiresReferral: false }));
@@ -0,0 +1,31 @@
+-- Young infant (0-2 months) IMNCI module
+ALTER TABLE public.imnci_assessments
+ADD COLUMN IF NOT EXISTS is_young_infant BOOLEAN DEFAULT false,
+
+-- Young infant: Very Severe Disease and Local Bacterial Infection
+ADD COLUMN IF NOT EXISTS infant_infection_completed BOOLEAN DEFAULT false,
+ADD COLUMN IF NOT EXISTS not_feeding_well BOOLEAN DEFAULT false,
+ADD COLUMN IF NOT EXISTS severe_chest_indrawing BOOLEAN DEFAULT false,
+ADD COLUMN IF NOT EXISTS movement_only_when_stimulated BOOLEAN DEFAULT false,
+ADD COLUMN IF NOT EXISTS umbilicus_red_or_pus BOOLEAN DEFAULT false,
+ADD COLUMN IF NOT EXISTS skin_pustules BOOLEAN DEFAULT false,
+ADD COLUMN IF NOT EXISTS infant_infection_classification TEXT,
+ADD COLUMN IF NOT EXISTS infant_infection_classification_color classification_color,
+
+-- Young infant: Jaundice
+ADD COLUMN IF NOT EXISTS jaundice_completed BOOLEAN DEFAULT false,
+ADD COLUMN IF NOT EXISTS has_jaundice BOOLEAN DEFAULT false,
+ADD COLUMN IF NOT EXISTS jaundice_palms_soles BOOLEAN DEFAULT false,
+ADD COLUMN IF NOT EXISTS jaundice_classification TEXT,
+ADD COLUMN IF NOT EXISTS jaundice_classification_color classification_color,
+
+-- Young infant: Feeding Problem or Low Weight for Age
+ADD COLUMN IF NOT EXISTS infant_feeding_completed BOOLEAN DEFAULT false,
+ADD COLUMN IF NOT EXISTS breastfed BOOLEAN,
+ADD COLUMN IF NOT EXISTS breastfeeds_per_day INTEGER,
+ADD COLUMN IF NOT EXISTS receives_other_foods BOOLEAN DEFAULT false,
+ADD COLUMN IF NOT EXISTS breastfeeding_attachment TEXT,
+ADD COLUMN IF NOT EXISTS breastfeeding_suckling TEXT,
+ADD COLUMN IF NOT EXISTS oral_thrush BOOLEAN DEFAULT false,
+ADD COLUMN IF NOT EXISTS infant_feeding_classification TEXT,
+ADD COLUMN IF NOT EXISTS infant_feeding_classification_color classification_color;
@@ -0,0 +1,5 @@
+-- HIV classification for IMNCI assessments
+ALTER TABLE public.imnci_assessments
+ADD COLUMN IF NOT EXISTS child_hiv_test_type TEXT,
+ADD COLUMN IF NOT EXISTS hiv_classification TEXT,
+ADD COLUMN IF NOT EXISTS hiv_classification_color classification_color;
@@ -0,0 +1,3 @@
+-- Breathing re-count after a rapid-acting bronchodilator trial for wheezing children
+ALTER TABLE public.imnci_assessments
+ADD COLUMN IF NOT EXISTS breaths_per_minute_after_bronchodilator INTEGER;
@@ -0,0 +1,3 @@
+-- Full classification results per module, including the findings and thresholds that triggered them
+ALTER TABLE public.imnci_assessments
+ADD COLUMN IF NOT EXISTS classification_results JSONB;
@@ -0,0 +1,37 @@
+-- National and district revisions of the IMNCI chart booklet, applied over the base protocol
+CREATE TABLE public.imnci_protocol_overrides (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  country TEXT NOT NULL,
+  district TEXT,
+  version TEXT NOT NULL,
+  thresholds JSONB NOT NULL DEFAULT '{}'::jsonb,
+  treatments JSONB NOT NULL DEFAULT '{}'::jsonb,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  notes TEXT,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Only one active override per country or district
+CREATE UNIQUE INDEX imnci_protocol_overrides_active_scope
+ON public.imnci_protocol_overrides (country, COALESCE(district, ''))
+WHERE is_active;
+
+ALTER TABLE public.imnci_protocol_overrides ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view protocol overrides"
+ON public.imnci_protocol_overrides FOR SELECT
+USING (true);
+
+CREATE POLICY "Admin can manage protocol overrides"
+ON public.imnci_protocol_overrides FOR ALL
+USING (has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_imnci_protocol_overrides_updated_at
+BEFORE UPDATE ON public.imnci_protocol_overrides
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Protocol version that produced each assessment's classifications
+ALTER TABLE public.imnci_assessments ADD COLUMN IF NOT EXISTS protocol_version TEXT;
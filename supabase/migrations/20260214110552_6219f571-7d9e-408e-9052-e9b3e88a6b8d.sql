@@ -0,0 +1,3 @@
+-- Child's weight and the drug doses calculated from it
+ALTER TABLE public.imnci_assessments ADD COLUMN IF NOT EXISTS weight_kg DECIMAL(4,1);
+ALTER TABLE public.imnci_assessments ADD COLUMN IF NOT EXISTS dosing_regimens JSONB;
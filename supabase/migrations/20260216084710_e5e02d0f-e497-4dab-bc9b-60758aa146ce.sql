@@ -0,0 +1,8 @@
+-- Rehydration plan chosen for diarrhea and when Plan C IV fluids were started
+ALTER TABLE public.imnci_assessments ADD COLUMN IF NOT EXISTS rehydration_plan TEXT;
+ALTER TABLE public.imnci_assessments ADD COLUMN IF NOT EXISTS plan_c_started_at TIMESTAMP WITH TIME ZONE;
+
+-- Clinicians dispense Plan A take-home ORS during the assessment
+CREATE POLICY "Clinicians can update inventory when dispensing"
+ON public.inventory FOR UPDATE
+USING (has_role(auth.uid(), 'clinician'));
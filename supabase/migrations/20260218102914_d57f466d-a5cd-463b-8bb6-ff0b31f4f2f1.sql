@@ -0,0 +1,5 @@
+-- Raw anthropometry and the WHO growth-standard z-scores computed from it
+ALTER TABLE public.imnci_assessments ADD COLUMN IF NOT EXISTS length_height_cm DECIMAL(4,1);
+ALTER TABLE public.imnci_assessments ADD COLUMN IF NOT EXISTS measured_lying BOOLEAN;
+ALTER TABLE public.imnci_assessments ADD COLUMN IF NOT EXISTS weight_for_height DECIMAL(4,2);
+ALTER TABLE public.imnci_assessments ADD COLUMN IF NOT EXISTS height_for_age DECIMAL(4,2);
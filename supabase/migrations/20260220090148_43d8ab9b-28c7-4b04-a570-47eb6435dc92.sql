@@ -0,0 +1,12 @@
+-- Feeding assessment and the counselling points given to the mother
+ALTER TABLE public.imnci_assessments ADD COLUMN IF NOT EXISTS feeding_completed BOOLEAN DEFAULT false;
+ALTER TABLE public.imnci_assessments ADD COLUMN IF NOT EXISTS not_breastfed_at_night BOOLEAN;
+ALTER TABLE public.imnci_assessments ADD COLUMN IF NOT EXISTS meals_per_day INTEGER;
+ALTER TABLE public.imnci_assessments ADD COLUMN IF NOT EXISTS food_thin_or_watery BOOLEAN;
+ALTER TABLE public.imnci_assessments ADD COLUMN IF NOT EXISTS uses_feeding_bottle BOOLEAN;
+ALTER TABLE public.imnci_assessments ADD COLUMN IF NOT EXISTS no_own_serving BOOLEAN;
+ALTER TABLE public.imnci_assessments ADD COLUMN IF NOT EXISTS not_actively_fed BOOLEAN;
+ALTER TABLE public.imnci_assessments ADD COLUMN IF NOT EXISTS feeding_reduced_during_illness BOOLEAN;
+ALTER TABLE public.imnci_assessments ADD COLUMN IF NOT EXISTS feeding_classification TEXT;
+ALTER TABLE public.imnci_assessments ADD COLUMN IF NOT EXISTS feeding_classification_color classification_color;
+ALTER TABLE public.imnci_assessments ADD COLUMN IF NOT EXISTS counselling_points TEXT[];
@@ -0,0 +1,35 @@
+-- Malaria risk stratification per district, with optional facility-level entries
+CREATE TABLE public.malaria_risk_areas (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  district TEXT NOT NULL,
+  facility_name TEXT,
+  risk_level TEXT NOT NULL CHECK (risk_level IN ('high', 'low', 'none')),
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- One entry per district and per facility
+CREATE UNIQUE INDEX malaria_risk_areas_scope
+ON public.malaria_risk_areas (district, COALESCE(facility_name, ''));
+
+ALTER TABLE public.malaria_risk_areas ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view malaria risk areas"
+ON public.malaria_risk_areas FOR SELECT
+USING (true);
+
+CREATE POLICY "Admin can manage malaria risk areas"
+ON public.malaria_risk_areas FOR ALL
+USING (has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_malaria_risk_areas_updated_at
+BEFORE UPDATE ON public.malaria_risk_areas
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Malaria risk and travel history used for the fever classification
+ALTER TABLE public.imnci_assessments ADD COLUMN IF NOT EXISTS malaria_risk TEXT;
+ALTER TABLE public.imnci_assessments ADD COLUMN IF NOT EXISTS travelled_to_malaria_area BOOLEAN DEFAULT false;
+ALTER TABLE public.imnci_assessments ADD COLUMN IF NOT EXISTS other_fever_cause BOOLEAN DEFAULT false;
+ALTER TABLE public.imnci_assessments ADD COLUMN IF NOT EXISTS malaria_rdt_required BOOLEAN DEFAULT false;
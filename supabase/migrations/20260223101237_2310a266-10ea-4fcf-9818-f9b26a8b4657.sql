@@ -0,0 +1,3 @@
+-- Pre-referral treatments ticked off before the child left, kept on the assessment and the referral
+ALTER TABLE public.imnci_assessments ADD COLUMN IF NOT EXISTS pre_referral_treatments JSONB;
+ALTER TABLE public.referrals ADD COLUMN IF NOT EXISTS pre_referral_treatments JSONB;
@@ -0,0 +1,44 @@
+-- Date the child is due back, from the classifications that call for follow-up
+ALTER TABLE public.imnci_assessments ADD COLUMN IF NOT EXISTS follow_up_due_date DATE;
+
+-- Follow-up visits, reassessing each condition from the original assessment
+CREATE TABLE public.imnci_follow_ups (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  assessment_id UUID NOT NULL REFERENCES public.imnci_assessments(id) ON DELETE CASCADE,
+  patient_id UUID NOT NULL REFERENCES public.patients(id) ON DELETE CASCADE,
+  case_id UUID REFERENCES public.cases(id) ON DELETE SET NULL,
+  clinician_id UUID REFERENCES auth.users(id),
+  condition TEXT NOT NULL,
+  progress TEXT NOT NULL CHECK (progress IN ('improved', 'same', 'worse')),
+  signs TEXT[] NOT NULL DEFAULT '{}',
+  decision TEXT NOT NULL CHECK (decision IN ('complete', 'continue', 'change_treatment', 'refer')),
+  action TEXT,
+  next_follow_up_date DATE,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX imnci_follow_ups_assessment_id ON public.imnci_follow_ups (assessment_id);
+
+ALTER TABLE public.imnci_follow_ups ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view follow-ups"
+ON public.imnci_follow_ups FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Clinicians can record follow-ups"
+ON public.imnci_follow_ups FOR INSERT
+TO authenticated
+WITH CHECK (has_role(auth.uid(), 'clinician') OR has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Clinicians can manage their follow-ups"
+ON public.imnci_follow_ups FOR ALL
+TO authenticated
+USING (clinician_id = auth.uid() OR has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_imnci_follow_ups_updated_at
+BEFORE UPDATE ON public.imnci_follow_ups
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
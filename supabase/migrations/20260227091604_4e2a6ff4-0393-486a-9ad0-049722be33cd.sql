@@ -0,0 +1,35 @@
+-- Follow-up appointments, scheduled from the classifications when an assessment completes
+CREATE TABLE public.follow_up_appointments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  assessment_id UUID NOT NULL REFERENCES public.imnci_assessments(id) ON DELETE CASCADE,
+  patient_id UUID NOT NULL REFERENCES public.patients(id) ON DELETE CASCADE,
+  case_id UUID REFERENCES public.cases(id) ON DELETE SET NULL,
+  due_date DATE NOT NULL,
+  reasons TEXT[] NOT NULL DEFAULT '{}',
+  status TEXT NOT NULL DEFAULT 'scheduled' CHECK (status IN ('scheduled', 'attended', 'missed', 'traced')),
+  status_updated_by UUID REFERENCES auth.users(id),
+  status_updated_at TIMESTAMP WITH TIME ZONE,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX follow_up_appointments_due_date ON public.follow_up_appointments (due_date, status);
+
+ALTER TABLE public.follow_up_appointments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view follow-up appointments"
+ON public.follow_up_appointments FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Clinicians can manage follow-up appointments"
+ON public.follow_up_appointments FOR ALL
+TO authenticated
+USING (has_role(auth.uid(), 'clinician') OR has_role(auth.uid(), 'admin'))
+WITH CHECK (has_role(auth.uid(), 'clinician') OR has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_follow_up_appointments_updated_at
+BEFORE UPDATE ON public.follow_up_appointments
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,79 @@
+-- Amendments to completed assessments, keeping the original values in an immutable revision history
+ALTER TABLE public.imnci_assessments
+ADD COLUMN amended_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN amendment_count INTEGER NOT NULL DEFAULT 0;
+
+CREATE TABLE public.imnci_assessment_revisions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  assessment_id UUID NOT NULL REFERENCES public.imnci_assessments(id),
+  revision_number INTEGER NOT NULL,
+  -- The full assessment row as it was before this amendment
+  previous_values JSONB NOT NULL,
+  -- Changed fields as [{ field, label, from, to }]
+  changes JSONB NOT NULL DEFAULT '[]',
+  reason TEXT NOT NULL,
+  previous_overall_color classification_color,
+  new_overall_color classification_color,
+  previous_requires_referral BOOLEAN,
+  new_requires_referral BOOLEAN,
+  amended_by UUID NOT NULL REFERENCES auth.users(id),
+  amended_by_name TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (assessment_id, revision_number)
+);
+
+ALTER TABLE public.imnci_assessment_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view assessment revisions"
+ON public.imnci_assessment_revisions FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Clinicians can record assessment revisions"
+ON public.imnci_assessment_revisions FOR INSERT
+TO authenticated
+WITH CHECK (
+  amended_by = auth.uid()
+  AND (has_role(auth.uid(), 'clinician') OR has_role(auth.uid(), 'admin'))
+);
+
+-- Revisions are never edited or removed, whoever is asking
+CREATE OR REPLACE FUNCTION public.prevent_revision_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'Assessment revisions cannot be changed';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER prevent_imnci_assessment_revision_changes
+BEFORE UPDATE OR DELETE ON public.imnci_assessment_revisions
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_revision_changes();
+
+-- Any clinician may amend a completed assessment, not only the one who recorded it
+CREATE POLICY "Clinicians can amend completed assessments"
+ON public.imnci_assessments FOR UPDATE
+TO authenticated
+USING (status = 'completed' AND (has_role(auth.uid(), 'clinician') OR has_role(auth.uid(), 'admin')));
+
+-- A completed assessment only changes through an amendment whose revision is recorded first
+CREATE OR REPLACE FUNCTION public.require_assessment_revision()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.status = 'completed' AND (
+    NEW.amendment_count <> OLD.amendment_count + 1
+    OR NOT EXISTS (
+      SELECT 1 FROM public.imnci_assessment_revisions
+      WHERE assessment_id = NEW.id AND revision_number = NEW.amendment_count
+    )
+  ) THEN
+    RAISE EXCEPTION 'Completed assessments can only be changed by an amendment';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER require_imnci_assessment_revision
+BEFORE UPDATE ON public.imnci_assessments
+FOR EACH ROW
+EXECUTE FUNCTION public.require_assessment_revision();
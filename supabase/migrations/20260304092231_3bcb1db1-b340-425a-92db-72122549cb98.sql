@@ -0,0 +1,4 @@
+-- Assessments fast-tracked to emergency referral after a general danger sign,
+-- with the remaining modules recorded in the shortened quick assessment
+ALTER TABLE public.imnci_assessments
+ADD COLUMN emergency_fast_track BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,5 @@
+-- Referrals made from an assessment point back to it
+ALTER TABLE public.referrals
+ADD COLUMN assessment_id UUID REFERENCES public.imnci_assessments(id) ON DELETE SET NULL;
+
+CREATE INDEX referrals_assessment_id ON public.referrals (assessment_id);
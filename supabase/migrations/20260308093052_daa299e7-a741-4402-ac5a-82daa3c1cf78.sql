@@ -0,0 +1,81 @@
+-- Prescription orders raised from the doses of a completed assessment, one line per medication,
+-- filled from stock in the pharmacy queue
+CREATE TABLE public.prescription_orders (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  assessment_id UUID NOT NULL UNIQUE REFERENCES public.imnci_assessments(id) ON DELETE CASCADE,
+  patient_id UUID NOT NULL REFERENCES public.patients(id) ON DELETE CASCADE,
+  case_id UUID REFERENCES public.cases(id) ON DELETE SET NULL,
+  prescribed_by UUID NOT NULL REFERENCES auth.users(id),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'partially_filled', 'filled', 'out_of_stock')),
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.prescription_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  order_id UUID NOT NULL REFERENCES public.prescription_orders(id) ON DELETE CASCADE,
+  medication_id UUID REFERENCES public.medications(id),
+  drug_name TEXT NOT NULL,
+  dose TEXT NOT NULL,
+  frequency TEXT NOT NULL,
+  duration TEXT NOT NULL,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  quantity_dispensed INTEGER NOT NULL DEFAULT 0 CHECK (quantity_dispensed >= 0),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'partially_filled', 'filled', 'out_of_stock')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX prescription_orders_status ON public.prescription_orders (status, created_at);
+CREATE INDEX prescription_items_order_id ON public.prescription_items (order_id);
+
+-- Stock dispensed against a prescription line
+ALTER TABLE public.dispensing_records
+ADD COLUMN prescription_item_id UUID REFERENCES public.prescription_items(id) ON DELETE SET NULL;
+
+ALTER TABLE public.prescription_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.prescription_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view prescription orders"
+ON public.prescription_orders FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Clinicians can create prescription orders"
+ON public.prescription_orders FOR INSERT
+TO authenticated
+WITH CHECK (
+  prescribed_by = auth.uid()
+  AND (has_role(auth.uid(), 'clinician') OR has_role(auth.uid(), 'admin'))
+);
+
+CREATE POLICY "Pharmacy can update prescription orders"
+ON public.prescription_orders FOR UPDATE
+TO authenticated
+USING (has_role(auth.uid(), 'pharmacy') OR has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Authenticated users can view prescription items"
+ON public.prescription_items FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Clinicians can create prescription items"
+ON public.prescription_items FOR INSERT
+TO authenticated
+WITH CHECK (has_role(auth.uid(), 'clinician') OR has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Pharmacy can update prescription items"
+ON public.prescription_items FOR UPDATE
+TO authenticated
+USING (has_role(auth.uid(), 'pharmacy') OR has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_prescription_orders_updated_at
+BEFORE UPDATE ON public.prescription_orders
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_prescription_items_updated_at
+BEFORE UPDATE ON public.prescription_items
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
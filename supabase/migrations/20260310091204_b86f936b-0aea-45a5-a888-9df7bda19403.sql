@@ -0,0 +1,3 @@
+-- Deep or extensive mouth ulcers make measles severe complicated; ordinary ulcers do not
+ALTER TABLE public.imnci_assessments
+ADD COLUMN deep_mouth_ulcers BOOLEAN DEFAULT false;
@@ -0,0 +1,2 @@
+-- When the child was last reassessed during Plan C, so the reassessment reminder survives a reload
+ALTER TABLE public.imnci_assessments ADD COLUMN IF NOT EXISTS plan_c_reassessed_at TIMESTAMP WITH TIME ZONE;
@@ -0,0 +1,72 @@
+-- The pharmacy closes an order that cannot be filled any further, taking it off the queue
+ALTER TABLE public.prescription_orders DROP CONSTRAINT prescription_orders_status_check;
+ALTER TABLE public.prescription_orders ADD CONSTRAINT prescription_orders_status_check
+CHECK (status IN ('pending', 'partially_filled', 'filled', 'out_of_stock', 'closed'));
+
+-- Raise or update the prescription order for an assessment in one transaction, so an order is
+-- never left without its lines. Lines not yet dispensed are replaced, which makes a retried
+-- completion safe and lets an amendment change the doses still waiting at the pharmacy
+CREATE OR REPLACE FUNCTION public.save_prescription_order(
+  _assessment_id UUID,
+  _patient_id UUID,
+  _case_id UUID,
+  _items JSONB
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order_id UUID;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'clinician') OR has_role(auth.uid(), 'admin')) THEN
+    RAISE EXCEPTION 'Only clinicians can prescribe';
+  END IF;
+
+  INSERT INTO public.prescription_orders (assessment_id, patient_id, case_id, prescribed_by)
+  VALUES (_assessment_id, _patient_id, _case_id, auth.uid())
+  ON CONFLICT (assessment_id) DO NOTHING;
+
+  SELECT id INTO _order_id FROM public.prescription_orders WHERE assessment_id = _assessment_id;
+
+  DELETE FROM public.prescription_items
+  WHERE order_id = _order_id AND quantity_dispensed = 0;
+
+  -- A drug the pharmacy has started dispensing keeps its line
+  INSERT INTO public.prescription_items (order_id, medication_id, drug_name, dose, frequency, duration, quantity)
+  SELECT
+    _order_id,
+    (item->>'medication_id')::UUID,
+    item->>'drug_name',
+    item->>'dose',
+    item->>'frequency',
+    item->>'duration',
+    (item->>'quantity')::INTEGER
+  FROM jsonb_array_elements(_items) AS item
+  WHERE NOT EXISTS (
+    SELECT 1 FROM public.prescription_items dispensed
+    WHERE dispensed.order_id = _order_id AND dispensed.drug_name = item->>'drug_name'
+  );
+
+  IF NOT EXISTS (SELECT 1 FROM public.prescription_items WHERE order_id = _order_id) THEN
+    DELETE FROM public.prescription_orders WHERE id = _order_id;
+    RETURN NULL;
+  END IF;
+
+  UPDATE public.prescription_orders
+  SET status = (
+    SELECT CASE
+      WHEN bool_and(items.status = 'filled') THEN 'filled'
+      WHEN bool_or(items.quantity_dispensed > 0) THEN 'partially_filled'
+      WHEN bool_and(items.status = 'out_of_stock') THEN 'out_of_stock'
+      ELSE 'pending'
+    END
+    FROM public.prescription_items items
+    WHERE items.order_id = _order_id
+  )
+  WHERE id = _order_id;
+
+  RETURN _order_id;
+END;
+$$;
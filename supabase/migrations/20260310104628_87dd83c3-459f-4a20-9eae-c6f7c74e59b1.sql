@@ -0,0 +1,84 @@
+-- Amend a completed assessment in one transaction: the revision keeping the stored values and the
+-- update of the assessment are saved together or not at all. The revision number is taken from the
+-- locked row, so a retry or a colleague amending at the same time cannot reuse it
+CREATE OR REPLACE FUNCTION public.amend_assessment(
+  _assessment_id UUID,
+  _values JSONB,
+  _changes JSONB,
+  _reason TEXT
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _old public.imnci_assessments;
+  _new public.imnci_assessments;
+  _revision_number INTEGER;
+  _columns TEXT;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'clinician') OR has_role(auth.uid(), 'admin')) THEN
+    RAISE EXCEPTION 'Only clinicians can amend assessments';
+  END IF;
+
+  IF coalesce(trim(_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is needed to amend an assessment';
+  END IF;
+
+  SELECT * INTO _old FROM public.imnci_assessments WHERE id = _assessment_id FOR UPDATE;
+  IF NOT FOUND OR _old.status <> 'completed' THEN
+    RAISE EXCEPTION 'Only completed assessments can be amended';
+  END IF;
+
+  -- Who recorded the assessment, when, and its amendment history are not the amendment's to change
+  _values := _values - ARRAY[
+    'id', 'patient_id', 'case_id', 'clinician_id', 'status', 'created_at', 'updated_at',
+    'amended_at', 'amendment_count'
+  ];
+  _new := jsonb_populate_record(_old, _values);
+  _revision_number := _old.amendment_count + 1;
+
+  INSERT INTO public.imnci_assessment_revisions (
+    assessment_id,
+    revision_number,
+    previous_values,
+    changes,
+    reason,
+    previous_overall_color,
+    new_overall_color,
+    previous_requires_referral,
+    new_requires_referral,
+    amended_by,
+    amended_by_name
+  )
+  VALUES (
+    _assessment_id,
+    _revision_number,
+    to_jsonb(_old),
+    coalesce(_changes, '[]'::JSONB),
+    trim(_reason),
+    _old.overall_classification_color,
+    _new.overall_classification_color,
+    _old.requires_referral,
+    _new.requires_referral,
+    auth.uid(),
+    (SELECT full_name FROM public.profiles WHERE user_id = auth.uid())
+  );
+
+  SELECT string_agg(format('%I = ($2).%I', key, key), ', ')
+  INTO _columns
+  FROM jsonb_object_keys(_values) AS key;
+
+  EXECUTE format(
+    'UPDATE public.imnci_assessments SET %s amended_at = now(), amendment_count = $3 WHERE id = $1',
+    CASE WHEN _columns IS NULL THEN '' ELSE _columns || ',' END
+  )
+  USING _assessment_id, _new, _revision_number;
+
+  RETURN _revision_number;
+END;
+$$;
+
+-- A revision is only recorded with its amendment
+DROP POLICY "Clinicians can record assessment revisions" ON public.imnci_assessment_revisions;
@@ -0,0 +1,50 @@
+-- Clinicians only take Plan A ORS out of stock, so they get no general update on inventory
+DROP POLICY "Clinicians can update inventory when dispensing" ON public.inventory;
+
+-- Dispense take-home ORS from one batch and record it, checking the stock while the batch is locked
+CREATE OR REPLACE FUNCTION public.dispense_ors(
+  _inventory_id UUID,
+  _quantity INTEGER,
+  _patient_id UUID,
+  _case_id UUID
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _remaining INTEGER;
+BEGIN
+  IF NOT (
+    has_role(auth.uid(), 'clinician') OR has_role(auth.uid(), 'pharmacy') OR has_role(auth.uid(), 'admin')
+  ) THEN
+    RAISE EXCEPTION 'Only clinicians can dispense ORS';
+  END IF;
+
+  IF _quantity IS NULL OR _quantity < 1 THEN
+    RAISE EXCEPTION 'Enter the number of sachets';
+  END IF;
+
+  SELECT inventory.quantity INTO _remaining
+  FROM public.inventory
+  JOIN public.medications ON medications.id = inventory.medication_id
+  WHERE inventory.id = _inventory_id AND medications.name = 'ORS Sachets'
+  FOR UPDATE OF inventory;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Select an ORS batch to dispense from';
+  END IF;
+
+  IF _remaining < _quantity THEN
+    RAISE EXCEPTION 'Insufficient stock';
+  END IF;
+
+  UPDATE public.inventory SET quantity = quantity - _quantity WHERE id = _inventory_id;
+
+  INSERT INTO public.dispensing_records (inventory_id, patient_id, case_id, quantity_dispensed, dispensed_by, notes)
+  VALUES (_inventory_id, _patient_id, _case_id, _quantity, auth.uid(), 'Plan A take-home ORS');
+
+  RETURN _remaining - _quantity;
+END;
+$$;
@@ -0,0 +1,80 @@
+-- Record a follow-up visit in one transaction: the findings for each condition, the appointments
+-- it attends and the next visits it books are saved together, so a failed save can be retried
+-- without recording the visit or booking the next one twice
+CREATE OR REPLACE FUNCTION public.record_follow_up_visit(
+  _assessment_id UUID,
+  _visit_date DATE,
+  _follow_ups JSONB,
+  _next_visits JSONB
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _patient_id UUID;
+  _case_id UUID;
+  _attended_ids UUID[];
+BEGIN
+  IF NOT (has_role(auth.uid(), 'clinician') OR has_role(auth.uid(), 'admin')) THEN
+    RAISE EXCEPTION 'Only clinicians can record follow-up visits';
+  END IF;
+
+  SELECT patient_id, case_id INTO _patient_id, _case_id
+  FROM public.imnci_assessments
+  WHERE id = _assessment_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Assessment not found';
+  END IF;
+
+  INSERT INTO public.imnci_follow_ups (
+    assessment_id, patient_id, case_id, clinician_id, condition, progress, signs, decision, action,
+    next_follow_up_date, notes
+  )
+  SELECT
+    _assessment_id,
+    _patient_id,
+    _case_id,
+    auth.uid(),
+    item->>'condition',
+    item->>'progress',
+    ARRAY(SELECT jsonb_array_elements_text(coalesce(item->'signs', '[]'::JSONB))),
+    item->>'decision',
+    item->>'action',
+    (item->>'next_follow_up_date')::DATE,
+    item->>'notes'
+  FROM jsonb_array_elements(_follow_ups) AS item;
+
+  -- This visit attends the open appointments that are due, or the next one if the child came early
+  SELECT array_agg(id) INTO _attended_ids
+  FROM public.follow_up_appointments
+  WHERE assessment_id = _assessment_id
+    AND status IN ('scheduled', 'missed')
+    AND due_date <= _visit_date;
+
+  IF _attended_ids IS NULL THEN
+    SELECT array_agg(id) INTO _attended_ids
+    FROM (
+      SELECT id FROM public.follow_up_appointments
+      WHERE assessment_id = _assessment_id AND status IN ('scheduled', 'missed')
+      ORDER BY due_date
+      LIMIT 1
+    ) AS next_appointment;
+  END IF;
+
+  UPDATE public.follow_up_appointments
+  SET status = 'attended', status_updated_by = auth.uid(), status_updated_at = now()
+  WHERE id = ANY(coalesce(_attended_ids, '{}'));
+
+  INSERT INTO public.follow_up_appointments (assessment_id, patient_id, case_id, due_date, reasons)
+  SELECT
+    _assessment_id,
+    _patient_id,
+    _case_id,
+    (visit->>'due_date')::DATE,
+    ARRAY(SELECT jsonb_array_elements_text(visit->'reasons'))
+  FROM jsonb_array_elements(_next_visits) AS visit;
+END;
+$$;
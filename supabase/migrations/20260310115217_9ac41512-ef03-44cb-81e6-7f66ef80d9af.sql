@@ -0,0 +1,36 @@
+-- The order status follows its lines. It is worked out here, in the transaction that changes a
+-- line, so two pharmacists filling one order or an amendment replacing lines cannot leave it stale.
+-- The order is filled when every line is, out of stock when nothing could be given at all.
+-- A closed order stays closed
+CREATE OR REPLACE FUNCTION public.roll_up_prescription_order_status()
+RETURNS TRIGGER AS $$
+DECLARE
+  _order_id UUID;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    _order_id := OLD.order_id;
+  ELSE
+    _order_id := NEW.order_id;
+  END IF;
+
+  UPDATE public.prescription_orders
+  SET status = coalesce((
+    SELECT CASE
+      WHEN bool_and(items.status = 'filled') THEN 'filled'
+      WHEN bool_or(items.quantity_dispensed > 0) THEN 'partially_filled'
+      WHEN bool_and(items.status = 'out_of_stock') THEN 'out_of_stock'
+      ELSE 'pending'
+    END
+    FROM public.prescription_items items
+    WHERE items.order_id = _order_id
+  ), 'pending')
+  WHERE id = _order_id AND status <> 'closed';
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER roll_up_prescription_order_status
+AFTER INSERT OR UPDATE OR DELETE ON public.prescription_items
+FOR EACH ROW
+EXECUTE FUNCTION public.roll_up_prescription_order_status();
@@ -0,0 +1,63 @@
+-- Candidates for the duplicate check at registration. Only patients the fuzzy matching could score
+-- as a duplicate are returned, closest first, so a large registry cannot push the real match past
+-- the limit
+CREATE EXTENSION IF NOT EXISTS fuzzystrmatch WITH SCHEMA extensions;
+
+-- A name as the matching compares it: lower case letters only
+CREATE OR REPLACE FUNCTION public.normalize_name(_name TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT regexp_replace(lower(coalesce(_name, '')), '[^a-z]', '', 'g')
+$$;
+
+-- Whether two names could be scored alike: names that sound alike start with the same letter, and
+-- a typo is a few edits away, so a C/K spelling is still found
+CREATE OR REPLACE FUNCTION public.names_may_match(_a TEXT, _b TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public, extensions
+AS $$
+  SELECT x <> '' AND y <> '' AND (
+    left(x, 1) = left(y, 1)
+    OR levenshtein(x, y) <= greatest(1, greatest(length(x), length(y)) / 4)
+  )
+  FROM (SELECT normalize_name(_a) AS x, normalize_name(_b) AS y) AS names
+$$;
+
+-- The child's given name has to match, recorded either way round, and a name alone never reaches
+-- the threshold: the date of birth, caregiver or phone must match too
+CREATE OR REPLACE FUNCTION public.find_patient_candidates(
+  _first_name TEXT,
+  _last_name TEXT,
+  _date_of_birth DATE,
+  _guardian_name TEXT,
+  _guardian_phone TEXT,
+  _dob_tolerance_days INTEGER,
+  _limit INTEGER
+)
+RETURNS SETOF public.patients
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  SELECT patients.*
+  FROM public.patients
+  CROSS JOIN LATERAL (
+    SELECT coalesce(
+      length(_guardian_phone) >= 6
+        AND right(regexp_replace(coalesce(patients.guardian_phone, ''), '\D', '', 'g'), 8) = _guardian_phone,
+      false
+    ) AS same_phone
+  ) AS phone
+  WHERE (names_may_match(patients.first_name, _first_name) OR names_may_match(patients.first_name, _last_name))
+    AND (
+      abs(patients.date_of_birth - _date_of_birth) <= _dob_tolerance_days
+      OR names_may_match(patients.guardian_name, _guardian_name)
+      OR phone.same_phone
+    )
+  ORDER BY phone.same_phone DESC, abs(patients.date_of_birth - _date_of_birth)
+  LIMIT _limit
+$$;